@@ -0,0 +1,281 @@
+/**
+ * Polymarket CLOB user channel WebSocket：本账户的订单与成交推送
+ *
+ * - order：挂单（PLACEMENT）、部分成交（UPDATE）、撤单（CANCELLATION）
+ * - trade：成交确认，状态 MATCHED → MINED → CONFIRMED（失败为 FAILED）
+ * - 成交统一转为 UserFillEvent：按订单拆分（吃单方取 taker_order_id，挂单方取 maker_orders 中本账户的部分），
+ *   同一笔成交多次推送只在首次出现时发出 fill，之后若变为 FAILED 再发出 fill_failed
+ * - 半开连接：超过 SILENT_TIMEOUT_MS 没有任何消息（含 PONG）时 isLive() 为 false（调用方改为推断成交），并断开重连
+ * - 数据与 PONG 上报给 FeedProbe（见 feed-health.ts）；健康监控发现静默时调用 reconnect()
+ */
+
+import WebSocket from "ws";
+import type { FeedProbe } from "./feed-health.js";
+
+const CLOB_WS_USER = "wss://ws-subscriptions-clob.polymarket.com/ws/user";
+const PING_INTERVAL_MS = 10_000;
+const SILENT_TIMEOUT_MS = 30_000; // 这么久没收到任何消息（含 PONG）视为连接已死
+
+export interface UserOrderEvent {
+  kind: "order";
+  type: "placement" | "update" | "cancellation";
+  orderId: string;
+  assetId: string;
+  market: string;
+  side: "BUY" | "SELL";
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  ts: number;
+}
+
+export interface UserFillEvent {
+  kind: "fill" | "fill_failed";
+  tradeId: string;
+  orderId: string;
+  assetId: string;
+  market: string;
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  status: string; // MATCHED / MINED / CONFIRMED / FAILED ...
+  ts: number;
+  /** 本账户在这笔成交中是吃单方（taker_order_id）还是挂单方（maker_orders） */
+  liquidity: "maker" | "taker";
+}
+
+export type UserEvent = UserOrderEvent | UserFillEvent;
+export type UserEventHandler = (event: UserEvent) => void;
+
+/** 用户事件订阅句柄 */
+export interface UserFeed {
+  /** 推送是否可用（断线或长时间无消息期间成交需调用方自行推断） */
+  isLive(): boolean;
+  /** 断开当前连接，5 秒后重连 */
+  reconnect(): void;
+  close(): void;
+}
+
+export interface UserWsCreds {
+  key: string;
+  secret: string;
+  passphrase: string;
+}
+
+interface WsMakerOrder {
+  order_id: string;
+  owner?: string;
+  matched_amount: string;
+  price: string;
+  asset_id?: string;
+  side?: string;
+}
+
+interface WsUserMessage {
+  event_type?: string;
+  type?: string;
+  id?: string;
+  asset_id?: string;
+  market?: string;
+  side?: string;
+  price?: string;
+  size?: string;
+  original_size?: string;
+  size_matched?: string;
+  status?: string;
+  owner?: string;
+  trader_side?: string;
+  taker_order_id?: string;
+  maker_orders?: WsMakerOrder[];
+  timestamp?: string;
+  matchtime?: string;
+}
+
+function toSide(s: string | undefined): "BUY" | "SELL" {
+  return (s ?? "").toUpperCase() === "SELL" ? "SELL" : "BUY";
+}
+
+function toTs(s: string | undefined): number {
+  const n = parseInt(s ?? "", 10);
+  if (!Number.isFinite(n)) return Date.now();
+  return n < 1e12 ? n * 1000 : n; // 部分字段为秒
+}
+
+/**
+ * 把一条 user channel 消息转换为规范化事件（不做去重）
+ * apiKey 用于识别 maker_orders 中属于本账户的订单
+ */
+export function parseUserMessage(msg: WsUserMessage, apiKey: string): UserEvent[] {
+  if (msg.event_type === "order" && msg.id) {
+    const type = (msg.type ?? "").toUpperCase();
+    return [{
+      kind: "order",
+      type: type === "CANCELLATION" ? "cancellation" : type === "UPDATE" ? "update" : "placement",
+      orderId: msg.id,
+      assetId: msg.asset_id ?? "",
+      market: msg.market ?? "",
+      side: toSide(msg.side),
+      price: parseFloat(msg.price ?? "0") || 0,
+      originalSize: parseFloat(msg.original_size ?? "0") || 0,
+      sizeMatched: parseFloat(msg.size_matched ?? "0") || 0,
+      ts: toTs(msg.timestamp),
+    }];
+  }
+
+  if (msg.event_type === "trade" && msg.id) {
+    const status = (msg.status ?? "").toUpperCase();
+    const kind = status === "FAILED" ? "fill_failed" : "fill";
+    const base = { kind, tradeId: msg.id, market: msg.market ?? "", status, ts: toTs(msg.matchtime ?? msg.timestamp) } as const;
+    const fills: UserEvent[] = [];
+    const isMaker = (msg.trader_side ?? "").toUpperCase() === "MAKER";
+    if (!isMaker && msg.taker_order_id) {
+      fills.push({
+        ...base,
+        orderId: msg.taker_order_id,
+        liquidity: "taker",
+        assetId: msg.asset_id ?? "",
+        side: toSide(msg.side),
+        price: parseFloat(msg.price ?? "0") || 0,
+        size: parseFloat(msg.size ?? "0") || 0,
+      });
+    }
+    for (const m of msg.maker_orders ?? []) {
+      if (m.owner && apiKey && m.owner !== apiKey) continue;
+      if (!m.owner && !isMaker) continue;
+      fills.push({
+        ...base,
+        orderId: m.order_id,
+        liquidity: "maker",
+        assetId: m.asset_id ?? msg.asset_id ?? "",
+        // 挂单方方向：推送带 side 时直接用，否则与吃单方相反
+        side: m.side ? toSide(m.side) : toSide(msg.side) === "BUY" ? "SELL" : "BUY",
+        price: parseFloat(m.price) || 0,
+        size: parseFloat(m.matched_amount) || 0,
+      });
+    }
+    return fills.filter((f) => f.kind !== "fill" || (f as UserFillEvent).size > 0);
+  }
+
+  return [];
+}
+
+/**
+ * 连接 user channel（需 API 凭证），断线 5 秒后重连
+ */
+export function connectClobUserWs(creds: UserWsCreds, onEvent: UserEventHandler, probe?: FeedProbe): UserFeed {
+  let ws: WebSocket | null = null;
+  let connected = false;
+  let closed = false;
+  let lastMessageMs = 0;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // 成交去重：tradeId:orderId → 是否已失败
+  const seenFills = new Map<string, boolean>();
+
+  function emit(events: UserEvent[]): void {
+    for (const ev of events) {
+      if (ev.kind !== "order") {
+        const key = `${ev.tradeId}:${ev.orderId}`;
+        const seen = seenFills.get(key);
+        if (ev.kind === "fill") {
+          if (seen !== undefined) continue;
+          seenFills.set(key, false);
+        } else {
+          if (seen !== false) continue; // 未记录过成交 / 已报过失败
+          seenFills.set(key, true);
+        }
+        if (seenFills.size > 5000) seenFills.delete(seenFills.keys().next().value!);
+      }
+      try {
+        onEvent(ev);
+      } catch (e) {
+        console.error("[CLOB-User] handler err:", e instanceof Error ? e.message : e);
+      }
+    }
+  }
+
+  function connect(): void {
+    if (closed) return;
+    const socket = new WebSocket(CLOB_WS_USER);
+    ws = socket;
+
+    socket.on("open", () => {
+      connected = true;
+      lastMessageMs = Date.now();
+      console.log("[CLOB-User] Connected. Subscribing user channel...");
+      socket.send(JSON.stringify({
+        type: "user",
+        markets: [],
+        auth: { apiKey: creds.key, secret: creds.secret, passphrase: creds.passphrase },
+      }));
+      pingTimer = setInterval(() => {
+        if (Date.now() - lastMessageMs > SILENT_TIMEOUT_MS) {
+          console.warn("[CLOB-User] 长时间无消息（含 PONG），重连");
+          socket.terminate();
+          return;
+        }
+        try {
+          socket.send("PING");
+        } catch {
+          // ignore
+        }
+      }, PING_INTERVAL_MS);
+    });
+
+    socket.on("message", (data: Buffer) => {
+      lastMessageMs = Date.now();
+      const raw = data.toString();
+      if (raw === "PONG") {
+        probe?.pong();
+        return;
+      }
+      probe?.message();
+      try {
+        const parsed = JSON.parse(raw) as WsUserMessage | WsUserMessage[];
+        for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+          emit(parseUserMessage(msg, creds.key));
+        }
+      } catch {
+        // ignore
+      }
+    });
+
+    socket.on("error", (err: Error) => {
+      console.error("[CLOB-User] Error:", err.message);
+    });
+
+    socket.on("close", (code: number) => {
+      if (pingTimer) clearInterval(pingTimer);
+      pingTimer = null;
+      connected = false;
+      if (closed) return;
+      console.warn(`[CLOB-User] Closed. code=${code}，成交改为按下单结果推断`);
+      if (!reconnectTimer) {
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          console.log("[CLOB-User] Reconnecting...");
+          connect();
+        }, 5000);
+      }
+    });
+  }
+
+  connect();
+
+  return {
+    isLive: () => connected && Date.now() - lastMessageMs <= SILENT_TIMEOUT_MS,
+    reconnect(): void {
+      if (closed) return;
+      ws?.terminate();
+    },
+    close(): void {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      try {
+        ws?.close();
+      } catch {
+        // ignore
+      }
+    },
+  };
+}
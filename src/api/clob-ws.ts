@@ -0,0 +1,333 @@
+/**
+ * Polymarket CLOB market channel WebSocket：本地维护实时订单簿
+ *
+ * - 订阅当前活跃市场的 token：服务端先推 book 快照，之后推 price_change 增量
+ * - 本地按价位维护 bids/asks，读取时输出与 REST 一致的排序（bids 降序、asks 升序）
+ * - 乱序/重复：timestamp 早于本地簿的更新丢弃，hash 与本地相同的增量视为重复
+ * - 失步：增量携带的 best_bid/best_ask 与本地不一致 → 该 token 标记失步并用 REST 重新拉快照
+ * - 断线：清空本地簿（调用方回退 REST 轮询），5 秒后重连；重连后服务端重新推快照
+ * - 数据与 PONG 上报给 FeedProbe（见 feed-health.ts）；健康监控发现静默时调用 reconnect()
+ */
+
+import WebSocket from "ws";
+import { getOrderBook } from "./clob.js";
+import type { OrderBookLevel, OrderBookSummary } from "./clob.js";
+import type { FeedProbe } from "./feed-health.js";
+
+const CLOB_WS_MARKET = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
+const PING_INTERVAL_MS = 10_000;
+const SILENT_TIMEOUT_MS = 30_000; // 这么久没收到任何消息（含 PONG）视为连接已死
+
+export type BookUpdateHandler = (assetId: string) => void;
+
+export interface ClobMarketFeed {
+  /** 设置订阅的 token（变化时重连重新订阅） */
+  setAssets(tokenIds: string[]): void;
+  /** 已同步的本地订单簿；未收到快照 / 失步 / 断线时返回 null */
+  getBook(tokenId: string): OrderBookSummary | null;
+  isConnected(): boolean;
+  /** 断开当前连接，5 秒后重连（重新推快照） */
+  reconnect(): void;
+  close(): void;
+}
+
+interface LocalBook {
+  market: string;
+  assetId: string;
+  bids: Map<string, string>; // price → size
+  asks: Map<string, string>;
+  timestamp: number;
+  hash: string;
+  tickSize?: string;
+  synced: boolean;
+  snapshot: OrderBookSummary | null; // 排序后的缓存，更新时置空
+}
+
+interface WsLevelChange {
+  asset_id?: string;
+  price: string;
+  size: string;
+  side: "BUY" | "SELL";
+  hash?: string;
+  best_bid?: string;
+  best_ask?: string;
+}
+
+interface WsMessage {
+  event_type?: string;
+  asset_id?: string;
+  market?: string;
+  timestamp?: string;
+  hash?: string;
+  bids?: OrderBookLevel[];
+  asks?: OrderBookLevel[];
+  buys?: OrderBookLevel[];  // 旧版字段名
+  sells?: OrderBookLevel[];
+  changes?: WsLevelChange[];       // 旧版 price_change
+  price_changes?: WsLevelChange[]; // 新版 price_change（可跨多个 asset）
+  new_tick_size?: string;
+}
+
+function toLevelMap(levels: OrderBookLevel[] | undefined): Map<string, string> {
+  const m = new Map<string, string>();
+  for (const l of levels ?? []) {
+    if (parseFloat(l.size) > 0) m.set(l.price, l.size);
+  }
+  return m;
+}
+
+function bestPrice(levels: Map<string, string>, side: "bid" | "ask"): number {
+  let best = side === "bid" ? 0 : Infinity;
+  for (const p of levels.keys()) {
+    const v = parseFloat(p);
+    if (side === "bid" ? v > best : v < best) best = v;
+  }
+  return best;
+}
+
+function toSummary(b: LocalBook): OrderBookSummary {
+  const levels = (m: Map<string, string>) => [...m.entries()].map(([price, size]) => ({ price, size }));
+  const bids = levels(b.bids).sort((x, y) => parseFloat(y.price) - parseFloat(x.price));
+  const asks = levels(b.asks).sort((x, y) => parseFloat(x.price) - parseFloat(y.price));
+  return {
+    market: b.market,
+    asset_id: b.assetId,
+    timestamp: String(b.timestamp),
+    hash: b.hash,
+    bids,
+    asks,
+    ...(b.tickSize ? { tick_size: b.tickSize } : {}),
+  };
+}
+
+/**
+ * 连接 market channel；每次某个 token 的本地簿发生变化时回调 onUpdate
+ */
+export function connectClobMarketWs(onUpdate: BookUpdateHandler, probe?: FeedProbe): ClobMarketFeed {
+  let ws: WebSocket | null = null;
+  let assets: string[] = [];
+  let connected = false;
+  let closed = false;
+  let lastMessageMs = 0;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  const books = new Map<string, LocalBook>();
+  const resyncing = new Set<string>();
+
+  function applySnapshot(msg: WsMessage): void {
+    const assetId = msg.asset_id;
+    if (!assetId || !assets.includes(assetId)) return;
+    const ts = parseInt(msg.timestamp ?? "0", 10) || Date.now();
+    const existing = books.get(assetId);
+    if (existing?.synced && ts < existing.timestamp) return; // 乱序的旧快照
+
+    books.set(assetId, {
+      market: msg.market ?? existing?.market ?? "",
+      assetId,
+      bids: toLevelMap(msg.bids ?? msg.buys),
+      asks: toLevelMap(msg.asks ?? msg.sells),
+      timestamp: ts,
+      hash: msg.hash ?? "",
+      tickSize: existing?.tickSize,
+      synced: true,
+      snapshot: null,
+    });
+    onUpdate(assetId);
+  }
+
+  function applyChange(change: WsLevelChange, assetId: string, ts: number, hash: string | undefined): void {
+    const book = books.get(assetId);
+    if (!book || !book.synced) return; // 未收到快照前的增量无意义
+    if (ts < book.timestamp) return;   // 乱序
+    if (hash && hash === book.hash) return; // 重复推送
+
+    const side = change.side === "BUY" ? book.bids : book.asks;
+    if (parseFloat(change.size) > 0) side.set(change.price, change.size);
+    else side.delete(change.price);
+    book.timestamp = ts;
+    if (hash) book.hash = hash;
+    book.snapshot = null;
+
+    // 服务端附带的最优价与本地不一致 → 失步，重新拉快照
+    if (change.best_bid !== undefined && change.best_ask !== undefined) {
+      const bid = bestPrice(book.bids, "bid");
+      const ask = bestPrice(book.asks, "ask");
+      const wantBid = parseFloat(change.best_bid) || 0;
+      const wantAsk = parseFloat(change.best_ask) || Infinity;
+      if (Math.abs(bid - wantBid) > 1e-9 || (Number.isFinite(wantAsk) && Math.abs(ask - wantAsk) > 1e-9)) {
+        book.synced = false;
+        void resync(assetId);
+        return;
+      }
+    }
+    onUpdate(assetId);
+  }
+
+  function applyPriceChange(msg: WsMessage): void {
+    const ts = parseInt(msg.timestamp ?? "0", 10) || Date.now();
+    if (msg.price_changes) {
+      for (const c of msg.price_changes) {
+        if (c.asset_id) applyChange(c, c.asset_id, ts, c.hash);
+      }
+    } else if (msg.changes && msg.asset_id) {
+      // 旧版：一条消息多档变化共用一个 hash，逐档应用后再记 hash
+      const assetId = msg.asset_id;
+      msg.changes.forEach((c, i) => applyChange(c, assetId, ts, i === msg.changes!.length - 1 ? msg.hash : undefined));
+    }
+  }
+
+  /** 用 REST 快照替换失步的本地簿 */
+  async function resync(assetId: string): Promise<void> {
+    if (resyncing.has(assetId)) return;
+    resyncing.add(assetId);
+    try {
+      const rest = await getOrderBook(assetId);
+      const book = books.get(assetId);
+      if (!rest || !book || book.synced) return;
+      console.warn(`[CLOB-WS] ${assetId.slice(0, 10)}… 本地簿失步，已用 REST 快照重建`);
+      applySnapshot({ ...rest, timestamp: String(Math.max(parseInt(rest.timestamp, 10) || 0, book.timestamp)) });
+    } catch (e) {
+      console.error("[CLOB-WS] resync err:", e instanceof Error ? e.message : e);
+    } finally {
+      resyncing.delete(assetId);
+    }
+  }
+
+  function handleMessage(raw: string): void {
+    lastMessageMs = Date.now();
+    if (raw === "PONG") {
+      probe?.pong();
+      return;
+    }
+    probe?.message();
+    let parsed: WsMessage | WsMessage[];
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+      switch (msg.event_type) {
+        case "book":
+          applySnapshot(msg);
+          break;
+        case "price_change":
+          applyPriceChange(msg);
+          break;
+        case "tick_size_change": {
+          const book = msg.asset_id ? books.get(msg.asset_id) : undefined;
+          if (book && msg.new_tick_size) {
+            book.tickSize = msg.new_tick_size;
+            book.snapshot = null;
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  function connect(): void {
+    if (closed || assets.length === 0) return;
+    const socket = new WebSocket(CLOB_WS_MARKET);
+    ws = socket;
+
+    socket.on("open", () => {
+      connected = true;
+      lastMessageMs = Date.now();
+      console.log(`[CLOB-WS] Connected. Subscribing ${assets.length} tokens...`);
+      socket.send(JSON.stringify({ type: "market", assets_ids: assets }));
+      pingTimer = setInterval(() => {
+        if (Date.now() - lastMessageMs > SILENT_TIMEOUT_MS) {
+          console.warn("[CLOB-WS] 长时间无消息，重连");
+          socket.terminate();
+          return;
+        }
+        try {
+          socket.send("PING");
+        } catch {
+          // ignore
+        }
+      }, PING_INTERVAL_MS);
+    });
+
+    socket.on("message", (data: Buffer) => handleMessage(data.toString()));
+
+    socket.on("error", (err: Error) => {
+      console.error("[CLOB-WS] Error:", err.message);
+    });
+
+    socket.on("close", (code: number) => {
+      if (pingTimer) clearInterval(pingTimer);
+      pingTimer = null;
+      if (ws !== socket) return; // 主动换订阅时关闭的旧连接
+      connected = false;
+      books.clear();
+      if (closed) return;
+      console.warn(`[CLOB-WS] Closed. code=${code}，回退 REST 轮询`);
+      scheduleReconnect();
+    });
+  }
+
+  function scheduleReconnect(): void {
+    if (reconnectTimer || closed) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      console.log("[CLOB-WS] Reconnecting...");
+      connect();
+    }, 5000);
+  }
+
+  function closeSocket(): void {
+    const old = ws;
+    ws = null;
+    connected = false;
+    if (old) {
+      try {
+        old.close();
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  return {
+    setAssets(tokenIds: string[]): void {
+      const next = [...new Set(tokenIds)].sort();
+      if (next.join(",") === assets.join(",")) return;
+      assets = next;
+      for (const id of books.keys()) {
+        if (!assets.includes(id)) books.delete(id);
+      }
+      // market channel 按连接订阅：token 变化时重连
+      closeSocket();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      connect();
+    },
+
+    getBook(tokenId: string): OrderBookSummary | null {
+      if (!connected) return null;
+      const book = books.get(tokenId);
+      if (!book || !book.synced) return null;
+      book.snapshot ??= toSummary(book);
+      return book.snapshot;
+    },
+
+    isConnected(): boolean {
+      return connected;
+    },
+
+    reconnect(): void {
+      if (closed) return;
+      ws?.terminate();
+    },
+
+    close(): void {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      closeSocket();
+    },
+  };
+}
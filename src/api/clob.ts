@@ -7,6 +7,9 @@ import type { ApiKeyCreds } from "@polymarket/clob-client";
 import { Wallet } from "@ethersproject/wallet";
 import type { EnvConfig } from "../config/index.js";
 import { CHAIN_ID, CLOB_HOST } from "../config/index.js";
+import { connectClobUserWs } from "./clob-user-ws.js";
+import type { UserEventHandler, UserFeed } from "./clob-user-ws.js";
+import type { FeedProbe } from "./feed-health.js";
 
 export interface OrderBookLevel {
   price: string;
@@ -61,24 +64,66 @@ export async function getOrderBooks(tokenIds: string[]): Promise<Map<string, Ord
 
 export interface CreateOrderParams {
   tokenID: string;
-  price: number;
-  size: number;
+  price: number;   // 限价；FOK/FAK 为最差成交价
+  size: number;    // 张数
   side: "BUY" | "SELL";
+  /** GTD 到期时间（unix 秒，已含交易所 60 秒安全阈值） */
+  expiration?: number;
+  /** FOK/FAK 买单的预期成交均价（多档 VWAP）：市价买单按 均价 × 张数 计算 USDC 金额，缺省按限价（多档成交时会买多） */
+  avgPrice?: number;
 }
 
 export interface OrderOptions {
   tickSize?: string;
   negRisk?: boolean;
+  /** taker 费率（bps）；实盘由 clob-client 自行查询，模拟盘据此扣手续费（postOnly 订单为 maker 费率） */
+  feeRateBps?: number;
+  /**
+   * 只做 maker（做市报价）：模拟盘会穿价的拒单、不穿价的挂单排队，盘口穿过挂单价时按挂单价成交（见 paper-client.ts）；
+   * 实盘 clob-client 暂不支持该参数，由报价方挂单前按最新盘口复核不穿价（见 execution/quoter.ts），
+   * 成交是否为 maker 以成交事件为准（UserFillEvent.liquidity）
+   */
+  postOnly?: boolean;
 }
 
+/**
+ * GTC：挂单直到成交/撤单；GTD：挂单到 expiration 自动失效
+ * FOK：立即全部成交否则整单取消；FAK：立即成交能成交的部分，其余取消
+ */
 export type OrderType = "GTC" | "FOK" | "FAK" | "GTD";
 
+/** 交易所对 GTD 的安全阈值：实际失效时间 = expiration - 60 秒 */
+export const GTD_SECURITY_THRESHOLD_SEC = 60;
+
+/** 到 endMs 时失效的 GTD expiration（unix 秒） */
+export function gtdExpirationFor(endMs: number): number {
+  return Math.floor(endMs / 1000) + GTD_SECURITY_THRESHOLD_SEC;
+}
+
+/** 下单结果；status 为撮合引擎返回的订单状态（matched = 已全部成交，live = 挂单中） */
+export interface OrderPostResult {
+  success: boolean;
+  orderId?: string;
+  errorMsg?: string;
+  status?: string;
+  /** 下单即撮合的张数与均价（FOK/FAK 取返回的 takingAmount / makingAmount），未知为 undefined */
+  sizeMatched?: number;
+  avgPrice?: number;
+}
+
+/** 订单状态（挂单成交进度） */
+export interface OrderStatus {
+  status: string;      // LIVE / MATCHED / CANCELED ...
+  sizeMatched: number; // 已成交数量
+  originalSize: number;
+}
+
 export interface PolymarketClient {
   createAndPostOrder(
     params: CreateOrderParams,
     options: OrderOptions,
     orderType: OrderType
-  ): Promise<{ success: boolean; orderId?: string; errorMsg?: string }>;
+  ): Promise<OrderPostResult>;
 
   /** 初始化授权（USDC + Outcome tokens） */
   initializeAllowances(): Promise<void>;
@@ -86,6 +131,9 @@ export interface PolymarketClient {
   /** 取消所有挂单 */
   cancelAll(): Promise<void>;
 
+  /** 取消单个订单；返回是否已取消（订单已成交/不存在时为 false） */
+  cancelOrder(orderId: string): Promise<boolean>;
+
   /** 获取 USDC 余额 */
   getBalance(): Promise<{ balance: string; allowance: string }>;
 
@@ -94,6 +142,12 @@ export interface PolymarketClient {
 
   /** 查询指定 outcome token 的实际余额（用于卖出前确认代币已到账） */
   getTokenBalance(tokenId: string): Promise<number>;
+
+  /** 查询订单状态；查询失败返回 null */
+  getOrder(orderId: string): Promise<OrderStatus | null>;
+
+  /** 订阅本账户的订单/成交推送（实盘为 CLOB user channel，模拟盘为模拟成交）；probe 上报连接健康 */
+  subscribeUserEvents(handler: UserEventHandler, probe?: FeedProbe): UserFeed;
 }
 
 export async function createPolymarketClient(config: EnvConfig): Promise<PolymarketClient | null> {
@@ -172,6 +226,16 @@ export async function createPolymarketClient(config: EnvConfig): Promise<Polymar
       }
     },
 
+    async cancelOrder(orderId: string): Promise<boolean> {
+      try {
+        const res = (await tradingClient.cancelOrder({ orderID: orderId })) as { canceled?: string[] } | undefined;
+        return res?.canceled?.includes(orderId) ?? false;
+      } catch (e) {
+        console.log("[Orders] cancelOrder:", e instanceof Error ? e.message : e);
+        return false;
+      }
+    },
+
     async getBalance(): Promise<{ balance: string; allowance: string }> {
       try {
         const bal = await tradingClient.getBalanceAllowance({ asset_type: "COLLATERAL" as any });
@@ -217,30 +281,81 @@ export async function createPolymarketClient(config: EnvConfig): Promise<Polymar
       }
     },
 
+    subscribeUserEvents(handler: UserEventHandler, probe?: FeedProbe): UserFeed {
+      return connectClobUserWs(apiCreds, handler, probe);
+    },
+
+    async getOrder(orderId: string): Promise<OrderStatus | null> {
+      try {
+        const o = await tradingClient.getOrder(orderId);
+        if (!o?.status) return null;
+        return {
+          status: o.status.toUpperCase(),
+          sizeMatched: parseFloat(o.size_matched ?? "0") || 0,
+          originalSize: parseFloat(o.original_size ?? "0") || 0,
+        };
+      } catch {
+        return null;
+      }
+    },
+
     async createAndPostOrder(params, options, orderType) {
       try {
         const { OrderType, Side } = await import("@polymarket/clob-client");
-        const orderTypeEnum = orderType === "GTD" ? OrderType.GTD : OrderType.GTC;
-        const result = await tradingClient.createAndPostOrder(
-          {
-            tokenID: params.tokenID,
-            price: params.price,
-            size: params.size,
-            side: params.side === "BUY" ? Side.BUY : Side.SELL,
-          },
-          {
-            tickSize: (options.tickSize ?? "0.01") as "0.1" | "0.01" | "0.001" | "0.0001",
-            negRisk: options.negRisk ?? false,
-          },
-          orderTypeEnum
-        );
-        const r = result as { success?: boolean; orderId?: string; errorMsg?: string; orderID?: string; error?: string; status?: string };
+        const side = params.side === "BUY" ? Side.BUY : Side.SELL;
+        const createOptions = {
+          tickSize: (options.tickSize ?? "0.01") as "0.1" | "0.01" | "0.001" | "0.0001",
+          negRisk: options.negRisk ?? false,
+        };
+        let result: unknown;
+        if (orderType === "FOK" || orderType === "FAK") {
+          // 市价单：BUY 的 amount 为 USDC 金额，SELL 为张数；price 为最差成交价
+          result = await tradingClient.createAndPostMarketOrder(
+            {
+              tokenID: params.tokenID,
+              price: params.price,
+              amount: params.side === "BUY" ? Math.floor((params.avgPrice ?? params.price) * params.size * 100) / 100 : params.size,
+              side,
+            },
+            createOptions,
+            orderType === "FOK" ? OrderType.FOK : OrderType.FAK
+          );
+        } else if (orderType === "GTD") {
+          if (!params.expiration) return { success: false, errorMsg: "GTD order requires expiration" };
+          result = await tradingClient.createAndPostOrder(
+            { tokenID: params.tokenID, price: params.price, size: params.size, side, expiration: params.expiration },
+            createOptions,
+            OrderType.GTD
+          );
+        } else {
+          result = await tradingClient.createAndPostOrder(
+            { tokenID: params.tokenID, price: params.price, size: params.size, side },
+            createOptions,
+            OrderType.GTC
+          );
+        }
+        const r = result as {
+          success?: boolean; orderId?: string; errorMsg?: string; orderID?: string; error?: string; status?: string;
+          takingAmount?: string; makingAmount?: string;
+        };
         const orderId = r.orderId || r.orderID; // 兼容不同返回字段名
         const success = r.success === true; // 严格判断，undefined/null/false 都算失败
         // clob-client 库在 API 400 时不抛异常，而是返回 { success: false }
         // 所以在 try 块里也要尝试提取错误信息
         const errorMsg = r.errorMsg || r.error || (!success ? `order rejected (success=${r.success})` : undefined);
-        return { success, orderId, errorMsg };
+        // 市价单的实际成交：BUY 付出 USDC（making）换得代币（taking），SELL 相反
+        let sizeMatched: number | undefined;
+        let avgPrice: number | undefined;
+        if (success && (orderType === "FOK" || orderType === "FAK")) {
+          const taking = parseFloat(r.takingAmount ?? "");
+          const making = parseFloat(r.makingAmount ?? "");
+          const [shares, usdc] = params.side === "BUY" ? [taking, making] : [making, taking];
+          if (shares > 0 && usdc > 0) {
+            sizeMatched = shares;
+            avgPrice = usdc / shares;
+          }
+        }
+        return { success, orderId, errorMsg, status: r.status?.toLowerCase(), sizeMatched, avgPrice };
       } catch (e: unknown) {
         const err = e as { message?: string; response?: { data?: { error?: string } } };
         const fromBody = err.response?.data?.error;
@@ -0,0 +1,134 @@
+/**
+ * 链上兑付：Conditional Tokens（CTF）/ NegRiskAdapter 的 redeemPositions 调用（Polygon）
+ *
+ * - 普通市场：CTF.redeemPositions(USDC.e, 0x0, conditionId, [1, 2])，销毁持有的两边代币，赢方按 $1 兑付
+ * - neg-risk 市场：NegRiskAdapter.redeemPositions(conditionId, [yes 数量, no 数量])
+ * - 按 SIGNATURE_TYPE 决定由谁发起调用（代币在 funder 地址上）：
+ *   0 = EOA 直接调用；1 = Polymarket 代理钱包，经 ProxyWalletFactory.proxy 转发；
+ *   2 = Gnosis Safe，owner 直接发 execTransaction（签名用 v=1 的“已批准哈希”格式，msg.sender 即 owner）
+ * - CtfGateway 为接口：runner 用链上实现，测试可换成本地链（POLYGON_RPC_URL 指向 anvil fork）或 mock
+ */
+
+import { Contract } from "@ethersproject/contracts";
+import { JsonRpcProvider } from "@ethersproject/providers";
+import { Wallet } from "@ethersproject/wallet";
+import type { EnvConfig } from "../config/index.js";
+
+export const CTF_ADDRESS = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
+export const USDC_E_ADDRESS = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
+export const NEG_RISK_ADAPTER_ADDRESS = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296";
+export const PROXY_WALLET_FACTORY_ADDRESS = "0xaB45c5A4B0c941a2F231C04C3f49182e1A254052";
+
+const ZERO_BYTES32 = "0x" + "0".repeat(64);
+const ZERO_ADDRESS = "0x" + "0".repeat(40);
+const MIN_PRIORITY_FEE_WEI = 30_000_000_000n; // Polygon 要求的最低小费约 25–30 gwei
+
+const CTF_ABI = [
+  "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
+  "function payoutDenominator(bytes32 conditionId) view returns (uint256)",
+];
+const NEG_RISK_ADAPTER_ABI = [
+  "function redeemPositions(bytes32 _conditionId, uint256[] _amounts)",
+];
+const PROXY_FACTORY_ABI = [
+  "function proxy(tuple(uint8 typeCode, address to, uint256 value, bytes data)[] calls) payable returns (bytes[] returnValues)",
+];
+const SAFE_ABI = [
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)",
+];
+
+export interface RedeemRequest {
+  conditionId: string;
+  negRisk: boolean;
+  /** 两边代币的原始数量（6 位小数整数），顺序与 Gamma tokens 一致；neg-risk 兑付需要 */
+  amounts: [bigint, bigint];
+}
+
+export interface CtfGateway {
+  /** 条件是否已在链上结算（payoutDenominator > 0），未结算时兑付会 revert */
+  isResolved(conditionId: string): Promise<boolean>;
+  /** 提交兑付交易并等待 1 个确认，返回交易哈希；失败抛错 */
+  redeem(req: RedeemRequest): Promise<string>;
+}
+
+/** 编码目标合约调用：返回 { to, data } */
+export function encodeRedeemCall(req: RedeemRequest): { to: string; data: string } {
+  if (req.negRisk) {
+    const adapter = new Contract(NEG_RISK_ADAPTER_ADDRESS, NEG_RISK_ADAPTER_ABI);
+    return {
+      to: NEG_RISK_ADAPTER_ADDRESS,
+      data: adapter.interface.encodeFunctionData("redeemPositions", [req.conditionId, req.amounts.map(String)]),
+    };
+  }
+  const ctf = new Contract(CTF_ADDRESS, CTF_ABI);
+  return {
+    to: CTF_ADDRESS,
+    data: ctf.interface.encodeFunctionData("redeemPositions", [USDC_E_ADDRESS, ZERO_BYTES32, req.conditionId, [1, 2]]),
+  };
+}
+
+/** 按钱包类型包装调用：EOA 直接发；代理钱包经工厂转发；Safe 由 owner 发 execTransaction */
+export function wrapForWallet(
+  call: { to: string; data: string },
+  signatureType: 0 | 1 | 2,
+  ownerAddress: string,
+  funderAddress: string
+): { to: string; data: string } {
+  if (signatureType === 1) {
+    const factory = new Contract(PROXY_WALLET_FACTORY_ADDRESS, PROXY_FACTORY_ABI);
+    return {
+      to: PROXY_WALLET_FACTORY_ADDRESS,
+      data: factory.interface.encodeFunctionData("proxy", [[{ typeCode: 1, to: call.to, value: 0, data: call.data }]]),
+    };
+  }
+  if (signatureType === 2) {
+    const safe = new Contract(funderAddress, SAFE_ABI);
+    // 预批准签名：r = owner 地址（左补零到 32 字节），s = 0，v = 1
+    const signature = "0x" + ownerAddress.toLowerCase().replace(/^0x/, "").padStart(64, "0") + "0".repeat(64) + "01";
+    return {
+      to: funderAddress,
+      data: safe.interface.encodeFunctionData("execTransaction", [
+        call.to, 0, call.data, 0, 0, 0, 0, ZERO_ADDRESS, ZERO_ADDRESS, signature,
+      ]),
+    };
+  }
+  return call;
+}
+
+/**
+ * 链上实现；缺少私钥时返回 null
+ */
+export function createCtfGateway(config: EnvConfig): CtfGateway | null {
+  if (!config.privateKey) return null;
+  const provider = new JsonRpcProvider(config.polygonRpcUrl);
+  const pk = config.privateKey.startsWith("0x") ? config.privateKey : "0x" + config.privateKey;
+  const wallet = new Wallet(pk, provider);
+  const funder = config.signatureType === 0 ? wallet.address : config.funderAddress;
+  const ctf = new Contract(CTF_ADDRESS, CTF_ABI, provider);
+
+  return {
+    async isResolved(conditionId: string): Promise<boolean> {
+      const denom = await ctf.payoutDenominator(conditionId);
+      return !denom.isZero();
+    },
+
+    async redeem(req: RedeemRequest): Promise<string> {
+      const tx = wrapForWallet(encodeRedeemCall(req), config.signatureType, wallet.address, funder);
+      const block = await provider.getBlock("latest");
+      const baseFee = block.baseFeePerGas?.toBigInt() ?? 0n;
+      const fee = await provider.getFeeData();
+      const priority = (fee.maxPriorityFeePerGas?.toBigInt() ?? 0n) > MIN_PRIORITY_FEE_WEI
+        ? fee.maxPriorityFeePerGas!.toBigInt()
+        : MIN_PRIORITY_FEE_WEI;
+      const sent = await wallet.sendTransaction({
+        to: tx.to,
+        data: tx.data,
+        maxPriorityFeePerGas: priority,
+        maxFeePerGas: baseFee * 2n + priority,
+      });
+      const receipt = await sent.wait(1);
+      if (receipt.status !== 1) throw new Error(`redeem tx reverted: ${sent.hash}`);
+      return sent.hash;
+    },
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Binance / Coinbase / Bybit 现货行情 WebSocket（与 OKX 一起组成多交易所价格源，见 price-feed.ts）
+ *
+ * - Binance：组合流 {symbol}@aggTrade（成交价，T = 成交时间）
+ * - Coinbase：ticker 频道（BTC-USD 等美元交易对，time = 成交时间）
+ * - Bybit：v5 spot tickers.{symbol}（lastPrice，ts = 推送时间），需每 20 秒发 ping
+ * - 断线自动重连：5 秒起、每次翻倍、最长 60 秒，收到行情后复位；close() 后不再重连
+ * - 心跳：有应用层 ping 的（Bybit / OKX / RTDS）按其格式发送，其余发 WebSocket ping 帧；
+ *   数据与心跳回应上报给 FeedProbe（见 feed-health.ts），静默时由监控调用 reconnect()
+ */
+
+import WebSocket from "ws";
+import type { SpotPriceHandler } from "./okx-ws.js";
+import type { FeedProbe } from "./feed-health.js";
+
+const BINANCE_WS = "wss://stream.binance.com:9443/stream";
+const COINBASE_WS = "wss://ws-feed.exchange.coinbase.com";
+const BYBIT_WS = "wss://stream.bybit.com/v5/public/spot";
+
+const RECONNECT_MIN_MS = 5_000;
+const RECONNECT_MAX_MS = 60_000;
+const BYBIT_PING_MS = 20_000;
+const HEARTBEAT_MS = 20_000;
+
+export interface SpotConnection {
+  /** 断开当前连接并按退避重连（健康监控发现静默时调用） */
+  reconnect(): void;
+  close(): void;
+}
+
+export interface ReconnectingWsOptions {
+  name: string;
+  url: string;
+  onOpen?: (socket: WebSocket) => void;
+  /** 返回 true 表示收到有效行情（复位重连间隔） */
+  onMessage: (msg: any) => boolean;
+  /** 应用层心跳；isPong 识别回应（不识别的按普通消息解析）。缺省时发 WebSocket ping 帧 */
+  ping?: { intervalMs: number; payload: string; isPong?: (text: string) => boolean };
+  probe?: FeedProbe;
+}
+
+/** 带自动重连（指数退避）与可选心跳的 WebSocket；其他行情源（如 oracle-feed.ts）也复用 */
+export function connectReconnectingWs(options: ReconnectingWsOptions): SpotConnection {
+  const tag = `[${options.name}-WS]`;
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let delayMs = RECONNECT_MIN_MS;
+  let closed = false;
+
+  function connect(): void {
+    const ws = new WebSocket(options.url);
+    socket = ws;
+
+    ws.on("open", () => {
+      console.log(`${tag} Connected.`);
+      options.onOpen?.(ws);
+      const ping = options.ping;
+      pingTimer = setInterval(() => {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        if (ping) ws.send(ping.payload);
+        else ws.ping();
+      }, ping?.intervalMs ?? HEARTBEAT_MS);
+    });
+
+    ws.on("pong", () => options.probe?.pong());
+
+    ws.on("message", (data: Buffer) => {
+      const text = data.toString();
+      if (options.ping?.isPong?.(text)) {
+        options.probe?.pong();
+        return;
+      }
+      try {
+        if (options.onMessage(JSON.parse(text))) {
+          delayMs = RECONNECT_MIN_MS;
+          options.probe?.message();
+        }
+      } catch {
+        // ignore
+      }
+    });
+
+    ws.on("error", (err: Error) => {
+      console.error(`${tag} Error:`, err.message);
+    });
+
+    ws.on("close", (code: number) => {
+      if (pingTimer) clearInterval(pingTimer);
+      pingTimer = null;
+      if (closed) return;
+      console.warn(`${tag} Closed. code=`, code, `| ${Math.round(delayMs / 1000)}s 后重连`);
+      scheduleReconnect();
+    });
+  }
+
+  function scheduleReconnect(): void {
+    if (reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      console.log(`${tag} Reconnecting...`);
+      connect();
+    }, delayMs);
+    delayMs = Math.min(RECONNECT_MAX_MS, delayMs * 2);
+  }
+
+  connect();
+  return {
+    reconnect(): void {
+      if (closed) return;
+      socket?.terminate();
+    },
+
+    close(): void {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (pingTimer) clearInterval(pingTimer);
+      try {
+        socket?.close();
+      } catch {
+        // ignore
+      }
+    },
+  };
+}
+
+/** 标的对应的 Binance 交易对（大写，如 BTCUSDT） */
+export function binanceSymbol(asset: string): string {
+  return `${asset.toUpperCase()}USDT`;
+}
+
+/** 标的对应的 Coinbase 交易对（美元计价，如 BTC-USD） */
+export function coinbaseProductId(asset: string): string {
+  return `${asset.toUpperCase()}-USD`;
+}
+
+/** 标的对应的 Bybit 现货交易对（如 BTCUSDT） */
+export function bybitSymbol(asset: string): string {
+  return `${asset.toUpperCase()}USDT`;
+}
+
+export function connectBinanceSpot(symbols: string[], onPrice: SpotPriceHandler, probe?: FeedProbe): SpotConnection {
+  const streams = symbols.map((s) => `${s.toLowerCase()}@aggTrade`).join("/");
+  return connectReconnectingWs({
+    name: "Binance",
+    url: `${BINANCE_WS}?streams=${streams}`,
+    probe,
+    onMessage: (msg) => {
+      const d = msg.data;
+      if (d?.e !== "aggTrade") return false;
+      const price = parseFloat(d.p);
+      if (!Number.isFinite(price) || !d.s) return false;
+      onPrice(d.s, price, Number(d.T ?? d.E ?? Date.now()));
+      return true;
+    },
+  });
+}
+
+export function connectCoinbaseSpot(productIds: string[], onPrice: SpotPriceHandler, probe?: FeedProbe): SpotConnection {
+  return connectReconnectingWs({
+    name: "Coinbase",
+    url: COINBASE_WS,
+    probe,
+    onOpen: (ws) => ws.send(JSON.stringify({ type: "subscribe", product_ids: productIds, channels: ["ticker"] })),
+    onMessage: (msg) => {
+      if (msg.type !== "ticker") return false;
+      const price = parseFloat(msg.price);
+      if (!Number.isFinite(price) || !msg.product_id) return false;
+      const ts = msg.time ? Date.parse(msg.time) : NaN;
+      onPrice(msg.product_id, price, Number.isFinite(ts) ? ts : Date.now());
+      return true;
+    },
+  });
+}
+
+export function connectBybitSpot(symbols: string[], onPrice: SpotPriceHandler, probe?: FeedProbe): SpotConnection {
+  return connectReconnectingWs({
+    name: "Bybit",
+    url: BYBIT_WS,
+    probe,
+    onOpen: (ws) => ws.send(JSON.stringify({ op: "subscribe", args: symbols.map((s) => `tickers.${s}`) })),
+    onMessage: (msg) => {
+      if (typeof msg.topic !== "string" || !msg.topic.startsWith("tickers.")) return false;
+      const price = parseFloat(msg.data?.lastPrice);
+      const symbol: string = msg.data?.symbol ?? msg.topic.slice("tickers.".length);
+      if (!Number.isFinite(price)) return false;
+      onPrice(symbol, price, Number(msg.ts ?? Date.now()));
+      return true;
+    },
+    ping: { intervalMs: BYBIT_PING_MS, payload: JSON.stringify({ op: "ping" }), isPong: (t) => t.includes('"ret_msg":"pong"') },
+  });
+}
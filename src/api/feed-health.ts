@@ -0,0 +1,159 @@
+/**
+ * 行情连接健康监控：各 WebSocket（OKX / Binance / Coinbase / Bybit / Chainlink / CLOB 订单簿 / CLOB user channel）的
+ * 最近一条数据距今多久、消息速率（条/秒，60 秒窗口）与心跳（ping → pong）
+ *
+ * - 连接通过 register 拿到 FeedProbe，收到数据调 message()、收到心跳回应调 pong()
+ * - 静默：超过 silenceMs 没有数据（或心跳无回应）→ 调用 reconnect 强制重连，同一连接至少间隔 silenceMs 才再次重连
+ * - inactive()（如未订阅任何 token 的订单簿连接）为 true 时不检查静默
+ * - sparse（如只在有订单/成交时推送的 user channel）：心跳回应也算活跃，只有数据和心跳都停了才算静默
+ * - 入场拦截（参考价 / 订单簿过期）由 runner 按 MAX_PRICE_AGE_MS / MAX_BOOK_AGE_MS 判断，本模块只管连接
+ */
+
+export interface FeedProbe {
+  /** 收到一条数据消息 */
+  message(ts?: number): void;
+  /** 收到心跳回应（OKX "pong"、CLOB "PONG"、WebSocket pong 帧…） */
+  pong(ts?: number): void;
+}
+
+export interface FeedRegistration {
+  silenceMs: number;
+  reconnect?: () => void;
+  inactive?: () => boolean;
+  /** 数据稀疏的连接：心跳回应也计入活跃 */
+  sparse?: boolean;
+}
+
+export interface FeedHealth {
+  name: string;
+  ageMs: number;     // 最近一条数据距今（未收到为 Infinity）
+  pongAgeMs: number; // 最近一次心跳回应距今（未收到为 Infinity）
+  rate: number;      // 条/秒
+  reconnects: number;
+  silent: boolean;
+}
+
+interface FeedEntry extends FeedRegistration {
+  name: string;
+  registeredAt: number;
+  lastMessage: number;
+  lastPong: number;
+  lastReconnect: number;
+  reconnects: number;
+  windowStart: number;
+  windowCount: number;
+  lastRate: number;
+}
+
+const RATE_WINDOW_MS = 60_000;
+const CHECK_INTERVAL_MS = 5_000;
+
+export class FeedHealthMonitor {
+  private readonly feeds = new Map<string, FeedEntry>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  register(name: string, registration: FeedRegistration): FeedProbe {
+    const now = Date.now();
+    const entry: FeedEntry = {
+      ...registration,
+      name,
+      registeredAt: now,
+      lastMessage: 0,
+      lastPong: 0,
+      lastReconnect: 0,
+      reconnects: 0,
+      windowStart: now,
+      windowCount: 0,
+      lastRate: 0,
+    };
+    this.feeds.set(name, entry);
+    return {
+      message: (ts: number = Date.now()) => {
+        entry.lastMessage = ts;
+        if (ts - entry.windowStart >= RATE_WINDOW_MS) {
+          entry.lastRate = entry.windowCount / ((ts - entry.windowStart) / 1000);
+          entry.windowStart = ts;
+          entry.windowCount = 0;
+        }
+        entry.windowCount++;
+      },
+      pong: (ts: number = Date.now()) => {
+        entry.lastPong = ts;
+      },
+    };
+  }
+
+  /** 最近一条数据距今（未注册 / 未收到为 Infinity） */
+  ageMs(name: string, nowMs: number = Date.now()): number {
+    const e = this.feeds.get(name);
+    return e?.lastMessage ? nowMs - e.lastMessage : Infinity;
+  }
+
+  status(nowMs: number = Date.now()): FeedHealth[] {
+    return [...this.feeds.values()].map((e) => ({
+      name: e.name,
+      ageMs: e.lastMessage ? nowMs - e.lastMessage : Infinity,
+      pongAgeMs: e.lastPong ? nowMs - e.lastPong : Infinity,
+      rate: this.rateOf(e, nowMs),
+      reconnects: e.reconnects,
+      silent: this.isSilent(e, nowMs),
+    }));
+  }
+
+  /** 检查所有连接，静默的强制重连；返回本次重连的连接名 */
+  check(nowMs: number = Date.now()): string[] {
+    const out: string[] = [];
+    for (const e of this.feeds.values()) {
+      if (!e.reconnect || !this.isSilent(e, nowMs) || nowMs - e.lastReconnect < e.silenceMs) continue;
+      const last = Math.max(e.lastMessage, e.sparse ? e.lastPong : 0);
+      const age = last ? `${Math.round((nowMs - last) / 1000)}s 无数据${e.sparse ? "/心跳" : ""}` : "未收到数据";
+      console.warn(`[Health] ${e.name} ${age}，强制重连`);
+      e.lastReconnect = nowMs;
+      e.reconnects++;
+      try {
+        e.reconnect();
+      } catch (err) {
+        console.error(`[Health] ${e.name} reconnect err:`, err instanceof Error ? err.message : err);
+      }
+      out.push(e.name);
+    }
+    return out;
+  }
+
+  /** 定时 check（重复调用无副作用） */
+  start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.check(), intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** 日志用：每个连接的数据年龄、速率、心跳与重连次数 */
+  getSummary(nowMs: number = Date.now()): string {
+    return this.status(nowMs).map((h) => {
+      const age = Number.isFinite(h.ageMs) ? `${(h.ageMs / 1000).toFixed(1)}s` : "—";
+      const pong = Number.isFinite(h.pongAgeMs) ? ` pong ${Math.round(h.pongAgeMs / 1000)}s` : "";
+      const reconnects = h.reconnects > 0 ? ` 重连${h.reconnects}` : "";
+      return `${h.name} ${age} ${h.rate.toFixed(1)}/s${pong}${reconnects}${h.silent ? " ⚠" : ""}`;
+    }).join(" | ");
+  }
+
+  private rateOf(e: FeedEntry, nowMs: number): number {
+    const elapsed = nowMs - e.windowStart;
+    // 当前窗口太短时用上一个完整窗口的速率
+    if (elapsed < RATE_WINDOW_MS / 2 && e.lastRate > 0) return e.lastRate;
+    return elapsed > 0 ? e.windowCount / (elapsed / 1000) : 0;
+  }
+
+  private isSilent(e: FeedEntry, nowMs: number): boolean {
+    if (e.inactive?.()) return false;
+    const since = Math.max(e.lastMessage, e.sparse ? e.lastPong : 0, e.lastReconnect, e.registeredAt);
+    if (nowMs - since > e.silenceMs) return true;
+    // 发过心跳却长时间没有回应（连接可能已半开）
+    return e.lastPong > 0 && nowMs - Math.max(e.lastPong, e.lastReconnect) > e.silenceMs * 2;
+  }
+}
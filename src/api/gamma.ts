@@ -1,9 +1,9 @@
 /**
- * Gamma API：获取市场/事件列表，用于筛选 BTC 15min 市场
+ * Gamma API：获取市场/事件列表，用于筛选加密货币 Up/Down 市场（BTC / ETH / SOL / XRP）
  *
- * 核心思路：BTC 15min 市场的 slug 格式为 btc-updown-15m-{START_TIMESTAMP}
- * 其中 START_TIMESTAMP 是 15 分钟窗口开始的 Unix 秒数。
- * endDate = start + 900s (15 分钟)。
+ * 核心思路：5m / 15m 市场的 slug 格式为 {asset}-updown-{5m|15m}-{START_TIMESTAMP}，
+ * 其中 START_TIMESTAMP 是窗口开始的 Unix 秒数，endDate = start + 窗口长度；
+ * 1h 市场按美东时间命名：{bitcoin|ethereum|solana|xrp}-up-or-down-{month}-{day}-{hour}{am|pm}-et。
  * 通过当前时间计算当前和即将到来的 slot，直接按 slug 精确查询。
  */
 
@@ -32,6 +32,7 @@ export interface GammaMarket {
   groupItemTitle?: string;
   clobTokenIds?: string;
   outcomes?: string;
+  outcomePrices?: string;
   [key: string]: unknown;
 }
 
@@ -81,30 +82,183 @@ export async function getEventBySlug(slug: string): Promise<GammaEvent | null> {
 }
 
 /**
- * 计算当前和未来 N 个 15 分钟 slot 的 start timestamp
- * slot 对齐到 900 秒（15 分钟）边界
+ * 按 slug 获取单个市场（含已关闭市场）
  */
-function generate15mSlots(nowSec: number, count: number): number[] {
-  const currentSlotStart = Math.floor(nowSec / 900) * 900;
-  const slots: number[] = [];
-  for (let i = 0; i < count; i++) {
-    slots.push(currentSlotStart + i * 900);
+export async function getMarketBySlug(slug: string): Promise<GammaMarket | null> {
+  try {
+    const res = await fetch(`${GAMMA_BASE}/markets?slug=${encodeURIComponent(slug)}`);
+    if (!res.ok) return null;
+    const arr = (await res.json()) as Record<string, unknown>[];
+    if (!Array.isArray(arr) || arr.length === 0) return null;
+    return normalizeMarket(arr[0]);
+  } catch {
+    return null;
   }
-  return slots;
 }
 
-/** 5 分钟 slot：对齐到 300 秒边界 */
-function generate5mSlots(nowSec: number, count: number): number[] {
-  const currentSlotStart = Math.floor(nowSec / 300) * 300;
-  const slots: number[] = [];
-  for (let i = 0; i < count; i++) {
-    slots.push(currentSlotStart + i * 300);
+export interface MarketResolution {
+  winningTokenId: string;
+  winningOutcome: string;
+}
+
+/**
+ * 查询市场结算结果：outcomePrices 中价格为 1 的一方即赢方。
+ * 尚未结算（或查询失败）返回 null。
+ */
+export async function getMarketResolution(slug: string): Promise<MarketResolution | null> {
+  const market = await getMarketBySlug(slug);
+  return market ? resolutionOf(market) : null;
+}
+
+/** 从已取得的市场数据判断结算结果（未结算返回 null） */
+export function resolutionOf(market: GammaMarket): MarketResolution | null {
+  if (typeof market.outcomePrices !== "string") return null;
+  let prices: string[] = [];
+  try {
+    prices = JSON.parse(market.outcomePrices);
+  } catch {
+    return null;
+  }
+  const winnerIndex = prices.findIndex((p) => parseFloat(p) >= 0.999);
+  if (winnerIndex < 0) return null;
+  const token = market.tokens[winnerIndex];
+  if (!token) return null;
+  return { winningTokenId: token.token_id, winningOutcome: token.outcome };
+}
+
+/** Up/Down 市场的标的 */
+export type UpDownAsset = "btc" | "eth" | "sol" | "xrp";
+
+/** 窗口长度 */
+export type UpDownInterval = "5m" | "15m" | "1h";
+
+/** 一组同标的、同窗口长度的滚动市场 */
+export interface UpDownSeries {
+  asset: UpDownAsset;
+  interval: UpDownInterval;
+}
+
+/** 标的 → 1h 市场 slug 里的名称 */
+export const UPDOWN_ASSETS: Record<UpDownAsset, string> = {
+  btc: "bitcoin",
+  eth: "ethereum",
+  sol: "solana",
+  xrp: "xrp",
+};
+
+export const INTERVAL_SECONDS: Record<UpDownInterval, number> = {
+  "5m": 300,
+  "15m": 900,
+  "1h": 3600,
+};
+
+export function isUpDownAsset(value: string): value is UpDownAsset {
+  return Object.prototype.hasOwnProperty.call(UPDOWN_ASSETS, value);
+}
+
+export function isUpDownInterval(value: string): value is UpDownInterval {
+  return Object.prototype.hasOwnProperty.call(INTERVAL_SECONDS, value);
+}
+
+/** 标的 × 窗口的全部组合（去重，保持配置顺序） */
+export function upDownSeries(assets: UpDownAsset[], intervals: UpDownInterval[]): UpDownSeries[] {
+  const out: UpDownSeries[] = [];
+  for (const asset of assets) {
+    for (const interval of intervals) {
+      if (!out.some((s) => s.asset === asset && s.interval === interval)) out.push({ asset, interval });
+    }
   }
-  return slots;
+  return out;
 }
 
-const FIVE_MIN_SEC = 300;
+export function seriesLabel(series: UpDownSeries): string {
+  return `${series.asset.toUpperCase()} ${series.interval}`;
+}
+
+const ET_SLOT_FORMAT = new Intl.DateTimeFormat("en-US", {
+  timeZone: "America/New_York",
+  month: "long",
+  day: "numeric",
+  hour: "numeric",
+  hour12: true,
+});
+
+/** 窗口开始时间（Unix 秒）对应的市场 slug */
+export function upDownSlug(series: UpDownSeries, slotStartSec: number): string {
+  if (series.interval !== "1h") return `${series.asset}-updown-${series.interval}-${slotStartSec}`;
+  // 美东整点与 UTC 整点对齐（时差为整小时），slot 仍按 3600 秒对齐
+  const parts = ET_SLOT_FORMAT.formatToParts(new Date(slotStartSec * 1000));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${UPDOWN_ASSETS[series.asset]}-up-or-down-${part("month").toLowerCase()}-${part("day")}-${part("hour")}${part("dayPeriod").toLowerCase()}-et`;
+}
+
+/** 从 slug 解析标的与窗口；1h 市场的 slug 不含时间戳（slotStartSec 缺省，按 endDate − 1h 推算） */
+export function parseUpDownSlug(slug: string): (UpDownSeries & { slotStartSec?: number }) | null {
+  const slot = slug.match(/^([a-z]+)-updown-(5m|15m)-(\d{9,})$/);
+  if (slot && isUpDownAsset(slot[1])) {
+    return { asset: slot[1], interval: slot[2] as UpDownInterval, slotStartSec: parseInt(slot[3], 10) };
+  }
+  const hourly = slug.match(/^([a-z]+)-up-or-down-[a-z]+-\d{1,2}-\d{1,2}(?:am|pm)-et$/);
+  if (hourly) {
+    const asset = (Object.keys(UPDOWN_ASSETS) as UpDownAsset[]).find((a) => UPDOWN_ASSETS[a] === hourly[1]);
+    if (asset) return { asset, interval: "1h" };
+  }
+  return null;
+}
 
+/** 窗口开始时间（毫秒）：5m / 15m 取 slug 时间戳，1h 等按 endDate − 窗口长度（无法推算返回 0） */
+export function slotStartMsOf(market: Pick<GammaMarket, "slug" | "endDate">): number {
+  const parsed = parseUpDownSlug(market.slug || "");
+  if (parsed?.slotStartSec) return parsed.slotStartSec * 1000;
+  const endMs = market.endDate ? new Date(market.endDate).getTime() : 0;
+  if (!endMs) return 0;
+  return endMs - (parsed ? INTERVAL_SECONDS[parsed.interval] : 900) * 1000;
+}
+
+/** 市场所属标的（slug 无法识别时按 BTC） */
+export function assetOfMarket(market: Pick<GammaMarket, "slug">): UpDownAsset {
+  return parseUpDownSlug(market.slug || "")?.asset ?? "btc";
+}
+
+/**
+ * 最近若干个已开始的 slot 的市场（含已关闭/已结算），用于启动对账找回遗留代币
+ * 当前 slot 在最后；按 concurrency 分批查询，避免一次性打太多请求
+ */
+export async function getRecentUpDownMarkets(
+  series: UpDownSeries,
+  lookbackSlots: number,
+  concurrency: number = 8
+): Promise<GammaMarket[]> {
+  const slotSec = INTERVAL_SECONDS[series.interval];
+  const currentSlotStart = Math.floor(Date.now() / 1000 / slotSec) * slotSec;
+  const slugs: string[] = [];
+  for (let i = lookbackSlots; i >= 0; i--) {
+    slugs.push(upDownSlug(series, currentSlotStart - i * slotSec));
+  }
+
+  const markets: GammaMarket[] = [];
+  for (let i = 0; i < slugs.length; i += concurrency) {
+    const events = await Promise.all(slugs.slice(i, i + concurrency).map((slug) => getEventBySlug(slug)));
+    for (const event of events) {
+      for (const m of event?.markets ?? []) {
+        const market = normalizeMarket(m as Record<string, unknown>);
+        if (market.tokens.length >= 2) markets.push(market);
+      }
+    }
+  }
+  return markets;
+}
+
+/** BTC 版本（兼容旧调用） */
+export async function getRecentBtcMarkets(
+  mode: "15m" | "5m",
+  lookbackSlots: number,
+  concurrency: number = 8
+): Promise<GammaMarket[]> {
+  return getRecentUpDownMarkets({ asset: "btc", interval: mode }, lookbackSlots, concurrency);
+}
+
+/** 市场刷新结果（名称沿用 BTC 15min，各标的 / 窗口通用） */
 export interface Btc15mResult {
   allMarkets: GammaMarket[];
   inWindow: GammaMarket[];
@@ -112,26 +266,31 @@ export interface Btc15mResult {
   nextStartsInSec: number;
 }
 
+function byEndDate(a: GammaMarket, b: GammaMarket): number {
+  const ea = a.endDate ? new Date(a.endDate).getTime() : 0;
+  const eb = b.endDate ? new Date(b.endDate).getTime() : 0;
+  return ea - eb;
+}
+
 /**
- * 获取 BTC 15min 市场。
- * 策略：根据当前时间计算 slug，直接精确查询当前 + 未来 N 个 slot。
+ * 获取一组 Up/Down 市场。
+ * 策略：根据当前时间计算 slug，直接精确查询当前 + 未来 8 个 slot；
  * 同时查前一个 slot（可能还有几秒没结算）。
  */
-export async function getBtc15MinMarkets(
-  _tagId?: string,
-  _slug?: string
-): Promise<Btc15mResult> {
+export async function getUpDownMarkets(series: UpDownSeries): Promise<Btc15mResult> {
   const nowSec = Date.now() / 1000;
+  const slotSec = INTERVAL_SECONDS[series.interval];
 
   // 生成 slot：前 1 个 + 当前 + 未来 8 个 = 10 个
-  const currentSlotStart = Math.floor(nowSec / 900) * 900;
-  const prevSlot = currentSlotStart - 900;
-  const slots = [prevSlot, ...generate15mSlots(nowSec, 9)];
+  const currentSlotStart = Math.floor(nowSec / slotSec) * slotSec;
+  const slots: number[] = [];
+  for (let i = -1; i < 9; i++) {
+    slots.push(currentSlotStart + i * slotSec);
+  }
 
   // 并发查询所有 slot
-  const slugs = slots.map((ts) => `btc-updown-15m-${ts}`);
   const results = await Promise.allSettled(
-    slugs.map((slug) => getEventBySlug(slug))
+    slots.map((ts) => getEventBySlug(upDownSlug(series, ts)))
   );
 
   const allMarkets: GammaMarket[] = [];
@@ -153,7 +312,7 @@ export async function getBtc15MinMarkets(
       allMarkets.push(market);
 
       const slotStart = slots[i];
-      const slotEnd = slotStart + 900;
+      const slotEnd = slotStart + slotSec;
 
       if (nowSec >= slotStart && nowSec < slotEnd) {
         inWindow.push(market);
@@ -165,77 +324,55 @@ export async function getBtc15MinMarkets(
   }
 
   // 排序 upcoming 按时间先后
-  upcoming.sort((a, b) => {
-    const ea = a.endDate ? new Date(a.endDate).getTime() : 0;
-    const eb = b.endDate ? new Date(b.endDate).getTime() : 0;
-    return ea - eb;
-  });
+  upcoming.sort(byEndDate);
 
   let nextStartsInSec = -1;
   if (upcoming.length > 0) {
-    // 下一个 upcoming 的 start = endDate - 900
+    // 下一个 upcoming 的 start = endDate - 窗口长度
     const nextEnd = upcoming[0].endDate ? new Date(upcoming[0].endDate).getTime() / 1000 : 0;
-    const nextStart = nextEnd - 900;
-    nextStartsInSec = Math.max(0, nextStart - nowSec);
+    nextStartsInSec = Math.max(0, nextEnd - slotSec - nowSec);
   }
 
   return { allMarkets, inWindow, upcoming, nextStartsInSec };
 }
 
+/** 合并多组市场的刷新结果（多标的 / 多窗口同时交易） */
+export function mergeMarketResults(results: Btc15mResult[]): Btc15mResult {
+  const upcoming = results.flatMap((r) => r.upcoming).sort(byEndDate);
+  const next = results.map((r) => r.nextStartsInSec).filter((s) => s >= 0);
+  return {
+    allMarkets: results.flatMap((r) => r.allMarkets),
+    inWindow: results.flatMap((r) => r.inWindow),
+    upcoming,
+    nextStartsInSec: next.length > 0 ? Math.min(...next) : -1,
+  };
+}
+
+/** 并发刷新多组市场；单组失败不影响其他组 */
+export async function getUpDownMarketsFor(seriesList: UpDownSeries[]): Promise<Btc15mResult> {
+  const results = await Promise.all(seriesList.map((series) =>
+    getUpDownMarkets(series).catch((e) => {
+      console.error(`[Gamma] ${seriesLabel(series)} 市场刷新失败:`, e instanceof Error ? e.message : e);
+      return null;
+    })
+  ));
+  return mergeMarketResults(results.filter((r): r is Btc15mResult => r !== null));
+}
+
+/**
+ * 获取 BTC 15min 市场（兼容旧调用）。
+ */
+export async function getBtc15MinMarkets(
+  _tagId?: string,
+  _slug?: string
+): Promise<Btc15mResult> {
+  return getUpDownMarkets({ asset: "btc", interval: "15m" });
+}
+
 /**
  * 获取 BTC 5min 市场。
  * slug 格式：btc-updown-5m-{START_TIMESTAMP}，窗口 300 秒。
  */
 export async function getBtc5MinMarkets(): Promise<Btc15mResult> {
-  const nowSec = Date.now() / 1000;
-  const currentSlotStart = Math.floor(nowSec / FIVE_MIN_SEC) * FIVE_MIN_SEC;
-  const prevSlot = currentSlotStart - FIVE_MIN_SEC;
-  const slots = [prevSlot, ...generate5mSlots(nowSec, 9)];
-  const slugs = slots.map((ts) => `btc-updown-5m-${ts}`);
-
-  const results = await Promise.allSettled(
-    slugs.map((slug) => getEventBySlug(slug))
-  );
-
-  const allMarkets: GammaMarket[] = [];
-  const inWindow: GammaMarket[] = [];
-  const upcoming: GammaMarket[] = [];
-
-  for (let i = 0; i < results.length; i++) {
-    const r = results[i];
-    if (r.status !== "fulfilled" || !r.value) continue;
-    const event = r.value;
-    if (event.closed) continue;
-    if (!event.markets?.length) continue;
-
-    for (const m of event.markets) {
-      if ((m as GammaMarket).closed) continue;
-      const market = normalizeMarket(m as Record<string, unknown>);
-      if (market.tokens.length < 2) continue;
-
-      allMarkets.push(market);
-      const slotStart = slots[i];
-      const slotEnd = slotStart + FIVE_MIN_SEC;
-
-      if (nowSec >= slotStart && nowSec < slotEnd) {
-        inWindow.push(market);
-      } else if (nowSec < slotStart) {
-        upcoming.push(market);
-      }
-    }
-  }
-
-  upcoming.sort((a, b) => {
-    const ea = a.endDate ? new Date(a.endDate).getTime() : 0;
-    const eb = b.endDate ? new Date(b.endDate).getTime() : 0;
-    return ea - eb;
-  });
-
-  let nextStartsInSec = -1;
-  if (upcoming.length > 0) {
-    const nextEnd = upcoming[0].endDate ? new Date(upcoming[0].endDate).getTime() / 1000 : 0;
-    nextStartsInSec = Math.max(0, nextEnd - FIVE_MIN_SEC - nowSec);
-  }
-
-  return { allMarkets, inWindow, upcoming, nextStartsInSec };
+  return getUpDownMarkets({ asset: "btc", interval: "5m" });
 }
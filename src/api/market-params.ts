@@ -0,0 +1,187 @@
+/**
+ * 市场交易参数：tick size、neg-risk、最小下单量（按 token 缓存）
+ *
+ * - 来源：CLOB REST（/tick-size、/neg-risk、/book 的 min_order_size）+ 订单簿推送里附带的 tick_size / neg_risk / min_order_size
+ * - 价格接近两端（> 0.96 或 < 0.04）时交易所会把 tick 从 0.01 调到 0.001（回到中间再调回），
+ *   此时按 EXTREME_REFRESH_MS 节流重新拉取 tick size；其余情况缓存 PARAMS_TTL_MS
+ * - snapOrder：下单前把价格/数量对齐到合法网格（价格按 tick、数量 2 位小数、不低于最小下单量）
+ */
+
+import { CLOB_HOST } from "../config/index.js";
+import type { OrderBookSummary } from "./clob.js";
+
+export interface MarketParams {
+  tickSize: string;     // "0.1" | "0.01" | "0.001" | "0.0001"
+  negRisk: boolean;
+  minOrderSize: number; // 最小下单张数
+  feeRateBps?: number;  // taker 基础费率（CLOB /fee-rate），未取到为 undefined
+}
+
+/** 查询失败或尚未解析时的缺省值（15 分钟 BTC 市场的常见参数） */
+export const DEFAULT_MARKET_PARAMS: MarketParams = { tickSize: "0.01", negRisk: false, minOrderSize: 5 };
+
+const PARAMS_TTL_MS = 600_000;
+const EXTREME_REFRESH_MS = 30_000;
+const EXTREME_HIGH = 0.96;
+const EXTREME_LOW = 0.04;
+const VALID_TICKS = ["0.1", "0.01", "0.001", "0.0001"];
+
+/** 数值 tick 转为 clob-client 接受的字符串（不在合法集合内返回 null） */
+export function normalizeTickSize(tick: number | string | undefined): string | null {
+  const n = typeof tick === "string" ? parseFloat(tick) : tick;
+  if (n === undefined || !Number.isFinite(n) || n <= 0) return null;
+  return VALID_TICKS.find((t) => Math.abs(parseFloat(t) - n) < 1e-12) ?? null;
+}
+
+/** 订单簿附带的参数字段（REST /book 与 WebSocket 快照都可能带） */
+export function paramsFromBook(book: OrderBookSummary | null | undefined): Partial<MarketParams> {
+  if (!book) return {};
+  const out: Partial<MarketParams> = {};
+  const tick = normalizeTickSize(book.tick_size);
+  if (tick) out.tickSize = tick;
+  if (typeof book.neg_risk === "boolean") out.negRisk = book.neg_risk;
+  const min = parseFloat(book.min_order_size ?? "");
+  if (Number.isFinite(min) && min > 0) out.minOrderSize = min;
+  return out;
+}
+
+async function fetchJson<T>(path: string): Promise<T | null> {
+  const res = await fetch(`${CLOB_HOST}${path}`);
+  if (!res.ok) return null;
+  return (await res.json()) as T;
+}
+
+/** 从 CLOB 拉取单个 token 的参数；tick / negRisk 失败时返回 null（费率取不到不影响） */
+export async function fetchMarketParams(tokenId: string): Promise<MarketParams | null> {
+  const q = `token_id=${encodeURIComponent(tokenId)}`;
+  const [tick, neg, book, fee] = await Promise.all([
+    fetchJson<{ minimum_tick_size: number | string }>(`/tick-size?${q}`),
+    fetchJson<{ neg_risk: boolean }>(`/neg-risk?${q}`),
+    fetchJson<OrderBookSummary>(`/book?${q}`),
+    fetchJson<{ base_fee: number | string }>(`/fee-rate?${q}`).catch(() => null),
+  ]);
+  const tickSize = normalizeTickSize(tick?.minimum_tick_size);
+  if (!tickSize || typeof neg?.neg_risk !== "boolean") return null;
+  return {
+    tickSize,
+    negRisk: neg.neg_risk,
+    minOrderSize: paramsFromBook(book).minOrderSize ?? DEFAULT_MARKET_PARAMS.minOrderSize,
+    feeRateBps: fee && Number.isFinite(Number(fee.base_fee)) ? Number(fee.base_fee) : undefined,
+  };
+}
+
+export interface MarketParamsService {
+  /** 已缓存的参数（未解析返回 null） */
+  get(tokenId: string): MarketParams | null;
+  /** 解析未缓存 / 已过期 / 待刷新的 token（并发拉取，失败保留旧值） */
+  resolve(tokenIds: string[]): Promise<void>;
+  /** 用订单簿推送更新参数；价格进入/离开两端区间时标记刷新 tick size */
+  observeBook(book: OrderBookSummary): void;
+}
+
+interface CachedParams {
+  params: MarketParams;
+  fetchedAt: number;
+  refreshAfter: number; // 到此时刻需要重新拉取（0 = 按 TTL）
+}
+
+export function createMarketParamsService(): MarketParamsService {
+  const cache = new Map<string, CachedParams>();
+  const inflight = new Map<string, Promise<void>>();
+  const retryAt = new Map<string, number>(); // 从未成功解析的 token：失败后的重试时间
+
+  function needsFetch(tokenId: string, nowMs: number): boolean {
+    const c = cache.get(tokenId);
+    if (!c) return nowMs >= (retryAt.get(tokenId) ?? 0);
+    if (c.refreshAfter && nowMs >= c.refreshAfter) return true;
+    return nowMs - c.fetchedAt >= PARAMS_TTL_MS;
+  }
+
+  async function load(tokenId: string): Promise<void> {
+    try {
+      const params = await fetchMarketParams(tokenId);
+      const old = cache.get(tokenId);
+      if (!params) {
+        // 拉取失败：保留旧值，稍后重试
+        if (old) old.refreshAfter = Date.now() + EXTREME_REFRESH_MS;
+        else retryAt.set(tokenId, Date.now() + EXTREME_REFRESH_MS);
+        return;
+      }
+      retryAt.delete(tokenId);
+      if (old && old.params.tickSize !== params.tickSize) {
+        console.log(`[Params] ${tokenId.slice(0, 10)}… tick ${old.params.tickSize} → ${params.tickSize}`);
+      }
+      cache.set(tokenId, { params, fetchedAt: Date.now(), refreshAfter: 0 });
+    } catch (e) {
+      console.error("[Params] fetch err:", e instanceof Error ? e.message : e);
+      const old = cache.get(tokenId);
+      if (old) old.refreshAfter = Date.now() + EXTREME_REFRESH_MS;
+      else retryAt.set(tokenId, Date.now() + EXTREME_REFRESH_MS);
+    }
+  }
+
+  return {
+    get(tokenId: string): MarketParams | null {
+      return cache.get(tokenId)?.params ?? null;
+    },
+
+    async resolve(tokenIds: string[]): Promise<void> {
+      const nowMs = Date.now();
+      const jobs = [...new Set(tokenIds)].filter((id) => needsFetch(id, nowMs)).map((id) => {
+        let job = inflight.get(id);
+        if (!job) {
+          job = load(id).finally(() => inflight.delete(id));
+          inflight.set(id, job);
+        }
+        return job;
+      });
+      await Promise.all(jobs);
+    },
+
+    observeBook(book: OrderBookSummary): void {
+      const c = cache.get(book.asset_id);
+      if (!c) return;
+      const fromBook = paramsFromBook(book);
+      if (fromBook.tickSize && fromBook.tickSize !== c.params.tickSize) {
+        console.log(`[Params] ${book.asset_id.slice(0, 10)}… tick ${c.params.tickSize} → ${fromBook.tickSize}（订单簿推送）`);
+      }
+      c.params = { ...c.params, ...fromBook };
+
+      // 价格在两端时 tick 可能已变：节流重新拉取
+      const bid = parseFloat(book.bids?.[0]?.price ?? "");
+      const ask = parseFloat(book.asks?.[0]?.price ?? "");
+      const extreme = [bid, ask].some((p) => Number.isFinite(p) && (p > EXTREME_HIGH || p < EXTREME_LOW));
+      const fineTick = parseFloat(c.params.tickSize) < 0.01;
+      if (extreme !== fineTick && !c.refreshAfter) {
+        c.refreshAfter = Math.max(Date.now(), c.fetchedAt + EXTREME_REFRESH_MS);
+      }
+    },
+  };
+}
+
+function decimals(tick: string): number {
+  return tick.split(".")[1]?.length ?? 0;
+}
+
+/**
+ * 把下单价格/数量对齐到合法网格：
+ * BUY 价格向下取整、SELL 向上取整到 tick（不比信号价更差），并限制在 [tick, 1 - tick]；
+ * 数量向下取 2 位小数，低于最小下单量返回 error
+ */
+export function snapOrder(
+  price: number,
+  size: number,
+  side: "BUY" | "SELL",
+  params: MarketParams
+): { price: number; size: number; error?: string } {
+  const tick = parseFloat(params.tickSize);
+  const dp = decimals(params.tickSize);
+  const steps = price / tick;
+  const rounded = side === "BUY" ? Math.floor(steps + 1e-9) : Math.ceil(steps - 1e-9);
+  const snappedPrice = Number(Math.min(1 - tick, Math.max(tick, rounded * tick)).toFixed(dp));
+  const snappedSize = Math.floor(size * 100 + 1e-9) / 100;
+  if (snappedSize < params.minOrderSize - 1e-9) {
+    return { price: snappedPrice, size: snappedSize, error: `size ${snappedSize} below min_order_size ${params.minOrderSize}` };
+  }
+  return { price: snappedPrice, size: snappedSize };
+}
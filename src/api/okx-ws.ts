@@ -1,79 +1,69 @@
 /**
- * OKX BTC 价格源：WebSocket + HTTP 备用
+ * OKX 现货价格源：WebSocket + HTTP 备用
+ *
+ * 一条连接订阅多个标的（BTC-USDT、ETH-USDT…），按 instId 回调
  */
 
-import WebSocket from "ws";
+import { connectReconnectingWs } from "./exchange-ws.js";
+import type { SpotConnection } from "./exchange-ws.js";
+import type { FeedProbe } from "./feed-health.js";
 
 const OKX_WS_PUBLIC = "wss://ws.okx.com:8443/ws/v5/public";
-const OKX_REST_TICKER = "https://www.okx.com/api/v5/market/ticker?instId=BTC-USDT";
+const OKX_REST_TICKER = "https://www.okx.com/api/v5/market/ticker?instId=";
+const OKX_PING_MS = 20_000;
 
 export type BtcPriceHandler = (price: number, ts: number) => void;
+export type SpotPriceHandler = (instId: string, price: number, ts: number) => void;
+
+/** 标的（btc / eth / …）对应的 OKX 现货交易对 */
+export function okxInstId(asset: string): string {
+  return `${asset.toUpperCase()}-USDT`;
+}
 
 /**
- * 通过 OKX WebSocket 订阅 BTC-USDT 实时价
- * 加了 open/error/close 日志和自动重连
+ * 通过 OKX WebSocket 订阅多个现货交易对的实时价
+ * 自动重连（见 exchange-ws.ts），每 20 秒发 "ping"，服务端回 "pong"（30 秒无消息会被 OKX 断开）
  */
-export function connectOkxBtcSpot(onPrice: BtcPriceHandler): WebSocket {
-  let ws: WebSocket;
-  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-
-  function connect(): WebSocket {
-    const socket = new WebSocket(OKX_WS_PUBLIC);
-
-    socket.on("open", () => {
-      console.log("[OKX-WS] Connected. Subscribing to BTC-USDT ticker...");
+export function connectOkxSpot(instIds: string[], onPrice: SpotPriceHandler, probe?: FeedProbe): SpotConnection {
+  return connectReconnectingWs({
+    name: "OKX",
+    url: OKX_WS_PUBLIC,
+    probe,
+    onOpen: (socket) => {
+      console.log(`[OKX-WS] Subscribing to ${instIds.join(", ")} ticker...`);
       socket.send(
         JSON.stringify({
           op: "subscribe",
-          args: [{ channel: "tickers", instId: "BTC-USDT" }],
+          args: instIds.map((instId) => ({ channel: "tickers", instId })),
         })
       );
-    });
-
-    socket.on("message", (data: Buffer) => {
-      try {
-        const msg = JSON.parse(data.toString());
-        if (msg.arg?.channel === "tickers" && msg.data?.[0]) {
-          const last = parseFloat(msg.data[0].last);
-          const ts = parseInt(msg.data[0].ts ?? String(Date.now()), 10);
-          if (Number.isFinite(last)) onPrice(last, ts);
-        }
-      } catch {
-        // ignore
-      }
-    });
-
-    socket.on("error", (err: Error) => {
-      console.error("[OKX-WS] Error:", err.message);
-    });
-
-    socket.on("close", (code: number, reason: Buffer) => {
-      console.warn("[OKX-WS] Closed. code=", code, "reason=", reason.toString().slice(0, 80));
-      scheduleReconnect();
-    });
-
-    return socket;
-  }
-
-  function scheduleReconnect(): void {
-    if (reconnectTimer) return;
-    reconnectTimer = setTimeout(() => {
-      reconnectTimer = null;
-      console.log("[OKX-WS] Reconnecting...");
-      ws = connect();
-    }, 5000);
-  }
+    },
+    onMessage: (msg) => {
+      if (msg.arg?.channel !== "tickers" || !msg.data?.[0]) return false;
+      const last = parseFloat(msg.data[0].last);
+      const ts = parseInt(msg.data[0].ts ?? String(Date.now()), 10);
+      const instId: string = msg.data[0].instId ?? msg.arg.instId;
+      if (!Number.isFinite(last) || !instId) return false;
+      onPrice(instId, last, ts);
+      return true;
+    },
+    ping: { intervalMs: OKX_PING_MS, payload: "ping", isPong: (t) => t === "pong" },
+  });
+}
 
-  ws = connect();
-  return ws;
+/**
+ * 只订阅 BTC-USDT（兼容旧调用）
+ */
+export function connectOkxBtcSpot(onPrice: BtcPriceHandler): SpotConnection {
+  return connectOkxSpot(["BTC-USDT"], (_instId, price, ts) => onPrice(price, ts));
 }
 
 /**
- * HTTP 备用：轮询 OKX REST 拿 BTC 价格（每 N 秒调一次）
+ * HTTP 备用：轮询 OKX REST 拿现货价格（每 N 秒调一次）
  */
-export async function fetchBtcPriceHttp(): Promise<number | null> {
+export async function fetchSpotPriceHttp(instId: string): Promise<number | null> {
   try {
-    const res = await fetch(OKX_REST_TICKER);
+    const res = await fetch(OKX_REST_TICKER + encodeURIComponent(instId));
     if (!res.ok) return null;
     const json = (await res.json()) as { data?: Array<{ last?: string }> };
     const last = parseFloat(json.data?.[0]?.last ?? "");
@@ -83,10 +73,10 @@ export async function fetchBtcPriceHttp(): Promise<number | null> {
   }
 }
 
-export function closeOkxWs(ws: WebSocket): void {
-  try {
-    ws.close();
-  } catch {
-    // ignore
-  }
+export async function fetchBtcPriceHttp(): Promise<number | null> {
+  return fetchSpotPriceHttp("BTC-USDT");
+}
+
+export function closeOkxWs(conn: SpotConnection): void {
+  conn.close();
 }
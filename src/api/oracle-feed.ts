@@ -0,0 +1,73 @@
+/**
+ * 结算源价格：Up/Down 市场按 resolutionSource 指定的价格结算，而策略用的是交易所现货聚合价，两者的基差在起点附近可能翻转结果
+ *
+ * - chainlink：Polymarket RTDS（wss://ws-live-data.polymarket.com）的 crypto_prices_chainlink 主题，
+ *   即 5m / 15m 市场结算所用的 Chainlink Data Streams {asset}/usd 价格
+ * - binance：1h 市场按 Binance 现货结算，直接用聚合价格源里的 Binance 行情（见 price-feed.ts 的 onVenuePrice）
+ * - local：测试用替身，不连网络，由调用方 push 价格（如 聚合价 × (1 + ORACLE_LOCAL_OFFSET_PCT) 模拟固定基差）
+ *
+ * 基差与结算源起点价在 strategies/asset-prices.ts 里按来源维护
+ */
+
+import type { GammaMarket } from "./gamma.js";
+import { connectReconnectingWs } from "./exchange-ws.js";
+import type { FeedProbe } from "./feed-health.js";
+import { resolutionSourceOf } from "./start-price.js";
+
+const RTDS_WS = "wss://ws-live-data.polymarket.com";
+const RTDS_TOPIC = "crypto_prices_chainlink";
+const RTDS_PING_MS = 5_000;
+
+export type OracleSource = "chainlink" | "binance";
+export type OraclePriceHandler = (asset: string, price: number, ts: number) => void;
+
+export interface OracleFeed {
+  readonly name: string;
+  reconnect(): void;
+  close(): void;
+}
+
+export interface LocalOracleFeed extends OracleFeed {
+  /** 替身价格（立即回调） */
+  push(asset: string, price: number, ts?: number): void;
+}
+
+/** 市场对应的结算源；无法识别的按 Chainlink（5m / 15m 市场的默认结算源） */
+export function oracleSourceOf(market: Pick<GammaMarket, "slug" | "resolutionSource">): OracleSource {
+  return resolutionSourceOf(market).kind === "binance" ? "binance" : "chainlink";
+}
+
+/** 订阅 RTDS 的 Chainlink 价格（btc/usd、eth/usd …），按标的回调 */
+export function connectChainlinkOracle(assets: string[], onPrice: OraclePriceHandler, probe?: FeedProbe): OracleFeed {
+  const bySymbol = new Map(assets.map((a) => [`${a.toLowerCase()}/usd`, a]));
+  const conn = connectReconnectingWs({
+    name: "Chainlink",
+    url: RTDS_WS,
+    probe,
+    onOpen: (ws) => ws.send(JSON.stringify({
+      action: "subscribe",
+      subscriptions: [{ topic: RTDS_TOPIC, type: "*", filters: "" }],
+    })),
+    onMessage: (msg) => {
+      if (msg.topic !== RTDS_TOPIC || !msg.payload) return false;
+      const asset = bySymbol.get(String(msg.payload.symbol ?? "").toLowerCase());
+      const price = Number(msg.payload.value);
+      if (!asset || !Number.isFinite(price) || price <= 0) return false;
+      onPrice(asset, price, Number(msg.payload.timestamp ?? msg.timestamp ?? Date.now()));
+      return true;
+    },
+    ping: { intervalMs: RTDS_PING_MS, payload: "PING", isPong: (t) => t.toUpperCase() === "PONG" },
+  });
+  return { name: "chainlink", reconnect: () => conn.reconnect(), close: () => conn.close() };
+}
+
+export function createLocalOracleFeed(onPrice: OraclePriceHandler): LocalOracleFeed {
+  return {
+    name: "local",
+    push(asset: string, price: number, ts: number = Date.now()): void {
+      if (price > 0) onPrice(asset, price, ts);
+    },
+    reconnect(): void {},
+    close(): void {},
+  };
+}
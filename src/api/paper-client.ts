@@ -0,0 +1,340 @@
+/**
+ * 模拟盘客户端（Paper Trading）：实现 PolymarketClient 接口，不动真钱
+ *
+ * - createAndPostOrder：拉取实时订单簿（getOrderBooks），按价格优先逐档撮合可成交部分
+ *   不能立即成交的剩余数量直接撤销（GTC/GTD/FAK 均按 IOC 处理，不模拟挂单排队）；
+ *   FOK 不能全部成交时整单拒绝
+ * - postOnly 的 GTC/GTD（做市报价）例外：会穿价的拒单，其余挂单排队；runner 每轮把订单簿交给 matchResting，
+ *   对手盘穿过挂单价（买单：卖一 <= 挂单价；卖单：买一 >= 挂单价）时按挂单价与对手盘数量成交，按 maker 费率扣费
+ * - 维护模拟 USDC 与各 token 余额，供 getBalance / getTokenBalance 查询；成交按 options.feeRateBps 扣 taker 手续费
+ * - 成交通过 subscribeUserEvents 推送（与实盘 user channel 同格式），按实际成交价/量
+ * - settleExpired：市场到期后按 Gamma 结算结果兑付（赢方 $1/share，输方归零）
+ * - createPaperCtfGateway：CtfGateway 的模拟实现，自动兑付（Redeemer）在模拟盘按同样规则结算，不上链
+ *
+ * 余额单位与真实 API 保持一致：返回值为 6 位小数的原始整数（1 USDC = 1e6）
+ */
+
+import { getOrderBooks, GTD_SECURITY_THRESHOLD_SEC } from "./clob.js";
+import type { OrderBookSummary, OrderStatus, PolymarketClient } from "./clob.js";
+import type { UserEvent, UserEventHandler, UserFeed } from "./clob-user-ws.js";
+import { getMarketResolution } from "./gamma.js";
+import type { GammaMarket } from "./gamma.js";
+import type { CtfGateway } from "./ctf.js";
+import { tradeFee } from "../risk/fees.js";
+
+const UNIT = 1e6;
+
+export interface SimulatedFill {
+  filledSize: number;
+  avgPrice: number;
+}
+
+/**
+ * 按订单簿逐档撮合：BUY 吃 asks（价格 <= limit），SELL 吃 bids（价格 >= limit）
+ */
+export function simulateFill(
+  book: OrderBookSummary | null,
+  side: "BUY" | "SELL",
+  limitPrice: number,
+  size: number
+): SimulatedFill {
+  if (!book || size <= 0) return { filledSize: 0, avgPrice: 0 };
+  const levels = side === "BUY" ? book.asks : book.bids;
+  let remaining = size;
+  let notional = 0;
+  for (const level of levels) {
+    const price = parseFloat(level.price);
+    const avail = parseFloat(level.size);
+    if (!Number.isFinite(price) || !Number.isFinite(avail) || avail <= 0) continue;
+    if (side === "BUY" ? price > limitPrice + 1e-9 : price < limitPrice - 1e-9) break;
+    const take = Math.min(remaining, avail);
+    notional += take * price;
+    remaining -= take;
+    if (remaining <= 1e-9) break;
+  }
+  const filledSize = size - Math.max(0, remaining);
+  return { filledSize, avgPrice: filledSize > 0 ? notional / filledSize : 0 };
+}
+
+interface PaperMarket {
+  slug: string;
+  conditionId: string;
+  endMs: number;
+  tokenIds: string[];
+}
+
+export interface PaperClient extends PolymarketClient {
+  /** 登记市场（token → 市场映射），用于到期结算 */
+  registerMarkets(markets: GammaMarket[]): void;
+  /** 结算已到期且仍有持仓的市场 */
+  settleExpired(nowMs?: number): Promise<void>;
+  /** 按 conditionId 结算单个市场（模拟兑付），返回兑付额；尚未结算抛错 */
+  redeemCondition(conditionId: string): Promise<number>;
+  /** 按最新订单簿撮合挂单中的 postOnly 订单（GTD 到期的撤销） */
+  matchResting(books: Map<string, OrderBookSummary>, nowMs?: number): void;
+  /** 当前模拟盘概况（USDC 及相对初始的变化、成交笔数、持有 token 数、挂单数） */
+  getSummary(): string;
+}
+
+interface RestingOrder {
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  feeRateBps: number;
+  expiresAtMs: number; // 0 = GTC
+}
+
+export function createPaperClient(startBalanceUsd: number): PaperClient {
+  let usdc = startBalanceUsd;
+  let fillCount = 0;
+  let orderSeq = 0;
+  let tradeSeq = 0;
+  const tokens = new Map<string, number>();
+  const markets = new Map<string, PaperMarket>(); // slug → market
+  const orders = new Map<string, OrderStatus>();  // orderId → 成交结果（IOC 下单即终态；postOnly 挂单为 LIVE 直到成交/撤单）
+  const resting = new Map<string, RestingOrder>(); // orderId → 挂单中的 postOnly 订单
+  const userHandlers = new Set<UserEventHandler>();
+
+  function emitUserEvent(ev: UserEvent): void {
+    for (const h of userHandlers) {
+      try {
+        h(ev);
+      } catch (e) {
+        console.error("[Paper] user event handler err:", e instanceof Error ? e.message : e);
+      }
+    }
+  }
+
+  function tokenBalance(tokenId: string): number {
+    return tokens.get(tokenId) ?? 0;
+  }
+
+  /** 记一笔成交：更新余额并推送（与实盘 user channel 同格式）；返回手续费 */
+  function applyFill(
+    orderId: string, tokenId: string, side: "BUY" | "SELL", price: number, size: number, feeRateBps: number, market: string,
+    liquidity: "maker" | "taker"
+  ): number {
+    const notional = price * size;
+    const fee = tradeFee(price, size, feeRateBps);
+    if (side === "BUY") {
+      usdc -= notional + fee;
+      tokens.set(tokenId, tokenBalance(tokenId) + size);
+    } else {
+      usdc += notional - fee;
+      tokens.set(tokenId, tokenBalance(tokenId) - size);
+    }
+    fillCount++;
+    emitUserEvent({
+      kind: "fill",
+      tradeId: `paper-trade-${++tradeSeq}`,
+      orderId,
+      assetId: tokenId,
+      market,
+      side,
+      price,
+      size,
+      status: "MATCHED",
+      ts: Date.now(),
+      liquidity,
+    });
+    return fee;
+  }
+
+  function cancelResting(orderId: string): boolean {
+    if (!resting.delete(orderId)) return false;
+    const status = orders.get(orderId);
+    if (status) status.status = "CANCELED";
+    return true;
+  }
+
+  /** 查询结算结果并兑付；尚未结算返回 null */
+  async function settle(m: PaperMarket): Promise<number | null> {
+    const resolution = await getMarketResolution(m.slug);
+    if (!resolution) return null;
+
+    let payout = 0;
+    for (const id of m.tokenIds) {
+      if (id === resolution.winningTokenId) payout += tokenBalance(id);
+      tokens.delete(id);
+    }
+    usdc += payout;
+    markets.delete(m.slug);
+    console.log(`[Paper] 结算 ${m.slug.slice(0, 30)}: 赢方=${resolution.winningOutcome} 兑付 $${payout.toFixed(2)} | USDC $${usdc.toFixed(2)}`);
+    return payout;
+  }
+
+  return {
+    async initializeAllowances(): Promise<void> {
+      console.log(`[Paper] 模拟盘模式，初始 USDC $${startBalanceUsd.toFixed(2)}（不会真实下单）`);
+    },
+
+    async cancelAll(): Promise<void> {
+      // 只有 postOnly 订单会挂单
+      for (const id of [...resting.keys()]) cancelResting(id);
+    },
+
+    async cancelOrder(orderId: string): Promise<boolean> {
+      return cancelResting(orderId); // IOC 订单下单即终态，没有可撤的挂单
+    },
+
+    async getBalance(): Promise<{ balance: string; allowance: string }> {
+      const raw = String(Math.round(usdc * UNIT));
+      return { balance: raw, allowance: raw };
+    },
+
+    async syncTokenBalance(_tokenId: string): Promise<boolean> {
+      return true;
+    },
+
+    async getTokenBalance(tokenId: string): Promise<number> {
+      return Math.round(tokenBalance(tokenId) * UNIT);
+    },
+
+    async getOrder(orderId: string): Promise<OrderStatus | null> {
+      return orders.get(orderId) ?? null;
+    },
+
+    subscribeUserEvents(handler: UserEventHandler): UserFeed {
+      userHandlers.add(handler);
+      return { isLive: () => true, reconnect: () => {}, close: () => userHandlers.delete(handler) };
+    },
+
+    async createAndPostOrder(params, options, orderType) {
+      const books = await getOrderBooks([params.tokenID]).catch(() => new Map<string, OrderBookSummary>());
+      const book = books.get(params.tokenID) ?? null;
+      if (!book) return { success: false, errorMsg: "paper: order book unavailable" };
+
+      if (params.side === "SELL" && tokenBalance(params.tokenID) + 1e-9 < params.size) {
+        return { success: false, errorMsg: "not enough balance / allowance" };
+      }
+
+      if (orderType === "GTD" && !params.expiration) {
+        return { success: false, errorMsg: "GTD order requires expiration" };
+      }
+
+      const fill = simulateFill(book, params.side, params.price, params.size);
+      if (options.postOnly && (orderType === "GTC" || orderType === "GTD")) {
+        if (fill.filledSize > 0) return { success: false, errorMsg: `paper: post-only order would cross at ${params.price}` };
+        const orderId = `paper-${Date.now()}-${++orderSeq}`;
+        resting.set(orderId, {
+          tokenId: params.tokenID,
+          side: params.side,
+          price: params.price,
+          size: params.size,
+          feeRateBps: options.feeRateBps ?? 0,
+          expiresAtMs: params.expiration ? (params.expiration - GTD_SECURITY_THRESHOLD_SEC) * 1000 : 0,
+        });
+        orders.set(orderId, { status: "LIVE", sizeMatched: 0, originalSize: params.size });
+        return { success: true, orderId, status: "live" };
+      }
+      if (fill.filledSize <= 0) {
+        return { success: false, errorMsg: `paper: no liquidity at ${params.price} (${orderType})` };
+      }
+      if (orderType === "FOK" && fill.filledSize + 1e-9 < params.size) {
+        return { success: false, errorMsg: `paper: FOK not fully fillable (${fill.filledSize.toFixed(2)}/${params.size} at ${params.price})` };
+      }
+
+      const notional = fill.avgPrice * fill.filledSize;
+      if (params.side === "BUY" && notional + tradeFee(fill.avgPrice, fill.filledSize, options.feeRateBps ?? 0) > usdc + 1e-9) {
+        return { success: false, errorMsg: "not enough balance / allowance" };
+      }
+
+      const orderId = `paper-${Date.now()}-${++orderSeq}`;
+      orders.set(orderId, { status: "MATCHED", sizeMatched: fill.filledSize, originalSize: params.size });
+      // 与实盘 user channel 一致：成交推送可能先于下单返回到达
+      const fee = applyFill(orderId, params.tokenID, params.side, fill.avgPrice, fill.filledSize, options.feeRateBps ?? 0, book.market, "taker");
+      const partial = fill.filledSize + 1e-9 < params.size ? ` (部分成交，剩余 ${(params.size - fill.filledSize).toFixed(2)} 已撤)` : "";
+      const feeStr = fee > 0 ? ` 手续费 $${fee.toFixed(3)}` : "";
+      console.log(`[Paper] ${params.side} ${fill.filledSize.toFixed(2)} @${fill.avgPrice.toFixed(3)} = $${notional.toFixed(2)}${feeStr}${partial} | USDC $${usdc.toFixed(2)}`);
+      return { success: true, orderId, status: "matched", sizeMatched: fill.filledSize, avgPrice: fill.avgPrice };
+    },
+
+    registerMarkets(list: GammaMarket[]): void {
+      for (const m of list) {
+        if (!m.slug || markets.has(m.slug)) continue;
+        const tokenIds = (m.tokens ?? []).map((t) => t.token_id).filter(Boolean);
+        markets.set(m.slug, {
+          slug: m.slug,
+          conditionId: m.conditionId,
+          endMs: m.endDate ? new Date(m.endDate).getTime() : 0,
+          tokenIds,
+        });
+      }
+    },
+
+    async settleExpired(nowMs: number = Date.now()): Promise<void> {
+      for (const m of markets.values()) {
+        if (!m.endMs || nowMs < m.endMs) continue;
+        const held = m.tokenIds.filter((id) => tokenBalance(id) > 1e-9);
+        if (held.length === 0) {
+          markets.delete(m.slug);
+          continue;
+        }
+        await settle(m); // 尚未结算返回 null，下次再查
+      }
+    },
+
+    async redeemCondition(conditionId: string): Promise<number> {
+      const m = [...markets.values()].find((x) => x.conditionId === conditionId);
+      if (!m) return 0; // 未登记（或已结算）：无模拟持仓
+      const payout = await settle(m);
+      if (payout === null) throw new Error(`paper: ${m.slug} not resolved yet`);
+      return payout;
+    },
+
+    matchResting(books: Map<string, OrderBookSummary>, nowMs: number = Date.now()): void {
+      for (const [orderId, o] of resting) {
+        if (o.expiresAtMs && nowMs >= o.expiresAtMs) {
+          cancelResting(orderId);
+          continue;
+        }
+        const book = books.get(o.tokenId);
+        if (!book) continue;
+        // 对手盘穿过挂单价的数量（按挂单价成交）
+        const levels = o.side === "BUY" ? book.asks : book.bids;
+        let available = 0;
+        for (const level of levels) {
+          const price = parseFloat(level.price);
+          if (o.side === "BUY" ? price > o.price + 1e-9 : price < o.price - 1e-9) break;
+          available += parseFloat(level.size) || 0;
+        }
+        const status = orders.get(orderId)!;
+        let size = Math.min(available, o.size - status.sizeMatched);
+        if (o.side === "SELL") size = Math.min(size, tokenBalance(o.tokenId));
+        if (o.side === "BUY") size = Math.min(size, usdc / (o.price * (1 + o.feeRateBps / 1e4)));
+        size = Math.floor(size * 100) / 100;
+        if (size <= 0) continue;
+        const fee = applyFill(orderId, o.tokenId, o.side, o.price, size, o.feeRateBps, book.market, "maker");
+        status.sizeMatched += size;
+        if (status.sizeMatched >= o.size - 1e-9) {
+          status.status = "MATCHED";
+          resting.delete(orderId);
+        }
+        const feeStr = fee > 0 ? ` 手续费 $${fee.toFixed(3)}` : "";
+        console.log(`[Paper] 挂单成交 ${o.side} ${size.toFixed(2)} @${o.price}${feeStr} (${status.sizeMatched.toFixed(2)}/${o.size}) | USDC $${usdc.toFixed(2)}`);
+      }
+    },
+
+    getSummary(): string {
+      const pnl = usdc - startBalanceUsd;
+      const heldTokens = [...tokens.values()].filter((v) => v > 1e-9).length;
+      const restingStr = resting.size > 0 ? ` | 挂单 ${resting.size}` : "";
+      return `USDC $${usdc.toFixed(2)} (${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)}) | ${fillCount} 笔成交 | 持有 ${heldTokens} 个 token${restingStr}`;
+    },
+  };
+}
+
+/** 模拟盘兑付：不上链，按 Gamma 结算结果直接结算模拟余额 */
+export function createPaperCtfGateway(paper: PaperClient): CtfGateway {
+  let seq = 0;
+  return {
+    async isResolved(_conditionId: string): Promise<boolean> {
+      return true; // 以 Gamma 结算结果为准（redeemCondition 未结算时抛错，Redeemer 稍后重试）
+    },
+    async redeem(req): Promise<string> {
+      await paper.redeemCondition(req.conditionId);
+      return `paper-redeem-${++seq}`;
+    },
+  };
+}
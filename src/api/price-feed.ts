@@ -0,0 +1,242 @@
+/**
+ * 多交易所聚合价格源：OKX / Binance / Coinbase / Bybit 各自订阅，合成一个指数价给策略
+ *
+ * - 每个交易所每个标的保留最新一笔（价格、交易所时间、本地接收时间）与延迟（接收 − 交易所时间，EWMA）
+ * - 剔除：超过 staleMs 没有新行情的交易所（stale）；至少 3 家时偏离中位数超过 maxDeviationPct 的交易所（diverging）
+ * - 指数：其余交易所的中位数（median）或按 weights 加权平均（weighted）；只剩一家时即为该家价格
+ * - 被剔除 / 恢复时打日志；指数变化（或未变但距上次回调超过 INDEX_REFRESH_MS）时回调 onPrice(asset, index, 交易所时间)，
+ *   调用方据此判断参考价是否过期
+ * - 传入 health 时每个交易所连接注册到 FeedHealthMonitor，静默超过 silenceMs 强制重连
+ * - Coinbase 为美元交易对，其余为 USDT，两者价差通常远小于偏离阈值
+ */
+
+import { connectOkxSpot, okxInstId } from "./okx-ws.js";
+import type { SpotPriceHandler } from "./okx-ws.js";
+import { binanceSymbol, bybitSymbol, coinbaseProductId, connectBinanceSpot, connectBybitSpot, connectCoinbaseSpot } from "./exchange-ws.js";
+import type { SpotConnection } from "./exchange-ws.js";
+import type { FeedHealthMonitor, FeedProbe } from "./feed-health.js";
+
+export type PriceVenue = "okx" | "binance" | "coinbase" | "bybit";
+export type PriceIndexMethod = "median" | "weighted";
+
+export const PRICE_VENUES: PriceVenue[] = ["okx", "binance", "coinbase", "bybit"];
+
+export function isPriceVenue(value: string): value is PriceVenue {
+  return (PRICE_VENUES as string[]).includes(value);
+}
+
+export type IndexPriceHandler = (asset: string, price: number, ts: number) => void;
+
+/** 单个交易所的行情连接（一条连接订阅全部标的） */
+export interface PriceFeed {
+  readonly venue: PriceVenue;
+  reconnect(): void;
+  close(): void;
+}
+
+const VENUE_INSTRUMENT: Record<PriceVenue, (asset: string) => string> = {
+  okx: okxInstId,
+  binance: binanceSymbol,
+  coinbase: coinbaseProductId,
+  bybit: bybitSymbol,
+};
+
+/** 连接单个交易所，按标的回调（instrument → asset 的映射在此完成） */
+export function connectVenue(venue: PriceVenue, assets: string[], onPrice: SpotPriceHandler, probe?: FeedProbe): PriceFeed {
+  const toInst = VENUE_INSTRUMENT[venue];
+  const byInst = new Map(assets.map((a) => [toInst(a), a]));
+  const handler: SpotPriceHandler = (inst, price, ts) => {
+    const asset = byInst.get(inst);
+    if (asset) onPrice(asset, price, ts);
+  };
+  const insts = [...byInst.keys()];
+  let conn: SpotConnection;
+  switch (venue) {
+    case "okx":
+      conn = connectOkxSpot(insts, handler, probe);
+      break;
+    case "binance":
+      conn = connectBinanceSpot(insts, handler, probe);
+      break;
+    case "coinbase":
+      conn = connectCoinbaseSpot(insts, handler, probe);
+      break;
+    case "bybit":
+      conn = connectBybitSpot(insts, handler, probe);
+      break;
+  }
+  return { venue, reconnect: () => conn.reconnect(), close: () => conn.close() };
+}
+
+export interface CompositeFeedOptions {
+  venues: PriceVenue[];
+  assets: string[];
+  staleMs: number;
+  maxDeviationPct: number; // 相对中位数，如 0.002 = 0.2%
+  index: PriceIndexMethod;
+  weights?: Partial<Record<PriceVenue, number>>; // weighted 用，缺省 1
+  /** 每个交易所的原始行情（剔除判断之前），如 Binance 作为 1h 市场的结算源 */
+  onVenuePrice?: (venue: PriceVenue, asset: string, price: number, ts: number) => void;
+  health?: FeedHealthMonitor;
+  silenceMs?: number; // 连接静默多久强制重连（health 用）
+}
+
+export interface VenueStatus {
+  venue: PriceVenue;
+  asset: string;
+  price: number;
+  ageMs: number;     // 距最近一笔行情（本地时间）
+  latencyMs: number; // 接收 − 交易所时间（EWMA）
+  excluded: "stale" | "diverging" | null;
+}
+
+export interface CompositePriceFeed {
+  /** 最新指数价（无可用交易所为 0） */
+  price(asset: string): number;
+  /** 当前参与指数的交易所数量（未过期且未偏离） */
+  liveVenues(asset: string, nowMs?: number): number;
+  status(nowMs?: number): VenueStatus[];
+  /** 日志用：各交易所延迟与剔除状态 */
+  summary(nowMs?: number): string;
+  close(): void;
+}
+
+interface VenueQuote {
+  price: number;
+  exchangeTs: number;
+  recvTs: number;
+  latencyMs: number;
+  excluded: VenueStatus["excluded"];
+}
+
+const LATENCY_EWMA_ALPHA = 0.2;
+const INDEX_REFRESH_MS = 1_000;
+const DEFAULT_SILENCE_MS = 15_000;
+const DEVIATION_MIN_VENUES = 3;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function createCompositePriceFeed(
+  options: CompositeFeedOptions,
+  onPrice: IndexPriceHandler,
+  connect: typeof connectVenue = connectVenue
+): CompositePriceFeed {
+  const quotes = new Map<string, Map<PriceVenue, VenueQuote>>(); // asset → venue → 最新一笔
+  const indexPrices = new Map<string, number>();
+  const indexEmittedAt = new Map<string, number>();
+  const weightOf = (venue: PriceVenue) => Math.max(0, options.weights?.[venue] ?? 1);
+
+  /** 重新判定各交易所是否参与指数（状态变化时打日志），返回参与的交易所 */
+  function classify(asset: string, nowMs: number): Array<[PriceVenue, VenueQuote]> {
+    const byVenue = quotes.get(asset);
+    if (!byVenue) return [];
+    const fresh = [...byVenue].filter(([, q]) => nowMs - q.recvTs <= options.staleMs);
+    const mid = fresh.length >= DEVIATION_MIN_VENUES ? median(fresh.map(([, q]) => q.price)) : 0;
+    const live: Array<[PriceVenue, VenueQuote]> = [];
+    for (const [venue, q] of byVenue) {
+      let excluded: VenueStatus["excluded"] = null;
+      if (nowMs - q.recvTs > options.staleMs) excluded = "stale";
+      else if (mid > 0 && Math.abs(q.price - mid) / mid > options.maxDeviationPct) excluded = "diverging";
+      if (excluded !== q.excluded) {
+        const label = `${venue} ${asset.toUpperCase()}`;
+        if (excluded === "stale") console.warn(`[Feed] ${label} ${Math.round((nowMs - q.recvTs) / 1000)}s 无行情，剔除`);
+        else if (excluded === "diverging") console.warn(`[Feed] ${label} $${q.price} 偏离中位数 $${mid} ${(Math.abs(q.price - mid) / mid * 100).toFixed(2)}%，剔除`);
+        else console.log(`[Feed] ${label} 恢复`);
+        q.excluded = excluded;
+      }
+      if (!excluded) live.push([venue, q]);
+    }
+    return live;
+  }
+
+  function computeIndex(live: Array<[PriceVenue, VenueQuote]>): number {
+    if (live.length === 0) return 0;
+    if (options.index === "weighted") {
+      const totalWeight = live.reduce((s, [v]) => s + weightOf(v), 0);
+      if (totalWeight > 0) return live.reduce((s, [v, q]) => s + weightOf(v) * q.price, 0) / totalWeight;
+    }
+    return median(live.map(([, q]) => q.price));
+  }
+
+  function onTick(venue: PriceVenue, asset: string, price: number, exchangeTs: number): void {
+    const recvTs = Date.now();
+    options.onVenuePrice?.(venue, asset, price, exchangeTs);
+    let byVenue = quotes.get(asset);
+    if (!byVenue) {
+      byVenue = new Map();
+      quotes.set(asset, byVenue);
+    }
+    const prev = byVenue.get(venue);
+    const latency = Math.max(0, recvTs - exchangeTs);
+    byVenue.set(venue, {
+      price,
+      exchangeTs,
+      recvTs,
+      latencyMs: prev ? prev.latencyMs + LATENCY_EWMA_ALPHA * (latency - prev.latencyMs) : latency,
+      excluded: prev?.excluded ?? null,
+    });
+
+    const live = classify(asset, recvTs);
+    if (!live.some(([v]) => v === venue)) return; // 本家被剔除：指数不变
+    const index = computeIndex(live);
+    if (index > 0 && (index !== indexPrices.get(asset) || recvTs - (indexEmittedAt.get(asset) ?? 0) >= INDEX_REFRESH_MS)) {
+      indexPrices.set(asset, index);
+      indexEmittedAt.set(asset, recvTs);
+      onPrice(asset, index, exchangeTs);
+    }
+  }
+
+  function status(nowMs: number): VenueStatus[] {
+    const out: VenueStatus[] = [];
+    for (const [asset, byVenue] of quotes) {
+      classify(asset, nowMs);
+      for (const [venue, q] of byVenue) {
+        out.push({ venue, asset, price: q.price, ageMs: nowMs - q.recvTs, latencyMs: q.latencyMs, excluded: q.excluded });
+      }
+    }
+    return out;
+  }
+
+  const feeds = options.venues.map((venue) => {
+    let feed: PriceFeed | null = null;
+    const probe = options.health?.register(venue, {
+      silenceMs: options.silenceMs ?? DEFAULT_SILENCE_MS,
+      reconnect: () => feed?.reconnect(),
+    });
+    feed = connect(venue, options.assets, (asset, price, ts) => onTick(venue, asset, price, ts), probe);
+    return feed;
+  });
+
+  return {
+    price(asset: string): number {
+      return indexPrices.get(asset) ?? 0;
+    },
+
+    liveVenues(asset: string, nowMs: number = Date.now()): number {
+      return classify(asset, nowMs).length;
+    },
+
+    status(nowMs: number = Date.now()): VenueStatus[] {
+      return status(nowMs);
+    },
+
+    summary(nowMs: number = Date.now()): string {
+      const all = status(nowMs);
+      return options.venues.map((venue) => {
+        const rows = all.filter((s) => s.venue === venue);
+        if (rows.length === 0) return `${venue} —`;
+        const latency = Math.round(rows.reduce((s, r) => s + r.latencyMs, 0) / rows.length);
+        const flags = rows.filter((r) => r.excluded).map((r) => `${r.asset.toUpperCase()}:${r.excluded}`);
+        return `${venue} ${latency}ms${flags.length ? ` ✗${flags.join(",")}` : ""}`;
+      }).join(" | ");
+    },
+
+    close(): void {
+      for (const f of feeds) f.close();
+    },
+  };
+}
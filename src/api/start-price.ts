@@ -0,0 +1,177 @@
+/**
+ * 市场官方起点价：按 slug 里的窗口开始时间查历史 K 线，而不是 runner 首次看到市场时的最新价
+ *
+ * - OKX：1m K 线（/market/candles，超出近期范围时 /market/history-candles）在窗口开始时刻的开盘价
+ * - 结算源（市场 resolutionSource）：Binance 链接查同一时刻的 1m K 线开盘价；
+ *   Chainlink 等无公开历史 K 线的来源无法核对，按 OKX 开盘价并提示
+ * - 采用价：结算源取到时用结算源，否则用 OKX；两者偏差超过 DISCREPANCY_WARN_PCT 打警告
+ * - 按市场缓存（窗口结束后 CACHE_KEEP_MS 清理），失败或结算源暂未取到时 RETRY_MS 后重试；窗口未开始的市场不查询
+ */
+
+import type { GammaMarket } from "./gamma.js";
+import { assetOfMarket, slotStartMsOf } from "./gamma.js";
+import { okxInstId } from "./okx-ws.js";
+
+const OKX_CANDLES = "https://www.okx.com/api/v5/market/candles";
+const OKX_HISTORY_CANDLES = "https://www.okx.com/api/v5/market/history-candles";
+const BINANCE_KLINES = "https://api.binance.com/api/v3/klines";
+
+const CANDLE_MS = 60_000;
+const RETRY_MS = 10_000;
+const CACHE_KEEP_MS = 3_600_000;
+/** OKX 与结算源开盘价的相对偏差超过此值时警告（0.05%，BTC $100k ≈ $50） */
+export const DISCREPANCY_WARN_PCT = 0.0005;
+
+export type ResolutionSourceKind = "binance" | "chainlink" | "unknown";
+
+export interface ResolutionSource {
+  kind: ResolutionSourceKind;
+  symbol?: string; // Binance 交易对，如 BTCUSDT
+}
+
+export interface StartPrice {
+  price: number;                // 采用的起点价
+  source: "okx" | "binance";    // 采用价的来源
+  slotStartMs: number;
+  okxPrice: number | null;
+  resolution: ResolutionSource;
+  referencePrice: number | null; // 结算源同一时刻的开盘价（无法查询为 null）
+}
+
+/** 解析市场的 resolutionSource；Binance 链接里没有交易对时按标的推断（{ASSET}USDT） */
+export function resolutionSourceOf(market: Pick<GammaMarket, "slug" | "resolutionSource">): ResolutionSource {
+  const src = (market.resolutionSource || "").toLowerCase();
+  if (src.includes("binance")) {
+    const pair = src.match(/\/trade\/([a-z0-9]+)[_-]?([a-z]+)/);
+    return { kind: "binance", symbol: pair ? `${pair[1]}${pair[2]}`.toUpperCase() : `${assetOfMarket(market).toUpperCase()}USDT` };
+  }
+  if (src.includes("chain.link") || src.includes("chainlink")) return { kind: "chainlink" };
+  return { kind: "unknown" };
+}
+
+/** OKX 1m K 线在 tsMs 的开盘价（after = 早于该时刻，取 tsMs + 1 分钟得到恰好从 tsMs 开始的那根） */
+export async function fetchOkxCandleOpen(instId: string, tsMs: number): Promise<number | null> {
+  const q = `?instId=${encodeURIComponent(instId)}&bar=1m&after=${tsMs + CANDLE_MS}&limit=1`;
+  for (const base of [OKX_CANDLES, OKX_HISTORY_CANDLES]) {
+    const res = await fetch(base + q);
+    if (!res.ok) continue;
+    const json = (await res.json()) as { data?: string[][] };
+    const candle = json.data?.[0];
+    if (!candle || Number(candle[0]) !== tsMs) continue;
+    const open = parseFloat(candle[1]);
+    if (Number.isFinite(open) && open > 0) return open;
+  }
+  return null;
+}
+
+/** Binance 1m K 线在 tsMs 的开盘价 */
+export async function fetchBinanceCandleOpen(symbol: string, tsMs: number): Promise<number | null> {
+  const res = await fetch(`${BINANCE_KLINES}?symbol=${encodeURIComponent(symbol)}&interval=1m&startTime=${tsMs}&limit=1`);
+  if (!res.ok) return null;
+  const rows = (await res.json()) as Array<[number, string]>;
+  const candle = rows?.[0];
+  if (!candle || Number(candle[0]) !== tsMs) return null;
+  const open = parseFloat(candle[1]);
+  return Number.isFinite(open) && open > 0 ? open : null;
+}
+
+export interface StartPriceService {
+  /** 已解析的起点价（未解析返回 null） */
+  get(marketKey: string): StartPrice | null;
+  /** 解析窗口已开始、尚未缓存的市场（并发拉取，失败稍后重试） */
+  resolve(markets: GammaMarket[]): Promise<void>;
+}
+
+interface CachedStartPrice {
+  value: StartPrice;
+  endMs: number;
+  final: boolean; // false = 结算源暂未取到、先用 OKX，稍后重试结算源
+}
+
+function marketKeyOf(market: GammaMarket): string {
+  return market.conditionId || market.slug || market.id;
+}
+
+/** 按参考价量级取小数位（BTC 2 位、XRP 等 4 位） */
+function formatUsd(value: number, ref: number = value): string {
+  return Math.abs(ref) >= 100 ? value.toFixed(2) : value.toFixed(4);
+}
+
+export function createStartPriceService(): StartPriceService {
+  const cache = new Map<string, CachedStartPrice>();
+  const inflight = new Map<string, Promise<void>>();
+  const retryAt = new Map<string, number>();
+  let chainlinkNoted = false;
+
+  async function load(key: string, market: GammaMarket, slotStartMs: number, endMs: number): Promise<void> {
+    const slug = market.slug || key;
+    const resolution = resolutionSourceOf(market);
+    try {
+      const [okxPrice, referencePrice] = await Promise.all([
+        fetchOkxCandleOpen(okxInstId(assetOfMarket(market)), slotStartMs).catch(() => null),
+        resolution.kind === "binance" && resolution.symbol
+          ? fetchBinanceCandleOpen(resolution.symbol, slotStartMs).catch(() => null)
+          : Promise.resolve(null),
+      ]);
+      const price = referencePrice ?? okxPrice;
+      if (price === null) {
+        retryAt.set(key, Date.now() + RETRY_MS);
+        return;
+      }
+      const final = resolution.kind !== "binance" || referencePrice !== null;
+      const first = !cache.has(key);
+      if (final) retryAt.delete(key);
+      else retryAt.set(key, Date.now() + RETRY_MS);
+      cache.set(key, {
+        value: { price, source: referencePrice !== null ? "binance" : "okx", slotStartMs, okxPrice, resolution, referencePrice },
+        endMs,
+        final,
+      });
+
+      if (okxPrice !== null && referencePrice !== null) {
+        const diff = okxPrice - referencePrice;
+        if (Math.abs(diff) / referencePrice > DISCREPANCY_WARN_PCT) {
+          console.warn(`[StartPrice] ⚠ ${slug.slice(0, 40)}: OKX $${formatUsd(okxPrice)} 与结算源 Binance $${formatUsd(referencePrice)} 相差 $${formatUsd(Math.abs(diff), referencePrice)}，按结算源`);
+        }
+      } else if (resolution.kind === "binance" && first) {
+        console.warn(`[StartPrice] ⚠ ${slug.slice(0, 40)}: 结算源 Binance K 线未取到，暂按 OKX 开盘价`);
+      } else if (resolution.kind === "chainlink" && !chainlinkNoted) {
+        chainlinkNoted = true;
+        console.log(`[StartPrice] 结算源 Chainlink 无公开历史 K 线，起点价按 OKX 开盘价（无法核对）`);
+      } else if (resolution.kind === "unknown" && market.resolutionSource) {
+        console.warn(`[StartPrice] ⚠ ${slug.slice(0, 40)}: 无法识别结算源 ${market.resolutionSource}，按 OKX 开盘价`);
+      }
+    } catch (e) {
+      console.error("[StartPrice] fetch err:", e instanceof Error ? e.message : e);
+      retryAt.set(key, Date.now() + RETRY_MS);
+    }
+  }
+
+  return {
+    get(marketKey: string): StartPrice | null {
+      return cache.get(marketKey)?.value ?? null;
+    },
+
+    async resolve(markets: GammaMarket[]): Promise<void> {
+      const nowMs = Date.now();
+      for (const [key, c] of cache) {
+        if (c.endMs && nowMs - c.endMs > CACHE_KEEP_MS) cache.delete(key);
+      }
+      const jobs: Promise<void>[] = [];
+      for (const market of markets) {
+        const key = marketKeyOf(market);
+        const endMs = market.endDate ? new Date(market.endDate).getTime() : 0;
+        const slotStartMs = slotStartMsOf(market);
+        if (!slotStartMs || nowMs < slotStartMs || cache.get(key)?.final) continue;
+        if (nowMs < (retryAt.get(key) ?? 0)) continue;
+        let job = inflight.get(key);
+        if (!job) {
+          job = load(key, market, slotStartMs, endMs).finally(() => inflight.delete(key));
+          inflight.set(key, job);
+        }
+        jobs.push(job);
+      }
+      await Promise.all(jobs);
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * 回测入口：回放录制的订单簿 + BTC 行情，输出逐笔成交、结算与 PnL/回撤报告
+ *
+ * 用法：
+ *   npm run backtest -- <文件或目录...> [--balance=100] [--json=report.json]
+ *
+ * 策略参数沿用 .env（TREND_MIN_BID、ENDGAME_MAX_ASK、MAX_POSITION_PER_MARKET 等），
+ * 改 .env 后重跑即可离线比较参数。
+ */
+import "dotenv/config";
+import * as fs from "fs";
+import { loadConfig } from "./config/index.js";
+import { readReplayEvents } from "./backtest/reader.js";
+import { runBacktest, formatReport } from "./backtest/engine.js";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const inputs = args.filter((a) => !a.startsWith("--"));
+  const opt = (name: string) => args.find((a) => a.startsWith(`--${name}=`))?.split("=")[1];
+
+  if (inputs.length === 0) {
+    console.error("用法: npm run backtest -- <文件或目录...> [--balance=100] [--json=report.json]");
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const startBalance = parseFloat(opt("balance") ?? "100");
+  console.log(`[Backtest] TREND_MIN_BID=${config.trendMinBid} TREND_MIN_EDGE=${config.trendMinEdge} ENDGAME_MAX_ASK=${config.endgameMaxAsk} MAX_POSITION_PER_MARKET=${config.maxPositionPerMarket} MAX_TRADES_PER_WINDOW=${config.maxTradesPerWindow}`);
+
+  const report = await runBacktest(readReplayEvents(inputs), { config, startBalance });
+  console.log(formatReport(report));
+
+  const jsonPath = opt("json");
+  if (jsonPath) {
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), "utf8");
+    console.log(`\n完整报告已写入 ${jsonPath}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,598 @@
+/**
+ * 回测引擎：按时间顺序回放订单簿快照与标的（BTC / ETH…）行情，复用 runner 的入场/出场规则
+ *
+ * 与实盘 runner 一致的部分：
+ * - 策略由 STRATEGIES 配置经 strategies/registry.ts 创建，入场/出场逻辑完全相同
+ * - 止损冷却、同一标的同一时刻只持一个仓位、按优先级执行第一个通过风控的入场意图
+ * - 录制了结算源价格（oracle 事件）时按市场的结算源计算基差（BtcState.basisUsd），未录制时基差为 0
+ *
+ * 模拟成交：按回放时刻的订单簿逐档撮合（simulateFill），卖出失败时降价 0.01 重试 3 次
+ * 止盈挂单（EV 末日轮）：持仓满最小持有时间后，买一价触及挂单价即按订单簿成交
+ * 结算：市场 endDate 时刻的标的价 >= 录制的官方起点价（未录制时为窗口开始后第一笔标的价）→ Up 赢，否则 Down 赢
+ * 手续费：按市场费率（MarketContext.fees）扣除，吃单按 taker、止盈挂单按 maker；结算兑付不收费
+ * 不模拟做市挂单排队：mm 策略的报价（StrategyResult.quotes）被忽略，做市只能在模拟盘（PAPER_TRADING）验证
+ */
+
+import type { OrderBookSummary } from "../api/clob.js";
+import { assetOfMarket, slotStartMsOf } from "../api/gamma.js";
+import { oracleSourceOf } from "../api/oracle-feed.js";
+import type { Btc15mResult, GammaMarket } from "../api/gamma.js";
+import { simulateFill } from "../api/paper-client.js";
+import type { EnvConfig } from "../config/index.js";
+import { orderTypeFor } from "../execution/executor.js";
+import { bidQuote, planFill } from "../execution/planner.js";
+import type { BidQuote } from "../execution/planner.js";
+import { tradeFee } from "../risk/fees.js";
+import type { FeeRates } from "../risk/fees.js";
+import { PositionTracker } from "../risk/position-tracker.js";
+import { AssetPrices } from "../strategies/asset-prices.js";
+import { buildMarketContext, findNoToken, findYesToken } from "../strategies/context.js";
+import { createStrategies } from "../strategies/registry.js";
+import { SCALP_PARAMS } from "../strategies/scalp.js";
+import { createSizer, maxPositionFor } from "../strategies/sizing.js";
+import type { Sizer } from "../strategies/sizing.js";
+import type { EntryIntent, MarketContext, Strategy, StrategyEnv } from "../strategies/types.js";
+import type { ReplayEvent } from "./types.js";
+
+export type BacktestConfig = EnvConfig;
+
+export interface BacktestOptions {
+  config: BacktestConfig;
+  startBalance: number;
+}
+
+/** 策略名（StrategyName 的大写形式，报告展示用） */
+export type BacktestStrategy = string;
+
+export interface BacktestFill {
+  ts: number;
+  slug: string;
+  strategy: BacktestStrategy;
+  side: "BUY" | "SELL";
+  outcome: "up" | "down";
+  price: number;
+  size: number;
+  fee: number;
+  reason: string;
+}
+
+export interface BacktestSettlement {
+  ts: number;
+  slug: string;
+  asset: string;
+  winner: "up" | "down";
+  startPrice: number;
+  endPrice: number;
+  payout: number;
+}
+
+/** 一笔完整交易（入场 → 卖出或结算） */
+export interface BacktestTrade {
+  slug: string;
+  strategy: BacktestStrategy;
+  outcome: "up" | "down";
+  entryTs: number;
+  exitTs: number;
+  entryPrice: number;
+  exitPrice: number;
+  size: number;
+  pnl: number;
+  exit: "SCALP" | "SETTLE";
+}
+
+export interface StrategyStats {
+  trades: number;
+  wins: number;
+  pnl: number;
+}
+
+export interface BacktestReport {
+  startBalance: number;
+  endBalance: number;
+  pnl: number;
+  fees: number; // 累计手续费（已计入 pnl）
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  fills: BacktestFill[];
+  settlements: BacktestSettlement[];
+  trades: BacktestTrade[];
+  byStrategy: Record<string, StrategyStats>;
+  unsettledMarkets: string[];
+  firstTs: number;
+  lastTs: number;
+}
+
+interface Lot {
+  strategy: BacktestStrategy;
+  outcome: "up" | "down";
+  slug: string;
+  entryTs: number;
+  size: number;
+  cost: number; // 含买入手续费
+}
+
+interface TrackedMarket {
+  market: GammaMarket;
+  slug: string;
+  asset: string;
+  slotStartMs: number;
+  endMs: number;
+  yesTokenId: string;
+  noTokenId: string;
+  refStartPrice: number; // 窗口开始后第一笔标的价（未录制官方起点价时的结算参考）
+  settled: boolean;
+}
+
+export class Backtester {
+  private readonly config: BacktestConfig;
+  private readonly startBalance: number;
+  private cash: number;
+  private readonly tracker: PositionTracker;
+  private readonly strategies: Strategy[];
+  private readonly sizer: Sizer;
+  private readonly prices: AssetPrices;
+  private marketResult: Btc15mResult = { allMarkets: [], inWindow: [], upcoming: [], nextStartsInSec: -1 };
+  private readonly markets = new Map<string, TrackedMarket>(); // slug → market
+  private readonly startPrices = new Map<string, number>();   // runner 口径的起点价（录制的官方起点价，缺失时为首次看到市场时的标的价）
+  private readonly officialStartPrices = new Map<string, number>(); // 录制的官方起点价（结算用）
+  private readonly recordedStartKeys = new Set<string>();          // 录制过起点价的市场（识别旧录制的官方起点价）
+  private readonly lossCooldownUntil = new Map<string, number>();
+  private readonly lots = new Map<string, Lot[]>();            // tokenId → 持有批次
+  private readonly lastBooks = new Map<string, OrderBookSummary>();
+  private readonly feeRates = new Map<string, FeeRates>();       // tokenId → 市场费率
+  private totalFees = 0;
+  private peakEquity: number;
+  private maxDrawdown = 0;
+  private maxDrawdownPct = 0;
+  private firstTs = 0;
+  private lastTs = 0;
+
+  readonly fills: BacktestFill[] = [];
+  readonly settlements: BacktestSettlement[] = [];
+  readonly trades: BacktestTrade[] = [];
+
+  constructor(options: BacktestOptions) {
+    this.config = options.config;
+    this.startBalance = options.startBalance;
+    this.cash = options.startBalance;
+    this.peakEquity = options.startBalance;
+    this.tracker = new PositionTracker({
+      profitTarget: SCALP_PARAMS.profitTarget,
+      stopLoss: SCALP_PARAMS.stopLoss,
+      maxHoldMs: SCALP_PARAMS.maxHoldMs,
+      maxPositionPerMarket: options.config.maxPositionPerMarket,
+      maxTradesPerWindow: options.config.maxTradesPerWindow,
+    });
+    this.prices = new AssetPrices({ defaultDailyVol: options.config.volDefaultDaily, halfLifeMs: options.config.volHalfLifeSec * 1000 });
+    this.strategies = createStrategies(options.config);
+    this.sizer = createSizer(options.config, options.startBalance);
+  }
+
+  handle(event: ReplayEvent): void {
+    if (!this.firstTs) this.firstTs = event.ts;
+    this.lastTs = event.ts;
+    // 先结算在本事件之前已到期的市场（此时各标的最新价即到期时刻价格）
+    this.settleDue(event.ts);
+
+    switch (event.kind) {
+      case "markets":
+        this.onMarkets(event.result);
+        break;
+      case "btc":
+        this.onPrice(event.asset ?? "btc", event.price, event.ts);
+        break;
+      case "oracle":
+        this.prices.recordOracle(event.source, event.asset, event.price, event.exchangeTs ?? event.ts);
+        break;
+      case "start_price": {
+        // 后记录的覆盖先记录的（官方起点价取到后覆盖首见价，与 runner 一致）
+        this.startPrices.set(event.marketKey, event.price);
+        const official = event.official ?? this.recordedStartKeys.has(event.marketKey);
+        this.recordedStartKeys.add(event.marketKey);
+        if (official) this.officialStartPrices.set(event.marketKey, event.price);
+        break;
+      }
+      case "books":
+        this.onBooks(event.books, event.ts);
+        break;
+    }
+  }
+
+  finish(): BacktestReport {
+    const unsettledMarkets = [...this.markets.values()]
+      .filter((m) => this.hasHoldings(m))
+      .map((m) => m.slug);
+
+    const byStrategy: Record<string, StrategyStats> = {};
+    for (const t of this.trades) {
+      const s = (byStrategy[t.strategy] ??= { trades: 0, wins: 0, pnl: 0 });
+      s.trades++;
+      if (t.pnl > 0) s.wins++;
+      s.pnl += t.pnl;
+    }
+
+    return {
+      startBalance: this.startBalance,
+      endBalance: this.cash,
+      pnl: this.cash - this.startBalance,
+      fees: this.totalFees,
+      maxDrawdown: this.maxDrawdown,
+      maxDrawdownPct: this.maxDrawdownPct,
+      fills: this.fills,
+      settlements: this.settlements,
+      trades: this.trades,
+      byStrategy,
+      unsettledMarkets,
+      firstTs: this.firstTs,
+      lastTs: this.lastTs,
+    };
+  }
+
+  private onMarkets(result: Btc15mResult): void {
+    this.marketResult = result;
+    for (const m of result.allMarkets) {
+      if (!m.slug || this.markets.has(m.slug)) continue;
+      const endMs = m.endDate ? new Date(m.endDate).getTime() : 0;
+      if (endMs && endMs <= this.lastTs) continue; // 已到期（刷新结果里的上一个 slot）
+      this.markets.set(m.slug, {
+        market: m,
+        slug: m.slug,
+        asset: assetOfMarket(m),
+        slotStartMs: slotStartMsOf(m),
+        endMs,
+        yesTokenId: findYesToken(m)?.token_id ?? "",
+        noTokenId: findNoToken(m)?.token_id ?? "",
+        refStartPrice: 0,
+        settled: false,
+      });
+    }
+  }
+
+  private onPrice(asset: string, price: number, ts: number): void {
+    this.prices.record(asset, price, ts);
+    for (const m of this.markets.values()) {
+      if (m.asset === asset && !m.refStartPrice && ts >= m.slotStartMs && ts < m.endMs) m.refStartPrice = price;
+    }
+  }
+
+  private onBooks(bookList: OrderBookSummary[], nowMs: number): void {
+    const books = new Map<string, OrderBookSummary>();
+    for (const b of bookList) {
+      books.set(b.asset_id, b);
+      this.lastBooks.set(b.asset_id, b);
+    }
+
+    const activeMarkets = this.marketResult.inWindow;
+    const activeSlugs = new Set(activeMarkets.map((m) => m.slug || "").filter(Boolean));
+    this.tracker.cleanupExpiredMarkets(activeSlugs);
+
+    for (const market of activeMarkets) {
+      const yesToken = findYesToken(market);
+      const noToken = findNoToken(market);
+      if (!yesToken || !noToken) continue;
+
+      const ctx = buildMarketContext(market, books.get(yesToken.token_id), books.get(noToken.token_id));
+      const slug = market.slug || "";
+      const mKey = market.conditionId || slug || market.id;
+      const asset = assetOfMarket(market);
+      for (const tokenId of [ctx.yesTokenId, ctx.noTokenId]) {
+        this.feeRates.set(tokenId, ctx.fees);
+        this.tracker.setFeeRates(tokenId, ctx.fees);
+        this.tracker.setMinOrderSize(tokenId, ctx.minOrderSize);
+      }
+
+      const assetPrice = this.prices.price(asset);
+      if (!this.startPrices.has(mKey) && assetPrice > 0) {
+        this.startPrices.set(mKey, assetPrice);
+      }
+
+      const currentBids = new Map<string, BidQuote>();
+      const yesBid = bidQuote(ctx.yesBook, this.config.maxSlippage);
+      if (yesBid) currentBids.set(ctx.yesTokenId, yesBid);
+      const noBid = bidQuote(ctx.noBook, this.config.maxSlippage);
+      if (noBid) currentBids.set(ctx.noTokenId, noBid);
+
+      const endMs = market.endDate ? new Date(market.endDate).getTime() : 0;
+      const secsLeft = (endMs - nowMs) / 1000;
+      const btc = this.prices.btcState(asset, this.startPrices.get(mKey), nowMs, { source: oracleSourceOf(market), slotStartMs: slotStartMsOf(market) });
+      // 仓位按回放时刻的现金计算
+      this.sizer.setBalance(this.cash);
+      this.tracker.setMaxPositionPerMarket(maxPositionFor(this.config, this.cash));
+      const env: StrategyEnv = { nowMs, secsLeft, marketSlug: slug, tracker: this.tracker, currentBids, sizer: this.sizer };
+      const results = this.strategies.map((st) => st.evaluate(ctx, btc, env));
+
+      // ========== 出场 ==========
+      this.fillTakeProfits(ctx, slug, nowMs);
+      for (const sig of results.flatMap((r) => r.exits)) {
+        const book = sig.tokenId === ctx.yesTokenId ? ctx.yesBook : ctx.noBook;
+        let sellPrice = sig.price;
+        let filled = 0;
+        for (let attempt = 0; attempt < 3 && filled <= 0; attempt++) {
+          const fill = simulateFill(book, "SELL", sellPrice, Math.min(sig.size, this.heldSize(sig.tokenId)));
+          if (fill.filledSize > 0) {
+            filled = fill.filledSize;
+            this.recordSell(sig.tokenId, slug, fill.avgPrice, fill.filledSize, nowMs, sig.reason);
+          } else {
+            sellPrice = Math.max(0.01, sellPrice - 0.01);
+          }
+        }
+        // 与 runner 一致：卖不出也清除持仓标记（代币留到结算）并进入冷却
+        this.tracker.recordSell(sig.tokenId, filled > 0 ? filled : sig.size);
+        if (filled <= 0 || sig.reason.includes("止损")) {
+          this.lossCooldownUntil.set(slug, nowMs + SCALP_PARAMS.lossCooldownMs);
+        }
+      }
+
+      // 同一标的同一时刻只持一个仓位（不同标的可同时持仓）
+      if (this.tracker.hasOpenPosition((pos) => assetOfMarket({ slug: pos.marketSlug }) === asset)) continue;
+
+      // ========== 入场 ==========
+      if (secsLeft <= 15) continue;
+
+      const cooldownExpiry = this.lossCooldownUntil.get(slug);
+      if (cooldownExpiry && nowMs < cooldownExpiry) continue;
+
+      const entry = results.flatMap((r) => r.entries).find((e) => this.tracker.canBuy(slug, e.cost));
+      if (entry) this.executeEntry(entry, ctx, slug, nowMs);
+    }
+
+    this.updateEquity();
+  }
+
+  /** 按信号逐腿撮合；neg_risk 两腿各自按订单簿成交，对冲腿在主单成交后撮合 */
+  private executeEntry(entry: EntryIntent, ctx: MarketContext, slug: string, nowMs: number): void {
+    const sig = entry.signal;
+    const legs = sig.type === "neg_risk"
+      ? [{ tokenId: sig.yesTokenId, price: sig.askYes }, { tokenId: sig.noTokenId, price: sig.askNo }]
+      : [{ tokenId: sig.tokenId, price: sig.price }];
+    // FOK 不能全部成交则整单取消；其余类型按可成交部分撮合（不模拟挂单排队）
+    const allOrNone = orderTypeFor(sig) === "FOK";
+    let primaryFilled = 0;
+    const legFills: number[] = [];
+    for (const leg of legs) {
+      const fill = this.buyLeg(ctx, slug, entry, leg.tokenId, leg.price, sig.size, nowMs, allOrNone);
+      legFills.push(fill);
+      primaryFilled = Math.max(primaryFilled, fill);
+    }
+    if (sig.type === "neg_risk") {
+      // 单腿成交：回放同一时刻无法补齐另一腿，按买一起滑点范围内卖出多出部分（与 pair-executor 到期解除一致）
+      const excess = legFills[0] - legFills[1];
+      if (Math.abs(excess) >= ctx.minOrderSize) this.unwindLeg(ctx, slug, excess > 0 ? sig.yesTokenId : sig.noTokenId, Math.abs(excess), nowMs);
+      return;
+    }
+    if (primaryFilled <= 0 || sig.type === "stop_loss") return;
+
+    let hedgedSize = 0;
+    if (entry.hedge) {
+      hedgedSize = this.buyLeg(ctx, slug, entry, entry.hedge.tokenId, entry.hedge.price, Math.min(entry.hedge.size, primaryFilled), nowMs);
+    }
+    const tpSize = Math.floor(primaryFilled - hedgedSize);
+    if (entry.takeProfitPrice && tpSize >= ctx.minOrderSize) {
+      const endMs = ctx.market.endDate ? new Date(ctx.market.endDate).getTime() : 0;
+      this.tracker.setTakeProfit(sig.tokenId, { price: entry.takeProfitPrice, size: tpSize, tickSize: ctx.tickSize, negRisk: ctx.negRisk, minOrderSize: ctx.minOrderSize, expiresAtMs: endMs });
+    }
+  }
+
+  private buyLeg(ctx: MarketContext, slug: string, entry: EntryIntent, tokenId: string, price: number, size: number, nowMs: number, allOrNone = false): number {
+    const outcome = tokenId === ctx.yesTokenId ? "up" : "down";
+    const fill = this.buy(outcome === "up" ? ctx.yesBook : ctx.noBook, tokenId, price, size);
+    if (allOrNone && fill.filledSize + 1e-9 < size) return 0;
+    if (fill.filledSize > 0) {
+      this.recordBuy(tokenId, slug, entry.strategy, outcome, fill.avgPrice, fill.filledSize, nowMs, entry.log);
+    }
+    return fill.filledSize;
+  }
+
+  private unwindLeg(ctx: MarketContext, slug: string, tokenId: string, size: number, nowMs: number): void {
+    const book = tokenId === ctx.yesTokenId ? ctx.yesBook : ctx.noBook;
+    const plan = planFill(book?.bids, "SELL", size, { maxSlippage: this.config.maxSlippage });
+    if (!plan) return;
+    const fill = simulateFill(book, "SELL", plan.limitPrice, size);
+    if (fill.filledSize <= 0) return;
+    this.recordSell(tokenId, slug, fill.avgPrice, fill.filledSize, nowMs, "NegRisk 单腿解除");
+    this.tracker.recordSell(tokenId, fill.filledSize, fill.avgPrice);
+  }
+
+  /** 止盈挂单：与 runner 一致，代币到账（最小持有时间）后才挂出；买一触及挂单价即成交 */
+  private fillTakeProfits(ctx: MarketContext, slug: string, nowMs: number): void {
+    for (const pos of this.tracker.getTakeProfitPositions()) {
+      const tp = pos.takeProfit!;
+      if (pos.marketSlug !== slug || nowMs - pos.entryTime < SCALP_PARAMS.minHoldBeforeSellMs) continue;
+      const book = pos.tokenId === ctx.yesTokenId ? ctx.yesBook : ctx.noBook;
+      const fill = simulateFill(book, "SELL", tp.price, Math.min(tp.size - tp.filled, this.heldSize(pos.tokenId)));
+      if (fill.filledSize <= 0) continue;
+      // 挂单是 maker：按挂单价成交，而非当前买一
+      this.recordSell(pos.tokenId, slug, tp.price, fill.filledSize, nowMs, `止盈单 @${tp.price}`, true);
+      this.tracker.recordTakeProfitFill(pos.tokenId, tp.filled + fill.filledSize);
+    }
+  }
+
+  private buy(book: OrderBookSummary | null, tokenId: string, limitPrice: number, size: number) {
+    const fill = simulateFill(book, "BUY", limitPrice, size);
+    const fee = tradeFee(fill.avgPrice, fill.filledSize, this.feeBps(tokenId, false));
+    if (fill.filledSize > 0 && fill.avgPrice * fill.filledSize + fee > this.cash + 1e-9) {
+      return { filledSize: 0, avgPrice: 0 };
+    }
+    return fill;
+  }
+
+  private recordBuy(
+    tokenId: string,
+    slug: string,
+    strategy: string,
+    outcome: "up" | "down",
+    price: number,
+    size: number,
+    ts: number,
+    reason: string
+  ): void {
+    const fee = tradeFee(price, size, this.feeBps(tokenId, false));
+    this.cash -= price * size + fee;
+    this.totalFees += fee;
+    this.tracker.recordBuy(tokenId, outcome, price, size, slug, strategy, ts);
+    const label = strategy.toUpperCase();
+    const lots = this.lots.get(tokenId) ?? [];
+    lots.push({ strategy: label, outcome, slug, entryTs: ts, size, cost: price * size + fee });
+    this.lots.set(tokenId, lots);
+    this.fills.push({ ts, slug, strategy: label, side: "BUY", outcome, price, size, fee, reason });
+  }
+
+  private recordSell(tokenId: string, slug: string, price: number, size: number, ts: number, reason: string, maker = false): void {
+    const fee = tradeFee(price, size, this.feeBps(tokenId, maker));
+    this.cash += price * size - fee;
+    this.totalFees += fee;
+    const closed = this.closeLots(tokenId, size, price, ts, "SCALP", fee);
+    const strategy = closed[0]?.strategy ?? "";
+    const outcome = closed[0]?.outcome ?? "up";
+    this.fills.push({ ts, slug, strategy, side: "SELL", outcome, price, size, fee, reason });
+  }
+
+  private feeBps(tokenId: string, maker: boolean): number {
+    const rates = this.feeRates.get(tokenId);
+    if (!rates) return 0;
+    return maker ? rates.makerBps : rates.takerBps;
+  }
+
+  /** 按先进先出平掉持有批次，生成完整交易记录；exitFee 为本次卖出手续费，按张数分摊到各批次 */
+  private closeLots(tokenId: string, size: number, exitPrice: number, ts: number, exit: "SCALP" | "SETTLE", exitFee = 0): BacktestTrade[] {
+    const lots = this.lots.get(tokenId) ?? [];
+    const closed: BacktestTrade[] = [];
+    let remaining = size;
+    while (remaining > 1e-9 && lots.length > 0) {
+      const lot = lots[0];
+      const take = Math.min(remaining, lot.size);
+      const entryPrice = lot.cost / lot.size;
+      const trade: BacktestTrade = {
+        slug: lot.slug,
+        strategy: lot.strategy,
+        outcome: lot.outcome,
+        entryTs: lot.entryTs,
+        exitTs: ts,
+        entryPrice,
+        exitPrice,
+        size: take,
+        pnl: (exitPrice - entryPrice) * take - (size > 0 ? (exitFee * take) / size : 0),
+        exit,
+      };
+      closed.push(trade);
+      this.trades.push(trade);
+      lot.cost -= entryPrice * take;
+      lot.size -= take;
+      remaining -= take;
+      if (lot.size <= 1e-9) lots.shift();
+    }
+    if (lots.length === 0) this.lots.delete(tokenId);
+    return closed;
+  }
+
+  private heldSize(tokenId: string): number {
+    return (this.lots.get(tokenId) ?? []).reduce((a, l) => a + l.size, 0);
+  }
+
+  private hasHoldings(m: TrackedMarket): boolean {
+    return this.heldSize(m.yesTokenId) > 1e-9 || this.heldSize(m.noTokenId) > 1e-9;
+  }
+
+  private settleDue(nowMs: number): void {
+    for (const m of this.markets.values()) {
+      if (m.settled || !m.endMs || nowMs < m.endMs) continue;
+      m.settled = true;
+      if (!this.hasHoldings(m)) {
+        this.forgetMarket(m);
+        continue;
+      }
+
+      const startPrice = this.officialStartPrices.get(m.market.conditionId || m.slug || m.market.id) || m.refStartPrice || 0;
+      const endPrice = this.prices.price(m.asset);
+      if (!startPrice || endPrice <= 0) {
+        // 持仓保留在 lots 中，报告里列为未结算
+        console.warn(`[Backtest] ${m.slug} 缺少起点/终点 ${m.asset.toUpperCase()} 价，无法结算`);
+        continue;
+      }
+      const winner: "up" | "down" = endPrice >= startPrice ? "up" : "down";
+      const winToken = winner === "up" ? m.yesTokenId : m.noTokenId;
+      let payout = 0;
+      for (const tokenId of [m.yesTokenId, m.noTokenId]) {
+        const size = this.heldSize(tokenId);
+        if (size <= 1e-9) continue;
+        const exitPrice = tokenId === winToken ? 1 : 0;
+        payout += exitPrice * size;
+        this.closeLots(tokenId, size, exitPrice, m.endMs, "SETTLE");
+      }
+      this.cash += payout;
+      this.settlements.push({ ts: m.endMs, slug: m.slug, asset: m.asset, winner, startPrice, endPrice, payout });
+      this.forgetMarket(m);
+    }
+  }
+
+  /** 已结算市场不再需要跟踪（回放数周数据时避免内存持续增长） */
+  private forgetMarket(m: TrackedMarket): void {
+    this.markets.delete(m.slug);
+    this.lastBooks.delete(m.yesTokenId);
+    this.lastBooks.delete(m.noTokenId);
+    this.feeRates.delete(m.yesTokenId);
+    this.feeRates.delete(m.noTokenId);
+  }
+
+  /** 逐笔轮询后按买一价估值持仓，记录权益峰值与最大回撤 */
+  private updateEquity(): void {
+    let equity = this.cash;
+    for (const [tokenId, lots] of this.lots.entries()) {
+      const bid = this.lastBooks.get(tokenId)?.bids?.[0];
+      const price = bid ? parseFloat(bid.price) : 0;
+      equity += lots.reduce((a, l) => a + l.size, 0) * price;
+    }
+    if (equity > this.peakEquity) this.peakEquity = equity;
+    const dd = this.peakEquity - equity;
+    if (dd > this.maxDrawdown) {
+      this.maxDrawdown = dd;
+      this.maxDrawdownPct = this.peakEquity > 0 ? dd / this.peakEquity : 0;
+    }
+  }
+}
+
+export async function runBacktest(events: AsyncIterable<ReplayEvent>, options: BacktestOptions): Promise<BacktestReport> {
+  const bt = new Backtester(options);
+  for await (const ev of events) bt.handle(ev);
+  return bt.finish();
+}
+
+export function formatReport(report: BacktestReport): string {
+  const lines: string[] = [];
+  const fmtTime = (ms: number) => (ms ? new Date(ms).toLocaleString("zh-CN") : "-");
+  lines.push("========== 回测报告 ==========");
+  lines.push(`数据区间: ${fmtTime(report.firstTs)} ~ ${fmtTime(report.lastTs)}`);
+  lines.push(`初始: $${report.startBalance.toFixed(2)} → 结束: $${report.endBalance.toFixed(2)} | PnL ${report.pnl >= 0 ? "+" : ""}$${report.pnl.toFixed(2)}`);
+  if (report.fees > 0) lines.push(`手续费: $${report.fees.toFixed(2)}（已计入 PnL）`);
+  lines.push(`最大回撤: $${report.maxDrawdown.toFixed(2)} (${(report.maxDrawdownPct * 100).toFixed(1)}%)`);
+  lines.push(`成交 ${report.fills.length} 笔 | 完整交易 ${report.trades.length} 笔 | 结算市场 ${report.settlements.length} 个`);
+  lines.push("");
+  lines.push("【按策略】");
+  for (const [name, s] of Object.entries(report.byStrategy)) {
+    const winRate = s.trades ? ((s.wins / s.trades) * 100).toFixed(0) : "-";
+    lines.push(`  ${name.padEnd(8)} ${s.trades} 笔 | 胜率 ${winRate}% | PnL ${s.pnl >= 0 ? "+" : ""}$${s.pnl.toFixed(2)}`);
+  }
+  lines.push("");
+  lines.push("【交易明细】");
+  for (const t of report.trades) {
+    const time = new Date(t.entryTs).toLocaleTimeString("zh-CN");
+    const hold = Math.round((t.exitTs - t.entryTs) / 1000);
+    lines.push(
+      `  ${time} ${t.strategy.padEnd(8)} ${t.outcome.toUpperCase().padEnd(4)} ${t.size.toFixed(2)}@${t.entryPrice.toFixed(2)} → ${t.exit === "SETTLE" ? "结算" : "卖出"}@${t.exitPrice.toFixed(2)} ` +
+        `${t.pnl >= 0 ? "+" : ""}$${t.pnl.toFixed(2)} (${hold}s) | ${t.slug.slice(0, 30)}`
+    );
+  }
+  if (report.settlements.length > 0) {
+    lines.push("");
+    lines.push("【结算】");
+    for (const s of report.settlements) {
+      const fmt = (p: number) => p.toFixed(p >= 100 ? 0 : 4);
+      lines.push(`  ${s.slug.slice(0, 30)} 赢方=${s.winner.toUpperCase()} ${s.asset.toUpperCase()} $${fmt(s.startPrice)} → $${fmt(s.endPrice)} | 兑付 $${s.payout.toFixed(2)}`);
+    }
+  }
+  if (report.unsettledMarkets.length > 0) {
+    lines.push("");
+    lines.push(`⚠ 未结算（数据不足）: ${report.unsettledMarkets.join(", ")}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,53 @@
+/**
+ * 回放数据读取：支持 .ndjson / .jsonl 及其 .gz 压缩文件，目录则按文件名顺序读取
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import * as zlib from "zlib";
+import type { ReplayEvent } from "./types.js";
+
+const DATA_FILE_RE = /\.(ndjson|jsonl)(\.gz)?$/;
+
+/** 展开输入路径：目录 → 目录下的数据文件（按文件名排序，文件名带时间戳即按时间顺序） */
+export function expandReplayPaths(inputs: string[]): string[] {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const stat = fs.statSync(input);
+    if (stat.isDirectory()) {
+      const names = fs.readdirSync(input).filter((n) => DATA_FILE_RE.test(n)).sort();
+      files.push(...names.map((n) => path.join(input, n)));
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+export async function* readReplayEvents(inputs: string[]): AsyncGenerator<ReplayEvent> {
+  for (const file of expandReplayPaths(inputs)) {
+    const raw = fs.createReadStream(file);
+    const stream = file.endsWith(".gz") ? raw.pipe(zlib.createGunzip()) : raw;
+    const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    // 进程崩溃时 gzip 文件可能未正常收尾：解压报错时读到哪算哪
+    let streamError: Error | null = null;
+    stream.on("error", (e: Error) => {
+      streamError = e;
+      rl.close();
+    });
+    let lineNo = 0;
+    for await (const line of rl) {
+      lineNo++;
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as ReplayEvent;
+      } catch {
+        console.warn(`[Replay] ${path.basename(file)}:${lineNo} 解析失败，跳过`);
+      }
+    }
+    if (streamError) {
+      console.warn(`[Replay] ${path.basename(file)} 读取中断于第 ${lineNo} 行: ${(streamError as Error).message}`);
+    }
+  }
+}
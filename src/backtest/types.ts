@@ -0,0 +1,53 @@
+/**
+ * 回测/回放数据格式：每行一个 JSON 事件（newline-delimited JSON，可 gzip 压缩）
+ *
+ * - markets：一次市场刷新结果（getUpDownMarketsFor，多标的 / 多窗口合并）
+ * - books：一次 getOrderBooks 拉取的全部订单簿（回放时视为 runner 的一次轮询）
+ * - btc：一条 OKX 标的行情（asset 缺省为 btc）
+ * - start_price：runner 记录的市场起点价（先记首见价，官方起点价取到后再记一条，以后者为准；official 标记官方起点价）
+ * - oracle：一条结算源价格（Chainlink，见 api/oracle-feed.ts）
+ */
+
+import type { OrderBookSummary } from "../api/clob.js";
+import type { Btc15mResult } from "../api/gamma.js";
+
+export interface MarketsEvent {
+  kind: "markets";
+  ts: number;
+  result: Btc15mResult;
+}
+
+export interface BooksEvent {
+  kind: "books";
+  ts: number;
+  books: OrderBookSummary[];
+}
+
+export interface BtcTickEvent {
+  kind: "btc";
+  ts: number;
+  price: number;
+  asset?: string;      // 标的：eth / sol / xrp，缺省 btc
+  exchangeTs?: number; // 交易所推送里的时间戳（ts 为本地接收时间）
+}
+
+export interface StartPriceEvent {
+  kind: "start_price";
+  ts: number;
+  marketKey: string;
+  slug: string;
+  price: number;
+  /** 官方起点价（K 线开盘价）；旧录制无此字段，同一市场的第二条即官方起点价 */
+  official?: boolean;
+}
+
+export interface OracleEvent {
+  kind: "oracle";
+  ts: number;
+  source: string;      // chainlink / binance
+  asset: string;
+  price: number;
+  exchangeTs?: number;
+}
+
+export type ReplayEvent = MarketsEvent | BooksEvent | BtcTickEvent | StartPriceEvent | OracleEvent;
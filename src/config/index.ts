@@ -2,6 +2,11 @@
  * 配置模块：从环境变量加载，集中管理
  */
 
+import { isUpDownAsset, isUpDownInterval, UPDOWN_ASSETS, INTERVAL_SECONDS } from "../api/gamma.js";
+import type { UpDownAsset, UpDownInterval } from "../api/gamma.js";
+import { isPriceVenue, PRICE_VENUES } from "../api/price-feed.js";
+import type { PriceIndexMethod, PriceVenue } from "../api/price-feed.js";
+
 export interface EnvConfig {
   // Polymarket
   privateKey: string;
@@ -11,6 +16,9 @@ export interface EnvConfig {
   polySecret?: string;
   polyPassphrase?: string;
 
+  // 启用的策略（顺序即优先级）：trend, endgame, neg_risk, ev_arb, latency, mm
+  strategies: string[];
+
   // 策略开关
   strategyLatencyArb: boolean;
   strategyNegRiskArb: boolean;
@@ -21,6 +29,7 @@ export interface EnvConfig {
 
   // 负风险套利
   negRiskMaxSum: number;
+  negRiskLegTimeoutMs: number; // 单腿成交后补齐另一腿的时限，到期卖出多出部分
 
   // 末日轮
   evArbLastSeconds: number;
@@ -29,6 +38,16 @@ export interface EnvConfig {
   orderSizeMin: number;   // 单笔最小（低于此不下单）
   orderSizeMax: number;   // 单笔最大（超出按此截断）
 
+  // 仓位计算（TREND / ENDGAME / NegRisk）：fixed | fraction | kelly | volatility，见 strategies/sizing.ts
+  sizingPolicy: "fixed" | "fraction" | "kelly" | "volatility";
+  sizingFraction: number;        // fraction / volatility：每笔占余额比例
+  sizingKellyMultiplier: number; // kelly：分数凯利系数
+  sizingVolTargetUsd: number;    // volatility：BTC 60 秒波幅基准（美元），波幅越大仓位越小
+  maxPositionPct: number;        // 单市场上限随余额放大：max(MAX_POSITION_PER_MARKET, 余额 × 比例)，0 = 固定
+
+  // 多档成交（见 execution/planner.ts）：入场/出场最差一档相对买一/卖一的最大偏离（价格单位），0 = 只吃一档
+  maxSlippage: number;
+
   // EV arb 最低安全垫 (BTC 距起点至少偏离多少美元)
   evMinDiffUsd: number;
   // EV arb 最低边际 (理论概率 - 市场价 至少差多少)
@@ -41,36 +60,153 @@ export interface EnvConfig {
   btc15MinTagId: string;
   btc15MinSlug: string;
 
+  // 交易的 Up/Down 市场：标的 × 窗口，一个 runner 同时交易（缺省 BTC + BTC_MARKET_MODE）
+  marketAssets: UpDownAsset[];
+  marketIntervals: UpDownInterval[];
+
+  // 参考价：多交易所聚合（见 api/price-feed.ts），剔除过期 / 偏离中位数的交易所后取中位数或加权平均
+  priceFeeds: PriceVenue[];
+  priceFeedIndex: PriceIndexMethod;
+  priceFeedWeights: Partial<Record<PriceVenue, number>>;
+  priceFeedStaleMs: number;
+  priceFeedMaxDeviationPct: number; // 相对中位数，如 0.002 = 0.2%
+
+  // 行情健康（见 api/feed-health.ts）：连接静默多久强制重连；参考价 / 订单簿超过多久未更新时不开新仓（出场照常）
+  feedSilenceMs: number;
+  maxPriceAgeMs: number;
+  maxBookAgeMs: number;
+
+  // 定价模型（见 strategies/pricing.ts）：实现波动率样本不足时的日化默认值、EWMA 半衰期（秒）
+  volDefaultDaily: number;
+  volHalfLifeSec: number;
+
+  // 被动做市 mm（见 strategies/market-maker.ts）：围绕公允价挂 postOnly 单，按 MM 净库存偏移报价
+  mmHalfSpread: number;    // 报价距保留价的半价差（价格单位）
+  mmQuoteSize: number;     // 每个报价的张数
+  mmMaxInventory: number;  // 单市场净库存上限（Up 张数 − Down 张数的绝对值）
+  mmSkewPerShare: number;  // 每张净库存的保留价偏移
+  mmPullSeconds: number;   // 剩余多少秒内撤掉全部报价
+  mmPullMoveUsd: number;   // 10 秒内标的跳动多少美元撤掉全部报价（按 BTC 标定）
+
+  // 结算源价格（见 api/oracle-feed.ts）：chainlink = Polymarket RTDS；local = 测试替身（聚合价 × (1 + 偏移)）；off = 不考虑基差
+  oracleFeed: "chainlink" | "local" | "off";
+  oracleLocalOffsetPct: number;
+
   // 巩固/加强：入场与仓位（可 .env 覆盖）
   trendMinBid: number;        // TREND 入场：赢方 bid 至少多少（提高=少而准）
+  trendMinEdge: number;       // TREND 入场：公允价 − ask − 手续费至少多少（见 strategies/pricing.ts）
   endgameMaxAsk: number;      // ENDGAME 入场：ask 不超过多少（提高=多接末日轮）
   maxPositionPerMarket: number;  // 单市场最大占用 USDC
   maxTradesPerWindow: number;    // 单窗口最多几笔
+
+  // 模拟盘：用实时订单簿撮合，不动真钱
+  paperTrading: boolean;
+  paperStartBalance: number;     // 模拟盘初始 USDC
+
+  // 行情录制：非空时把订单簿/BTC/市场列表写入该目录（供回测与复盘）
+  recordDir: string;
+
+  // 交易日志（订单/成交/持仓/起点价/冷却），重启时回放恢复；空 = 关闭。模拟盘缺省写 paper-journal
+  journalFile: string;
+
+  // 启动对账：检查最近多少小时内市场的代币余额（接管遗留持仓 / 列出待兑付），0 = 关闭
+  reconcileLookbackHours: number;
+
+  // 全局风控（0 = 关闭）：日内已实现亏损上限、权益回撤上限（0–1）、连续亏损暂停、全局敞口上限
+  dailyLossLimit: number;
+  maxDrawdownPct: number;
+  maxConsecutiveLosses: number;
+  consecutiveLossPauseMs: number;
+  maxTotalExposure: number;
+
+  // 自动兑付：持有的市场结算后调用 CTF / NegRiskAdapter redeemPositions 换回 USDC（模拟盘按结算结果模拟，不上链）
+  autoRedeem: boolean;
+  polygonRpcUrl: string;
+
+  // 订单簿走 CLOB market WebSocket（断线时回退 REST 轮询）；false = 只用 REST
+  clobWs: boolean;
+
+  // 挂单管理：未成交买单超时撤单（毫秒）；追价最多上移几个 tick（0 = 不追价）
+  orderBuyTimeoutMs: number;
+  orderChaseMaxTicks: number;
 }
 
 const defaultConfig: EnvConfig = {
   privateKey: "",
   funderAddress: "",
   signatureType: 2,
+  strategies: ["trend", "endgame", "neg_risk", "ev_arb"],
   strategyLatencyArb: true,
   strategyNegRiskArb: true,
   strategyEvArb: true,
   latencyPriceJumpThreshold: 30,
   negRiskMaxSum: 0.98,
+  negRiskLegTimeoutMs: 5000,
   evArbLastSeconds: 120,
   orderSizeMin: 5,
   orderSizeMax: 50,
+
+  sizingPolicy: "fixed",
+  sizingFraction: 0.1,
+  sizingKellyMultiplier: 0.25,
+  sizingVolTargetUsd: 40,
+  maxPositionPct: 0,
+  maxSlippage: 0.02,
   evMinDiffUsd: 80,
   evMinEdge: 0.10,
   latencyMinJumpUsd: 80,
   btcMarketMode: "15m",
   btc15MinTagId: "",
   btc15MinSlug: "",
+  marketAssets: ["btc"],
+  marketIntervals: ["15m"],
+  priceFeeds: ["okx", "binance", "coinbase", "bybit"],
+  priceFeedIndex: "median",
+  priceFeedWeights: {},
+  priceFeedStaleMs: 5000,
+  priceFeedMaxDeviationPct: 0.002,
+  feedSilenceMs: 15000,
+  maxPriceAgeMs: 5000,
+  maxBookAgeMs: 5000,
+  volDefaultDaily: 0.02,
+  volHalfLifeSec: 300,
+  mmHalfSpread: 0.02,
+  mmQuoteSize: 10,
+  mmMaxInventory: 50,
+  mmSkewPerShare: 0.0005,
+  mmPullSeconds: 60,
+  mmPullMoveUsd: 40,
+  oracleFeed: "chainlink",
+  oracleLocalOffsetPct: 0,
 
   trendMinBid: 0.65,
+  trendMinEdge: 0.03,
   endgameMaxAsk: 0.95,
   maxPositionPerMarket: 8,
   maxTradesPerWindow: 2,
+
+  paperTrading: false,
+  paperStartBalance: 100,
+
+  recordDir: "",
+
+  journalFile: "data/journal.ndjson",
+
+  reconcileLookbackHours: 24,
+
+  dailyLossLimit: 0,
+  maxDrawdownPct: 0,
+  maxConsecutiveLosses: 3,
+  consecutiveLossPauseMs: 30 * 60_000,
+  maxTotalExposure: 0,
+
+  autoRedeem: true,
+  polygonRpcUrl: "https://polygon-rpc.com",
+
+  clobWs: true,
+
+  orderBuyTimeoutMs: 15_000,
+  orderChaseMaxTicks: 0,
 };
 
 function parseBool(val: string | undefined, def: boolean): boolean {
@@ -78,13 +214,66 @@ function parseBool(val: string | undefined, def: boolean): boolean {
   return /^(1|true|yes)$/i.test(val.trim());
 }
 
+function parseList(val: string | undefined): string[] | null {
+  if (val === undefined || val.trim() === "") return null;
+  return val.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+}
+
 function parseNum(val: string | undefined, def: number): number {
   if (val === undefined || val === "") return def;
   const n = Number(val);
   return Number.isFinite(n) ? n : def;
 }
 
+const SIZING_POLICIES = ["fixed", "fraction", "kelly", "volatility"] as const;
+
+function parseSizingPolicy(val: string | undefined): EnvConfig["sizingPolicy"] {
+  const v = val?.trim().toLowerCase();
+  if (!v) return defaultConfig.sizingPolicy;
+  if ((SIZING_POLICIES as readonly string[]).includes(v)) return v as EnvConfig["sizingPolicy"];
+  console.warn(`[Config] 未知 SIZING_POLICY "${val}"，使用 ${defaultConfig.sizingPolicy}（可选: ${SIZING_POLICIES.join(", ")}）`);
+  return defaultConfig.sizingPolicy;
+}
+
+/** 逗号分隔列表，过滤未知值（告警）；为空时返回 null */
+function parseChoices<T extends string>(name: string, val: string | undefined, isValid: (v: string) => v is T, options: string[]): T[] | null {
+  const list = parseList(val);
+  if (!list) return null;
+  const out: T[] = [];
+  for (const v of list) {
+    if (!isValid(v)) {
+      console.warn(`[Config] 未知 ${name} "${v}"，已忽略（可选: ${options.join(", ")}）`);
+      continue;
+    }
+    if (!out.includes(v)) out.push(v);
+  }
+  return out.length > 0 ? out : null;
+}
+
+/** PRICE_FEED_WEIGHTS：venue:权重，逗号分隔（如 okx:2,binance:1），未列出的按 1 */
+function parseVenueWeights(val: string | undefined): Partial<Record<PriceVenue, number>> {
+  const out: Partial<Record<PriceVenue, number>> = {};
+  for (const item of parseList(val) ?? []) {
+    const [venue, w] = item.split(":");
+    const weight = parseFloat(w ?? "");
+    if (!isPriceVenue(venue) || !Number.isFinite(weight) || weight < 0) {
+      console.warn(`[Config] 无效 PRICE_FEED_WEIGHTS 项 "${item}"，已忽略`);
+      continue;
+    }
+    out[venue] = weight;
+  }
+  return out;
+}
+
 export function loadConfig(env: NodeJS.ProcessEnv = process.env): EnvConfig {
+  const strategyNegRiskArb = parseBool(env.STRATEGY_NEG_RISK_ARB, defaultConfig.strategyNegRiskArb);
+  const strategyEvArb = parseBool(env.STRATEGY_EV_ARB, defaultConfig.strategyEvArb);
+  // 未设置 STRATEGIES 时：TREND + ENDGAME (+ NegRisk / EV，分别受 STRATEGY_NEG_RISK_ARB / STRATEGY_EV_ARB 控制)
+  const strategies = parseList(env.STRATEGIES)
+    ?? defaultConfig.strategies.filter((s) => (s !== "neg_risk" || strategyNegRiskArb) && (s !== "ev_arb" || strategyEvArb));
+
+  const btcMarketMode: EnvConfig["btcMarketMode"] = env.BTC_MARKET_MODE === "5m" ? "5m" : "15m";
+
   return {
     privateKey: env.PRIVATE_KEY ?? defaultConfig.privateKey,
     funderAddress: env.POLYMARKET_FUNDER_ADDRESS ?? defaultConfig.funderAddress,
@@ -93,30 +282,86 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): EnvConfig {
     polySecret: env.POLY_SECRET,
     polyPassphrase: env.POLY_PASSPHRASE,
 
+    strategies,
     strategyLatencyArb: parseBool(env.STRATEGY_LATENCY_ARB, defaultConfig.strategyLatencyArb),
-    strategyNegRiskArb: parseBool(env.STRATEGY_NEG_RISK_ARB, defaultConfig.strategyNegRiskArb),
-    strategyEvArb: parseBool(env.STRATEGY_EV_ARB, defaultConfig.strategyEvArb),
+    strategyNegRiskArb,
+    strategyEvArb,
 
     latencyPriceJumpThreshold: parseNum(env.LATENCY_PRICE_JUMP_THRESHOLD, defaultConfig.latencyPriceJumpThreshold),
     negRiskMaxSum: parseNum(env.NEG_RISK_MAX_SUM, defaultConfig.negRiskMaxSum),
+    negRiskLegTimeoutMs: parseNum(env.NEG_RISK_LEG_TIMEOUT_MS, defaultConfig.negRiskLegTimeoutMs),
     evArbLastSeconds: parseNum(env.EV_ARB_LAST_SECONDS, defaultConfig.evArbLastSeconds),
 
     orderSizeMin: parseNum(env.ORDER_SIZE_MIN, defaultConfig.orderSizeMin),
     orderSizeMax: parseNum(env.ORDER_SIZE_MAX, defaultConfig.orderSizeMax),
 
+    sizingPolicy: parseSizingPolicy(env.SIZING_POLICY),
+    sizingFraction: parseNum(env.SIZING_FRACTION, defaultConfig.sizingFraction),
+    sizingKellyMultiplier: parseNum(env.SIZING_KELLY_MULTIPLIER, defaultConfig.sizingKellyMultiplier),
+    sizingVolTargetUsd: parseNum(env.SIZING_VOL_TARGET_USD, defaultConfig.sizingVolTargetUsd),
+    maxPositionPct: parseNum(env.MAX_POSITION_PCT, defaultConfig.maxPositionPct),
+    maxSlippage: Math.max(0, parseNum(env.MAX_SLIPPAGE, defaultConfig.maxSlippage)),
+
     evMinDiffUsd: parseNum(env.EV_MIN_DIFF_USD, defaultConfig.evMinDiffUsd),
     evMinEdge: parseNum(env.EV_MIN_EDGE, defaultConfig.evMinEdge),
     // 延迟套利：优先 LATENCY_MIN_JUMP_USD，否则用 LATENCY_PRICE_JUMP_THRESHOLD
     latencyMinJumpUsd: parseNum(env.LATENCY_MIN_JUMP_USD ?? env.LATENCY_PRICE_JUMP_THRESHOLD, defaultConfig.latencyMinJumpUsd),
 
-    btcMarketMode: (env.BTC_MARKET_MODE === "5m" ? "5m" : "15m") as "15m" | "5m",
+    btcMarketMode,
     btc15MinTagId: env.BTC_15MIN_TAG_ID ?? defaultConfig.btc15MinTagId,
     btc15MinSlug: env.BTC_15MIN_SLUG ?? defaultConfig.btc15MinSlug,
+    marketAssets: parseChoices("MARKET_ASSETS", env.MARKET_ASSETS, isUpDownAsset, Object.keys(UPDOWN_ASSETS))
+      ?? defaultConfig.marketAssets,
+    marketIntervals: parseChoices("MARKET_INTERVALS", env.MARKET_INTERVALS, isUpDownInterval, Object.keys(INTERVAL_SECONDS))
+      ?? [btcMarketMode],
+    priceFeeds: parseChoices("PRICE_FEEDS", env.PRICE_FEEDS, isPriceVenue, PRICE_VENUES) ?? defaultConfig.priceFeeds,
+    priceFeedIndex: env.PRICE_FEED_INDEX === "weighted" ? "weighted" : defaultConfig.priceFeedIndex,
+    priceFeedWeights: parseVenueWeights(env.PRICE_FEED_WEIGHTS),
+    priceFeedStaleMs: parseNum(env.PRICE_FEED_STALE_MS, defaultConfig.priceFeedStaleMs),
+    priceFeedMaxDeviationPct: parseNum(env.PRICE_FEED_MAX_DEVIATION_PCT, defaultConfig.priceFeedMaxDeviationPct),
+    feedSilenceMs: parseNum(env.FEED_SILENCE_MS, defaultConfig.feedSilenceMs),
+    maxPriceAgeMs: parseNum(env.MAX_PRICE_AGE_MS, defaultConfig.maxPriceAgeMs),
+    maxBookAgeMs: parseNum(env.MAX_BOOK_AGE_MS, defaultConfig.maxBookAgeMs),
+    volDefaultDaily: parseNum(env.VOL_DEFAULT_DAILY, defaultConfig.volDefaultDaily),
+    volHalfLifeSec: parseNum(env.VOL_HALF_LIFE_SEC, defaultConfig.volHalfLifeSec),
+    mmHalfSpread: parseNum(env.MM_HALF_SPREAD, defaultConfig.mmHalfSpread),
+    mmQuoteSize: parseNum(env.MM_QUOTE_SIZE, defaultConfig.mmQuoteSize),
+    mmMaxInventory: parseNum(env.MM_MAX_INVENTORY, defaultConfig.mmMaxInventory),
+    mmSkewPerShare: parseNum(env.MM_SKEW_PER_SHARE, defaultConfig.mmSkewPerShare),
+    mmPullSeconds: parseNum(env.MM_PULL_SECONDS, defaultConfig.mmPullSeconds),
+    mmPullMoveUsd: parseNum(env.MM_PULL_MOVE_USD, defaultConfig.mmPullMoveUsd),
+    oracleFeed: env.ORACLE_FEED === "local" || env.ORACLE_FEED === "off" ? env.ORACLE_FEED : defaultConfig.oracleFeed,
+    oracleLocalOffsetPct: parseNum(env.ORACLE_LOCAL_OFFSET_PCT, defaultConfig.oracleLocalOffsetPct),
 
     trendMinBid: parseNum(env.TREND_MIN_BID, defaultConfig.trendMinBid),
+    trendMinEdge: parseNum(env.TREND_MIN_EDGE, defaultConfig.trendMinEdge),
     endgameMaxAsk: parseNum(env.ENDGAME_MAX_ASK, defaultConfig.endgameMaxAsk),
     maxPositionPerMarket: parseNum(env.MAX_POSITION_PER_MARKET, defaultConfig.maxPositionPerMarket),
     maxTradesPerWindow: parseNum(env.MAX_TRADES_PER_WINDOW, defaultConfig.maxTradesPerWindow),
+
+    paperTrading: parseBool(env.PAPER_TRADING, defaultConfig.paperTrading),
+    paperStartBalance: parseNum(env.PAPER_START_BALANCE, defaultConfig.paperStartBalance),
+
+    recordDir: env.RECORD_DIR ?? defaultConfig.recordDir,
+
+    journalFile: env.JOURNAL_FILE
+      ?? (parseBool(env.PAPER_TRADING, defaultConfig.paperTrading) ? "data/paper-journal.ndjson" : defaultConfig.journalFile),
+
+    reconcileLookbackHours: parseNum(env.RECONCILE_LOOKBACK_HOURS, defaultConfig.reconcileLookbackHours),
+
+    dailyLossLimit: parseNum(env.DAILY_LOSS_LIMIT, defaultConfig.dailyLossLimit),
+    maxDrawdownPct: parseNum(env.MAX_DRAWDOWN_PCT, defaultConfig.maxDrawdownPct),
+    maxConsecutiveLosses: parseNum(env.MAX_CONSECUTIVE_LOSSES, defaultConfig.maxConsecutiveLosses),
+    consecutiveLossPauseMs: parseNum(env.CONSECUTIVE_LOSS_PAUSE_MS, defaultConfig.consecutiveLossPauseMs),
+    maxTotalExposure: parseNum(env.MAX_TOTAL_EXPOSURE, defaultConfig.maxTotalExposure),
+
+    autoRedeem: parseBool(env.AUTO_REDEEM, defaultConfig.autoRedeem),
+    polygonRpcUrl: env.POLYGON_RPC_URL || defaultConfig.polygonRpcUrl,
+
+    clobWs: parseBool(env.CLOB_WS, defaultConfig.clobWs),
+
+    orderBuyTimeoutMs: parseNum(env.ORDER_BUY_TIMEOUT_MS, defaultConfig.orderBuyTimeoutMs),
+    orderChaseMaxTicks: parseNum(env.ORDER_CHASE_MAX_TICKS, defaultConfig.orderChaseMaxTicks),
   };
 }
 
@@ -1,82 +1,98 @@
 /**
  * 执行层：将策略信号转为 Polymarket 下单
+ *
+ * 下单类型按信号选择：信号带 orderType 时照用，否则止损/止盈出场为 FAK（立即扫单，剩余撤销），
+ * 其余为 GTC。GTD 在市场结束时失效，需传入 marketEndMs
+ * 每条腿提交前按市场参数对齐价格/数量（tick、2 位小数、最小下单量），不合法的不提交
+ * neg_risk 两腿不在此执行：由 pair-executor 处理单腿成交（补齐或解除）
  */
 
-import type { PolymarketClient } from "../api/clob.js";
+import { gtdExpirationFor } from "../api/clob.js";
+import type { CreateOrderParams, OrderPostResult, OrderType, PolymarketClient } from "../api/clob.js";
+import { snapOrder } from "../api/market-params.js";
+import type { MarketParams } from "../api/market-params.js";
+import type { FeeRates } from "../risk/fees.js";
 import type { ArbSignal } from "../strategies/types.js";
 
 export interface ExecutionResult {
   ok: boolean;
   orderIds: string[];
   error?: string;
+  /** 下单即撮合的张数与均价（FOK/FAK），未知时按下单数量 / 预期均价记账 */
+  sizeMatched?: number;
+  avgPrice?: number;
+}
+
+/** 信号的下单类型（未指定时按信号类型取缺省） */
+export function orderTypeFor(signal: ArbSignal): OrderType {
+  if (signal.orderType) return signal.orderType;
+  return signal.type === "stop_loss" ? "FAK" : "GTC";
+}
+
+/** 下单所需的市场参数；传入 MarketContext 时费率取其 fees（模拟盘按此扣手续费） */
+export type OrderMarket = MarketParams & { fees?: FeeRates };
+
+/** 对齐价格/数量后提交单笔订单；GTD 按市场结束时间设置过期；postOnly（做市报价）按 maker 费率 */
+export async function postOrder(
+  client: PolymarketClient,
+  params: CreateOrderParams,
+  market: OrderMarket,
+  orderType: OrderType,
+  marketEndMs?: number,
+  postOnly: boolean = false
+): Promise<OrderPostResult> {
+  const snapped = snapOrder(params.price, params.size, params.side, market);
+  if (snapped.error) return { success: false, errorMsg: snapped.error };
+  const order = { ...params, price: snapped.price, size: snapped.size };
+  const feeRateBps = postOnly ? market.fees?.makerBps ?? 0 : market.fees?.takerBps ?? market.feeRateBps;
+  return client.createAndPostOrder(
+    orderType === "GTD" ? { ...order, expiration: gtdExpirationFor(marketEndMs!) } : order,
+    { tickSize: market.tickSize, negRisk: market.negRisk, feeRateBps, ...(postOnly ? { postOnly } : {}) },
+    orderType
+  );
 }
 
 export async function executeSignal(
   client: PolymarketClient | null,
   signal: ArbSignal,
-  tickSize: string,
-  negRisk: boolean
+  market: OrderMarket,
+  marketEndMs?: number
 ): Promise<ExecutionResult> {
   if (!client) {
     return { ok: false, orderIds: [], error: "No Polymarket client" };
   }
 
-  const options = { tickSize, negRisk };
+  const orderType = orderTypeFor(signal);
+  if (orderType === "GTD" && !(marketEndMs && marketEndMs > Date.now())) {
+    return { ok: false, orderIds: [], error: "GTD order requires a future market end time" };
+  }
+  const post = (params: CreateOrderParams) => postOrder(client, params, market, orderType, marketEndMs);
 
-  const toResult = (res: { success: boolean; orderId?: string; errorMsg?: string }): ExecutionResult => ({
+  const toResult = (res: OrderPostResult): ExecutionResult => ({
     ok: res.success === true,  // 严格判断
     orderIds: res.orderId ? [res.orderId] : [],
     error: res.errorMsg,
+    sizeMatched: res.sizeMatched,
+    avgPrice: res.avgPrice,
   });
 
   if (signal.type === "latency") {
-    const res = await client.createAndPostOrder(
-      { tokenID: signal.tokenId, price: signal.price, size: signal.size, side: "BUY" },
-      options,
-      "GTC"
-    );
+    const res = await post({ tokenID: signal.tokenId, price: signal.price, size: signal.size, side: "BUY", avgPrice: signal.avgPrice });
     return toResult(res);
   }
 
   if (signal.type === "neg_risk") {
-    const [yesRes, noRes] = await Promise.all([
-      client.createAndPostOrder(
-        { tokenID: signal.yesTokenId, price: signal.askYes, size: signal.size, side: "BUY" },
-        options,
-        "GTC"
-      ),
-      client.createAndPostOrder(
-        { tokenID: signal.noTokenId, price: signal.askNo, size: signal.size, side: "BUY" },
-        options,
-        "GTC"
-      ),
-    ]);
-    const orderIds: string[] = [];
-    if (yesRes.orderId) orderIds.push(yesRes.orderId);
-    if (noRes.orderId) orderIds.push(noRes.orderId);
-    const ok = yesRes.success === true && noRes.success === true;
-    return {
-      ok,
-      orderIds,
-      error: !ok ? [yesRes.errorMsg, noRes.errorMsg].filter(Boolean).join("; ") : undefined,
-    };
+    // 两腿需处理单腿成交风险，见 execution/pair-executor.ts
+    return { ok: false, orderIds: [], error: "neg_risk signal must be executed with executeNegRiskPair" };
   }
 
   if (signal.type === "ev_arb") {
-    const res = await client.createAndPostOrder(
-      { tokenID: signal.tokenId, price: signal.price, size: signal.size, side: signal.side },
-      options,
-      "GTC"
-    );
+    const res = await post({ tokenID: signal.tokenId, price: signal.price, size: signal.size, side: signal.side, avgPrice: signal.avgPrice });
     return toResult(res);
   }
 
   if (signal.type === "stop_loss") {
-    const res = await client.createAndPostOrder(
-      { tokenID: signal.tokenId, price: signal.price, size: signal.size, side: "SELL" },
-      options,
-      "GTC"
-    );
+    const res = await post({ tokenID: signal.tokenId, price: signal.price, size: signal.size, side: "SELL" });
     return toResult(res);
   }
 
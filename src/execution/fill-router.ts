@@ -0,0 +1,138 @@
+/**
+ * 成交路由：把订单/成交推送（user channel 或模拟盘）按订单归属写入 PositionTracker
+ *
+ * - 下单成功后 expect(orderId, meta) 登记订单归属（策略、市场、方向）
+ * - 吃单成交的推送可能先于下单返回到达：未登记订单的成交先缓存，登记时补记
+ * - BUY：首笔成交 recordBuy（计一笔交易），同一订单后续部分成交 addBuyFill
+ * - SELL：止盈单走 recordTakeProfitFill，其余 recordSell（按成交价计入已实现盈亏）
+ * - maker / taker 费率以成交事件的 liquidity 为准（实盘报价也可能被吃成 taker）
+ * - 成交失败（FAILED）：BUY 经 revertBuy 撤销持仓、花费与成本（订单成交全部失败时退回交易笔数）；SELL 只告警（代币实际仍在，交由对账处理）
+ */
+
+import type { UserEvent, UserFillEvent } from "../api/clob-user-ws.js";
+import type { PositionTracker } from "../risk/position-tracker.js";
+
+export interface OrderMeta {
+  tokenId: string;
+  side: "up" | "down";
+  orderSide: "BUY" | "SELL";
+  marketSlug: string;
+  strategy: string;
+  /** 止盈挂单（成交按止盈进度减仓） */
+  takeProfit?: boolean;
+}
+
+interface TrackedOrder extends OrderMeta {
+  filled: number;
+  registeredAt: number;
+  done: boolean;    // 已撤单
+  counted: boolean; // 已计过交易笔数（追价换单后的新订单沿用）
+}
+
+/** 下单后多久内没有成交推送仍视为“等待成交”（阻止重复下单） */
+const AWAIT_FILL_MS = 10_000;
+/** 未登记订单的成交缓存保留时长 */
+const BUFFER_TTL_MS = 60_000;
+/** 已登记订单保留时长（覆盖挂单的延迟成交） */
+const ORDER_TTL_MS = 3_600_000;
+
+export class FillRouter {
+  private readonly orders = new Map<string, TrackedOrder>();
+  private readonly buffered = new Map<string, { fills: UserFillEvent[]; ts: number }>();
+
+  constructor(private readonly tracker: PositionTracker) {}
+
+  /** 登记订单归属，并补记登记前已到达的成交 */
+  expect(orderId: string, meta: OrderMeta, nowMs: number = Date.now()): void {
+    this.orders.set(orderId, { ...meta, filled: 0, registeredAt: nowMs, done: false, counted: false });
+    this.drainBuffered(orderId);
+  }
+
+  /** 追价换单：新订单沿用旧订单的归属 */
+  transfer(oldOrderId: string, newOrderId: string, nowMs: number = Date.now()): void {
+    const old = this.orders.get(oldOrderId);
+    if (!old) return;
+    old.done = true;
+    this.orders.set(newOrderId, { ...old, filled: 0, registeredAt: nowMs, done: false, counted: old.counted || old.filled > 1e-9 });
+    this.drainBuffered(newOrderId);
+  }
+
+  handle(ev: UserEvent): void {
+    if (ev.kind === "order") {
+      const order = this.orders.get(ev.orderId);
+      if (order && ev.type === "cancellation") order.done = true;
+      return;
+    }
+
+    const order = this.orders.get(ev.orderId);
+    if (!order) {
+      const entry = this.buffered.get(ev.orderId) ?? { fills: [], ts: Date.now() };
+      entry.fills.push(ev);
+      this.buffered.set(ev.orderId, entry);
+      return;
+    }
+    this.applyFill(ev.orderId, ev);
+  }
+
+  /** 是否有刚提交、尚无成交推送的订单（可按 token 或订单归属过滤） */
+  isAwaitingFill(filter?: string | ((order: OrderMeta) => boolean), nowMs: number = Date.now()): boolean {
+    for (const o of this.orders.values()) {
+      if (typeof filter === "string" ? o.tokenId !== filter : filter && !filter(o)) continue;
+      if (!o.done && o.filled <= 1e-9 && nowMs - o.registeredAt < AWAIT_FILL_MS) return true;
+    }
+    return false;
+  }
+
+  /** 订单已成交数量（按推送累计） */
+  filledSize(orderId: string): number {
+    return this.orders.get(orderId)?.filled ?? 0;
+  }
+
+  /** 清理过期缓存与订单记录 */
+  prune(nowMs: number = Date.now()): void {
+    for (const [id, b] of this.buffered) {
+      if (nowMs - b.ts > BUFFER_TTL_MS) this.buffered.delete(id);
+    }
+    for (const [id, o] of this.orders) {
+      if (nowMs - o.registeredAt > ORDER_TTL_MS) this.orders.delete(id);
+    }
+  }
+
+  private drainBuffered(orderId: string): void {
+    const early = this.buffered.get(orderId);
+    if (early) {
+      this.buffered.delete(orderId);
+      for (const f of early.fills) this.applyFill(orderId, f);
+    }
+  }
+
+  private applyFill(orderId: string, f: UserFillEvent): void {
+    const order = this.orders.get(orderId)!;
+    const tag = `[Fill] ${order.strategy.toUpperCase() || "-"} ${order.orderSide}`;
+
+    if (f.kind === "fill_failed") {
+      console.error(`${tag} 成交失败(${f.status}) ${f.size.toFixed(2)}@${f.price} order=${orderId.slice(0, 10)}…`);
+      if (order.orderSide === "BUY") {
+        order.filled = Math.max(0, order.filled - f.size);
+        const uncount = order.counted && order.filled <= 1e-9;
+        if (uncount) order.counted = false;
+        this.tracker.revertBuy(order.tokenId, f.price, f.size, order.marketSlug, uncount, f.liquidity === "maker");
+      }
+      return;
+    }
+
+    if (order.orderSide === "BUY") {
+      const first = !order.counted;
+      order.counted = true;
+      const record = first ? this.tracker.recordBuy.bind(this.tracker) : this.tracker.addBuyFill.bind(this.tracker);
+      record(order.tokenId, order.side, f.price, f.size, order.marketSlug, order.strategy, f.ts, f.liquidity === "maker");
+    } else if (order.takeProfit) {
+      const tp = this.tracker.getPosition(order.tokenId)?.takeProfit;
+      this.tracker.recordTakeProfitFill(order.tokenId, (tp?.filled ?? 0) + f.size, f.price);
+    } else {
+      this.tracker.recordSell(order.tokenId, f.size, f.price, f.liquidity === "maker");
+    }
+    order.filled += f.size;
+    console.log(`${tag} ${order.side.toUpperCase()} ${f.size.toFixed(2)}@${f.price} (${f.status}) 累计 ${order.filled.toFixed(2)}`);
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * 订单生命周期管理：记录每一笔下单返回的 orderId，跟踪到成交或撤单
+ *
+ * - wrap(client)：包装 PolymarketClient，所有 createAndPostOrder 成功的订单自动登记
+ * - 状态来源：user channel 推送（handle）+ 定时 getOrder 轮询兜底（sweep）
+ * - 未成交 GTC/GTD 买单：超过 buyTimeoutMs 或市场窗口结束时撤单
+ * - replace：撤单后按新价格重挂剩余数量（追价，沿用订单类型、GTD 失效时间与 postOnly），chase 按订单簿 ask 上移追价，最多 chaseMaxTicks 个 tick
+ * - getOpenOrders / hasOpenBuy：runner 据此避免挂单未成交时重复入场
+ * - 做市报价（markQuote）由 execution/quoter.ts 自行撤换：不超时撤单、不追价、不计入 hasOpenBuy（窗口结束仍撤）
+ */
+
+import type { CreateOrderParams, OrderBookSummary, OrderOptions, OrderPostResult, OrderType, PolymarketClient } from "../api/clob.js";
+import type { UserEvent } from "../api/clob-user-ws.js";
+import type { GammaMarket } from "../api/gamma.js";
+
+export interface ManagedOrder {
+  orderId: string;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  originPrice: number; // 首次下单价（追价上限以此为基准）
+  size: number;
+  sizeMatched: number;
+  orderType: OrderType;
+  expiration?: number; // GTD 失效时间（unix 秒），改价重挂沿用
+  options: OrderOptions; // 含 postOnly，改价重挂沿用
+  status: "live" | "filled" | "canceled";
+  createdAt: number;
+  updatedAt: number;
+  quote?: boolean; // 做市报价
+}
+
+export interface OrderManagerConfig {
+  /** 未成交买单超时撤单（毫秒） */
+  buyTimeoutMs: number;
+  /** 追价最多上移几个 tick，0 = 不追价 */
+  chaseMaxTicks: number;
+}
+
+/** 挂单多久未成交开始追价 */
+const CHASE_AFTER_MS = 3000;
+/** 无推送时 getOrder 轮询间隔 */
+const POLL_INTERVAL_MS = 5000;
+/** 终态订单保留时长 */
+const DONE_TTL_MS = 600_000;
+
+export class OrderManager {
+  private readonly orders = new Map<string, ManagedOrder>();
+  private readonly tokenMarkets = new Map<string, { slug: string; endMs: number }>();
+  private lastPoll = 0;
+  /** 追价换单回调（旧 orderId → 新 orderId），用于成交归属迁移 */
+  onReplace: ((oldOrderId: string, newOrderId: string) => void) | null = null;
+
+  constructor(
+    private readonly client: PolymarketClient,
+    private readonly config: OrderManagerConfig
+  ) {}
+
+  /** 包装 client：下单成功即登记 */
+  wrap(): PolymarketClient {
+    const inner = this.client;
+    return {
+      ...inner,
+      createAndPostOrder: async (params, options, orderType) => {
+        const res = await inner.createAndPostOrder(params, options, orderType);
+        if (res.success && res.orderId) this.register(res.orderId, params, options, orderType, res);
+        return res;
+      },
+      cancelOrder: async (orderId) => {
+        const ok = await inner.cancelOrder(orderId);
+        if (ok) this.markCanceled(orderId);
+        return ok;
+      },
+    };
+  }
+
+  /** 登记 token → 市场窗口（窗口结束时撤掉未成交买单） */
+  registerMarkets(markets: GammaMarket[]): void {
+    for (const m of markets) {
+      const endMs = m.endDate ? new Date(m.endDate).getTime() : 0;
+      for (const t of m.tokens ?? []) {
+        if (t.token_id) this.tokenMarkets.set(t.token_id, { slug: m.slug || "", endMs });
+      }
+    }
+  }
+
+  handle(ev: UserEvent): void {
+    const order = this.orders.get(ev.orderId);
+    if (!order) return;
+    order.updatedAt = Date.now();
+    if (ev.kind === "order") {
+      order.sizeMatched = Math.max(order.sizeMatched, ev.sizeMatched);
+      if (ev.type === "cancellation") order.status = "canceled";
+    } else if (ev.kind === "fill") {
+      order.sizeMatched = Math.min(order.size, order.sizeMatched + ev.size);
+    }
+    if (order.status === "live" && order.sizeMatched >= order.size - 1e-9) order.status = "filled";
+  }
+
+  /** marketSlug：精确匹配市场，或按 slug 判断（如同一标的的全部市场） */
+  getOpenOrders(filter: { tokenId?: string; side?: "BUY" | "SELL"; marketSlug?: string | ((slug: string) => boolean) } = {}): ManagedOrder[] {
+    const { marketSlug } = filter;
+    return [...this.orders.values()].filter((o) => {
+      if (o.status !== "live") return false;
+      if (filter.tokenId && o.tokenId !== filter.tokenId) return false;
+      if (filter.side && o.side !== filter.side) return false;
+      if (!marketSlug) return true;
+      const slug = this.tokenMarkets.get(o.tokenId)?.slug ?? "";
+      return typeof marketSlug === "function" ? marketSlug(slug) : slug === marketSlug;
+    });
+  }
+
+  /** 是否有未成交的入场买单（不含做市报价） */
+  hasOpenBuy(marketSlug?: string | ((slug: string) => boolean)): boolean {
+    return this.getOpenOrders({ side: "BUY", marketSlug }).some((o) => !o.quote);
+  }
+
+  getOrder(orderId: string): ManagedOrder | undefined {
+    return this.orders.get(orderId);
+  }
+
+  /** 标记为做市报价（由 Quoter 管理撤换） */
+  markQuote(orderId: string): void {
+    const order = this.orders.get(orderId);
+    if (order) order.quote = true;
+  }
+
+  async cancel(orderId: string, reason: string): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== "live") return false;
+    const ok = await this.client.cancelOrder(orderId);
+    if (ok) {
+      this.markCanceled(orderId);
+      console.log(`[Orders] 撤单 ${order.side} ${order.size - order.sizeMatched}@${order.price} (${reason}) ${orderId.slice(0, 10)}…`);
+    } else {
+      // 撤单失败多半是已成交/已撤：查一次真实状态
+      await this.refresh(order);
+    }
+    return ok;
+  }
+
+  /** 撤单后按新价格重挂剩余数量；返回新订单 id */
+  async replace(orderId: string, newPrice: number): Promise<string | null> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== "live") return null;
+    if (!(await this.cancel(orderId, `改价 → ${newPrice}`))) return null;
+
+    const remaining = order.size - order.sizeMatched;
+    if (remaining < 1e-9) return null;
+    const params: CreateOrderParams = {
+      tokenID: order.tokenId,
+      price: newPrice,
+      size: remaining,
+      side: order.side,
+      ...(order.expiration ? { expiration: order.expiration } : {}),
+    };
+    const res = await this.client.createAndPostOrder(params, order.options, order.orderType);
+    if (!res.success || !res.orderId) {
+      console.error(`[Orders] 改价重挂失败: ${res.errorMsg}`);
+      return null;
+    }
+    const next = this.register(res.orderId, params, order.options, order.orderType, res);
+    next.originPrice = order.originPrice;
+    this.onReplace?.(orderId, res.orderId);
+    return res.orderId;
+  }
+
+  /**
+   * 定时维护：轮询无推送的挂单状态；超时或市场窗口结束的买单撤单
+   */
+  async sweep(nowMs: number = Date.now()): Promise<void> {
+    const live = this.getOpenOrders();
+    if (nowMs - this.lastPoll >= POLL_INTERVAL_MS) {
+      this.lastPoll = nowMs;
+      for (const o of live) {
+        if (nowMs - o.updatedAt >= POLL_INTERVAL_MS) await this.refresh(o);
+      }
+    }
+
+    for (const o of this.getOpenOrders({ side: "BUY" })) {
+      const endMs = this.tokenMarkets.get(o.tokenId)?.endMs ?? 0;
+      if (endMs && nowMs >= endMs) {
+        await this.cancel(o.orderId, "市场窗口结束");
+      } else if (!o.quote && nowMs - o.createdAt >= this.config.buyTimeoutMs) {
+        await this.cancel(o.orderId, `超时 ${Math.round(this.config.buyTimeoutMs / 1000)}s 未成交`);
+      }
+    }
+
+    for (const [id, o] of this.orders) {
+      if (o.status !== "live" && nowMs - o.updatedAt > DONE_TTL_MS) this.orders.delete(id);
+    }
+  }
+
+  /** 追价：挂单买价低于当前 ask 且在追价范围内时改价到 ask */
+  async chase(books: Map<string, OrderBookSummary>, nowMs: number = Date.now()): Promise<void> {
+    if (this.config.chaseMaxTicks <= 0) return;
+    for (const o of this.getOpenOrders({ side: "BUY" })) {
+      if (o.quote || nowMs - o.createdAt < CHASE_AFTER_MS) continue;
+      const ask = parseFloat(books.get(o.tokenId)?.asks?.[0]?.price ?? "");
+      if (!Number.isFinite(ask) || ask <= o.price + 1e-9) continue;
+      const tick = parseFloat(o.options.tickSize ?? "0.01");
+      if (ask > o.originPrice + this.config.chaseMaxTicks * tick + 1e-9) continue;
+      console.log(`[Orders] 追价 BUY ${o.price} → ${ask}`);
+      await this.replace(o.orderId, ask);
+    }
+  }
+
+  private register(
+    orderId: string,
+    params: CreateOrderParams,
+    options: OrderOptions,
+    orderType: OrderType,
+    res: OrderPostResult
+  ): ManagedOrder {
+    const now = Date.now();
+    // 只有 GTC/GTD 可能挂单；FOK/FAK 及已全部撮合的订单下单即终态
+    const resting = (orderType === "GTC" || orderType === "GTD") && res.status !== "matched";
+    const order: ManagedOrder = {
+      orderId,
+      tokenId: params.tokenID,
+      side: params.side,
+      price: params.price,
+      originPrice: params.price,
+      size: params.size,
+      sizeMatched: res.status === "matched" ? params.size : 0,
+      orderType,
+      expiration: params.expiration,
+      options,
+      status: resting ? "live" : res.status === "matched" ? "filled" : "canceled",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(orderId, order);
+    return order;
+  }
+
+  private markCanceled(orderId: string): void {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== "live") return;
+    order.status = "canceled";
+    order.updatedAt = Date.now();
+  }
+
+  private async refresh(order: ManagedOrder): Promise<void> {
+    const s = await this.client.getOrder(order.orderId);
+    order.updatedAt = Date.now();
+    if (!s) return;
+    order.sizeMatched = Math.max(order.sizeMatched, s.sizeMatched);
+    if (s.status === "MATCHED" || order.sizeMatched >= order.size - 1e-9) order.status = "filled";
+    else if (s.status.startsWith("CANCEL") || s.status === "INVALID") order.status = "canceled";
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * NegRisk 两腿执行：尽量原子地买入 YES + NO，处理单腿成交风险
+ *
+ * 1. 两腿同时提交 FOK（张数已按较薄一侧的配对深度计算，金额按预期均价），成交数量以下单返回的撮合数量 / getOrder 的 sizeMatched 为准
+ * 2. 两腿数量不等：deadline 内按最新订单簿补买少的一腿（FAK），只接受补齐部分两腿成本和（含手续费）≤ $1 的价格
+ * 3. 到期仍未补齐：卖出多出的一腿解除（FAK，买一起滑点范围内），不足最小下单量的留作单腿持仓到结算
+ * 4. 返回最终配对张数、锁定利润、解除盈亏、残留单腿与全部成交，runner 据此记账
+ */
+
+import { getOrderBook } from "../api/clob.js";
+import type { OrderBookSummary, OrderPostResult, PolymarketClient } from "../api/clob.js";
+import { feePerShare } from "../risk/fees.js";
+import type { NegRiskArbSignal } from "../strategies/types.js";
+import { postOrder } from "./executor.js";
+import type { OrderMarket } from "./executor.js";
+import { planFill } from "./planner.js";
+
+export interface PairOrderFill {
+  orderId: string;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  limitPrice: number;
+  price: number; // 预期成交均价
+  size: number;  // 实际成交张数
+}
+
+export interface PairExecution {
+  /** locked = 两腿一次成交；hedged = 补齐；unwound = 多出部分已卖出；exposed = 仍有单腿；failed = 均未成交 */
+  status: "locked" | "hedged" | "unwound" | "exposed" | "failed";
+  pairedSize: number;
+  lockedEdge: number; // 配对部分锁定利润：pairedSize × $1 − 配对成本（含手续费）
+  unwindPnl: number;  // 解除单腿的卖出盈亏（扣手续费）
+  exposed: { tokenId: string; size: number } | null;
+  fills: PairOrderFill[];
+  error?: string;
+}
+
+export interface PairExecutorOptions {
+  /** 单腿成交后补齐另一腿的时限（毫秒），到期解除 */
+  deadlineMs: number;
+  maxSlippage: number;
+  retryIntervalMs?: number;
+  fetchBook?: (tokenId: string) => Promise<OrderBookSummary | null>;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+const DEFAULT_RETRY_INTERVAL_MS = 500;
+const UNWIND_ATTEMPTS = 5;
+
+interface LegState {
+  tokenId: string;
+  filled: number;
+  cost: number;
+}
+
+/**
+ * 订单实际成交数量：优先下单返回的撮合数量，其次 getOrder 的 sizeMatched（可能略多于下单数量，按实际记）；
+ * 都查不到按下单数量（FOK 成功即全部成交）
+ */
+async function matchedSize(client: PolymarketClient, res: OrderPostResult, requested: number): Promise<number> {
+  if (res.sizeMatched !== undefined) return res.sizeMatched;
+  if (!res.orderId) return requested;
+  const status = await client.getOrder(res.orderId);
+  if (!status) return requested;
+  if (status.sizeMatched > 0) return status.sizeMatched;
+  return status.status === "MATCHED" ? requested : 0;
+}
+
+export async function executeNegRiskPair(
+  client: PolymarketClient,
+  signal: NegRiskArbSignal,
+  market: OrderMarket,
+  options: PairExecutorOptions
+): Promise<PairExecution> {
+  const fetchBook = options.fetchBook ?? getOrderBook;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+  const now = options.now ?? Date.now;
+  const retryMs = options.retryIntervalMs ?? DEFAULT_RETRY_INTERVAL_MS;
+  const fills: PairOrderFill[] = [];
+  const errors: string[] = [];
+  const feeBps = market.fees?.takerBps ?? market.feeRateBps ?? 0;
+  const withFee = (price: number) => price + feePerShare(price, feeBps);
+
+  // 1. 两腿同时 FOK
+  const entries = [
+    { tokenId: signal.yesTokenId, limitPrice: signal.askYes, price: signal.avgYes },
+    { tokenId: signal.noTokenId, limitPrice: signal.askNo, price: signal.avgNo },
+  ];
+  const results = await Promise.all(entries.map((e) =>
+    postOrder(client, { tokenID: e.tokenId, price: e.limitPrice, size: signal.size, side: "BUY", avgPrice: e.price }, market, "FOK")
+  ));
+  const legs: LegState[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    const res = results[i];
+    const leg: LegState = { tokenId: e.tokenId, filled: 0, cost: 0 };
+    if (res.success) {
+      const size = await matchedSize(client, res, signal.size);
+      if (size > 0) {
+        const price = res.avgPrice ?? e.price;
+        leg.filled = size;
+        leg.cost = size * withFee(price);
+        fills.push({ orderId: res.orderId ?? "", tokenId: e.tokenId, side: "BUY", limitPrice: e.limitPrice, price, size });
+      }
+    } else if (res.errorMsg) {
+      errors.push(res.errorMsg);
+    }
+    legs.push(leg);
+  }
+  if (legs.every((l) => l.filled <= 0)) {
+    return { status: "failed", pairedSize: 0, lockedEdge: 0, unwindPnl: 0, exposed: null, fills, error: errors.join("; ") || "no fill" };
+  }
+
+  const [yes, no] = legs;
+  const longLeg = () => (yes.filled >= no.filled ? yes : no);
+  const shortLeg = () => (yes.filled >= no.filled ? no : yes);
+  const imbalance = () => Math.abs(yes.filled - no.filled);
+  const initiallyLocked = imbalance() < market.minOrderSize;
+
+  // 2. 补齐少的一腿
+  const deadline = now() + options.deadlineMs;
+  let hedgeAttempts = 0;
+  while (imbalance() >= market.minOrderSize && now() < deadline) {
+    const long = longLeg();
+    const short = shortLeg();
+    const book = await fetchBook(short.tokenId);
+    const longCost = long.cost / long.filled;
+    const plan = planFill(book?.asks, "BUY", imbalance(), { maxSlippage: options.maxSlippage, worstPrice: 1 - longCost });
+    if (plan && plan.size >= market.minOrderSize && withFee(plan.avgPrice) + longCost <= 1 + 1e-9) {
+      hedgeAttempts++;
+      const res = await postOrder(client, { tokenID: short.tokenId, price: plan.limitPrice, size: plan.size, side: "BUY", avgPrice: plan.avgPrice }, market, "FAK");
+      if (res.success) {
+        const size = await matchedSize(client, res, plan.size);
+        if (size > 0) {
+          const price = res.avgPrice ?? plan.avgPrice;
+          short.filled += size;
+          short.cost += size * withFee(price);
+          fills.push({ orderId: res.orderId ?? "", tokenId: short.tokenId, side: "BUY", limitPrice: plan.limitPrice, price, size });
+        }
+      } else if (res.errorMsg) {
+        errors.push(res.errorMsg);
+      }
+    }
+    if (imbalance() >= market.minOrderSize) await sleep(retryMs);
+  }
+
+  // 3. 到期未补齐：卖出多出部分（代币可能尚未到账，先 sync 并重试）
+  const long = longLeg();
+  const short = shortLeg();
+  const longAvg = long.filled > 0 ? long.cost / long.filled : 0;
+  let excess = long.filled - short.filled;
+  let sold = 0;
+  let proceeds = 0;
+  if (excess >= market.minOrderSize) {
+    await client.syncTokenBalance(long.tokenId);
+    for (let attempt = 0; attempt < UNWIND_ATTEMPTS && excess >= market.minOrderSize; attempt++) {
+      const book = await fetchBook(long.tokenId);
+      const plan = planFill(book?.bids, "SELL", excess, { maxSlippage: options.maxSlippage });
+      if (plan && plan.size >= market.minOrderSize) {
+        const res = await postOrder(client, { tokenID: long.tokenId, price: plan.limitPrice, size: plan.size, side: "SELL" }, market, "FAK");
+        if (res.success) {
+          const size = await matchedSize(client, res, plan.size);
+          if (size > 0) {
+            const price = res.avgPrice ?? plan.avgPrice;
+            sold += size;
+            proceeds += size * (price - feePerShare(price, feeBps));
+            excess -= size;
+            fills.push({ orderId: res.orderId ?? "", tokenId: long.tokenId, side: "SELL", limitPrice: plan.limitPrice, price, size });
+          }
+        } else if (res.errorMsg) {
+          errors.push(res.errorMsg);
+        }
+      }
+      if (excess >= market.minOrderSize) await sleep(retryMs * 2);
+    }
+  }
+
+  // 4. 汇总
+  const pairedSize = Math.min(yes.filled, no.filled);
+  const pairCost = (yes.filled > 0 ? yes.cost / yes.filled : 0) + (no.filled > 0 ? no.cost / no.filled : 0);
+  const residual = long.filled - sold - short.filled;
+  const status: PairExecution["status"] = residual > 1e-6
+    ? "exposed"
+    : sold > 0
+      ? "unwound"
+      : initiallyLocked && hedgeAttempts === 0 ? "locked" : "hedged";
+  return {
+    status,
+    pairedSize,
+    lockedEdge: pairedSize * (1 - pairCost),
+    unwindPnl: proceeds - sold * longAvg,
+    exposed: residual > 1e-6 ? { tokenId: long.tokenId, size: residual } : null,
+    fills,
+    error: errors.length > 0 ? errors.join("; ") : undefined,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * 多档成交规划：按订单簿逐档累计，计算目标张数的预期成交均价（VWAP）与所需限价
+ *
+ * - 只用最差一档价格与最优一档相差不超过 maxSlippage（价格单位，如 0.02 = 2 美分）的档位，
+ *   可另加绝对价格界限（worstPrice，如 TREND 最高入场价 0.75）
+ * - 限价取用到的最差一档：一张限价单即可扫过多档（taker 按各档挂单价成交），不必拆子单
+ * - 订单簿按最优在前排序（asks 升序、bids 降序），与 clob / clob-ws 一致
+ */
+
+import type { OrderBookLevel, OrderBookSummary } from "../api/clob.js";
+
+export interface PlanLimits {
+  maxSlippage: number; // 最差一档相对最优一档的最大偏离
+  worstPrice?: number; // 绝对价格上限（BUY）/ 下限（SELL），如策略的最高入场价
+}
+
+export interface FillPlan {
+  size: number;       // 可成交张数（不超过目标，深度不足时更少）
+  avgPrice: number;   // 预期成交均价
+  bestPrice: number;  // 最优一档
+  limitPrice: number; // 用到的最差一档（下单限价）
+  levels: number;     // 用到的档数
+  slippage: number;   // 均价相对最优一档的不利偏离（≥ 0）
+}
+
+/** 出场判断用的买方报价：price = 买一（触发判断），size / limitPrice = 滑点范围内的深度与最差价 */
+export interface BidQuote {
+  price: number;
+  size: number;
+  limitPrice: number;
+}
+
+/**
+ * 规划 side 方向吃 targetSize 张（BUY 吃 asks，SELL 吃 bids）；targetSize = Infinity 时返回滑点范围内全部深度
+ * 无有效档位返回 null
+ */
+export function planFill(
+  levels: OrderBookLevel[] | undefined,
+  side: "BUY" | "SELL",
+  targetSize: number,
+  limits: PlanLimits
+): FillPlan | null {
+  if (!levels?.length || !(targetSize > 0)) return null;
+  let bestPrice = 0;
+  let limitPrice = 0;
+  let size = 0;
+  let notional = 0;
+  let used = 0;
+  for (const level of levels) {
+    const price = parseFloat(level.price);
+    const avail = parseFloat(level.size);
+    if (!Number.isFinite(price) || !Number.isFinite(avail) || avail <= 0) continue;
+    if (limits.worstPrice !== undefined && (side === "BUY" ? price > limits.worstPrice + 1e-9 : price < limits.worstPrice - 1e-9)) break;
+    if (used === 0) bestPrice = price;
+    else if (Math.abs(price - bestPrice) > limits.maxSlippage + 1e-9) break;
+    const take = Math.min(targetSize - size, avail);
+    size += take;
+    notional += take * price;
+    limitPrice = price;
+    used++;
+    if (size >= targetSize - 1e-9) break;
+  }
+  if (used === 0 || size <= 0) return null;
+  const avgPrice = notional / size;
+  return {
+    size,
+    avgPrice,
+    bestPrice,
+    limitPrice,
+    levels: used,
+    slippage: side === "BUY" ? avgPrice - bestPrice : bestPrice - avgPrice,
+  };
+}
+
+/** 从订单簿构建出场用买方报价；无买单返回 null */
+export function bidQuote(book: OrderBookSummary | null, maxSlippage: number): BidQuote | null {
+  const plan = planFill(book?.bids, "SELL", Infinity, { maxSlippage });
+  if (!plan) return null;
+  return { price: plan.bestPrice, size: plan.size, limitPrice: plan.limitPrice };
+}
+
+/** 日志用：均价与档数（只吃一档时省略） */
+export function formatPlan(plan: FillPlan): string {
+  if (plan.levels <= 1) return `@${plan.avgPrice}`;
+  return `均价@${plan.avgPrice.toFixed(4)}（${plan.levels}档，限价${plan.limitPrice}，滑点${plan.slippage.toFixed(4)}）`;
+}
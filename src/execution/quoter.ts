@@ -0,0 +1,130 @@
+/**
+ * 做市报价管理：把策略给出的目标报价（MarketQuotes）同步为交易所挂单
+ *
+ * - 每个市场每个 token 每一侧最多一张 postOnly GTD 挂单（市场结束前失效）
+ * - update：已成交/已撤的挂单先移除；价格未变（半个 tick 内）且剩余数量在目标的 1/2 ~ 1 倍之间的保留，其余撤单重挂
+ * - pull / pullAll：撤掉某个市场 / 全部报价（临近结束、行情过期、风控、停止运行）
+ * - 挂单经 OrderManager 包装的 client 下单并 markQuote（不超时撤单、不追价）；成交由 onPosted 登记到 FillRouter
+ * - 实盘不支持 postOnly：挂单前按最新盘口复核，买价 >= 卖一 / 卖价 <= 买一 或无盘口的不挂，避免报价变成吃单
+ */
+
+import type { OrderBookSummary, PolymarketClient } from "../api/clob.js";
+import type { MarketQuotes, Quote } from "../strategies/types.js";
+import { postOrder } from "./executor.js";
+import type { OrderMarket } from "./executor.js";
+import type { OrderManager } from "./order-manager.js";
+
+interface LiveQuote extends Quote {
+  orderId: string;
+}
+
+export class Quoter {
+  private readonly live = new Map<string, Map<string, LiveQuote>>(); // slug → `${tokenId}:${side}` → 挂单
+  /** 报价挂出回调（登记成交归属） */
+  onPosted: ((marketSlug: string, orderId: string, quote: Quote) => void) | null = null;
+
+  constructor(
+    private readonly client: PolymarketClient,
+    private readonly orders: OrderManager,
+    /** 最新盘口（挂单前复核是否穿价） */
+    private readonly bookOf: (tokenId: string) => OrderBookSummary | null
+  ) {}
+
+  /** 撤旧挂新，使该市场的挂单与目标报价一致；quotes.pulled 非空时撤掉全部 */
+  async update(marketSlug: string, target: MarketQuotes, market: OrderMarket, marketEndMs: number): Promise<void> {
+    if (target.pulled) {
+      await this.pull(marketSlug, target.pulled);
+      return;
+    }
+    const tick = parseFloat(market.tickSize || "0.01");
+    const current = this.liveOf(marketSlug);
+    const wanted = new Map(target.quotes.map((q) => [`${q.tokenId}:${q.side}`, q]));
+
+    for (const [key, q] of current) {
+      const order = this.orders.getOrder(q.orderId);
+      const want = wanted.get(key);
+      const remaining = order ? order.size - order.sizeMatched : 0;
+      const keep = want && Math.abs(want.price - q.price) < tick / 2 && remaining <= want.size + 1e-9 && remaining >= want.size / 2;
+      if (keep) {
+        wanted.delete(key);
+        continue;
+      }
+      current.delete(key);
+      await this.orders.cancel(q.orderId, want ? `报价 → ${want.price}x${want.size}` : "撤报价");
+    }
+
+    for (const [key, q] of wanted) {
+      const crossed = this.crossReason(q);
+      if (crossed) {
+        console.warn(`[MM] 报价会穿价，跳过 ${q.outcome.toUpperCase()} ${q.side} ${q.size}@${q.price}: ${crossed}`);
+        continue;
+      }
+      const res = await postOrder(this.client, { tokenID: q.tokenId, price: q.price, size: q.size, side: q.side }, market, "GTD", marketEndMs, true);
+      if (!res.success || !res.orderId) {
+        console.warn(`[MM] 报价失败 ${q.outcome.toUpperCase()} ${q.side} ${q.size}@${q.price}: ${res.errorMsg ?? "unknown"}`);
+        continue;
+      }
+      this.orders.markQuote(res.orderId);
+      current.set(key, { ...q, orderId: res.orderId });
+      this.onPosted?.(marketSlug, res.orderId, q);
+    }
+  }
+
+  async pull(marketSlug: string, reason: string): Promise<void> {
+    const current = this.live.get(marketSlug);
+    if (!current) return;
+    this.live.delete(marketSlug);
+    for (const q of current.values()) await this.orders.cancel(q.orderId, `撤报价: ${reason}`);
+  }
+
+  async pullAll(reason: string): Promise<void> {
+    for (const slug of [...this.live.keys()]) await this.pull(slug, reason);
+  }
+
+  /** 撤掉已不在交易列表中的市场的报价 */
+  async prune(activeSlugs: Set<string>): Promise<void> {
+    for (const slug of [...this.live.keys()]) {
+      if (!activeSlugs.has(slug)) await this.pull(slug, "市场已移除");
+    }
+  }
+
+  /** 某市场是否有挂出的报价 */
+  hasQuotes(marketSlug: string): boolean {
+    return this.liveOf(marketSlug).size > 0;
+  }
+
+  /** 日志用：挂单中的报价数（按市场） */
+  getSummary(): string {
+    const parts: string[] = [];
+    for (const slug of this.live.keys()) {
+      const n = this.liveOf(slug).size;
+      if (n > 0) parts.push(`${slug} ${n}`);
+    }
+    return parts.length ? parts.join(" | ") : "无报价";
+  }
+
+  /** 按最新盘口复核：会吃单时返回原因 */
+  private crossReason(q: Quote): string | null {
+    const book = this.bookOf(q.tokenId);
+    if (!book) return "无盘口";
+    if (q.side === "BUY") {
+      const bestAsk = parseFloat(book.asks?.[0]?.price ?? "");
+      return Number.isFinite(bestAsk) && q.price >= bestAsk ? `卖一 ${bestAsk}` : null;
+    }
+    const bestBid = parseFloat(book.bids?.[0]?.price ?? "");
+    return Number.isFinite(bestBid) && q.price <= bestBid ? `买一 ${bestBid}` : null;
+  }
+
+  /** 当前挂单（移除已成交 / 已撤的） */
+  private liveOf(marketSlug: string): Map<string, LiveQuote> {
+    let current = this.live.get(marketSlug);
+    if (!current) {
+      current = new Map();
+      this.live.set(marketSlug, current);
+    }
+    for (const [key, q] of current) {
+      if (this.orders.getOrder(q.orderId)?.status !== "live") current.delete(key);
+    }
+    return current;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * 自动兑付：持有到结算的代币在市场结算后换回 USDC，记录结算盈亏
+ *
+ * - 来源：PositionTracker 清理到期市场时移除的持仓（watchPosition）+ 启动对账找到的待兑付代币（watchHolding）
+ * - poll：按市场轮询 Gamma 结算结果（outcomePrices 中为 1 的一方）→ 链上 payoutDenominator 已写入
+ *   → 读取两边代币余额 → CtfGateway.redeem（普通市场 CTF，neg-risk 市场 NegRiskAdapter）
+ * - 兑付额 = 赢方余额 × $1；盈亏按 token 只算成本已知的持仓（赢方持仓张数 × $1 − 成本），
+ *   对账找回的代币成本未知，单独计数、不计入盈亏，不影响同一市场其他持仓的盈亏
+ * - 查询/交易失败按指数退避重试；超过 GIVE_UP_MS 仍未结算的市场放弃并告警（可手动兑付）
+ */
+
+import type { PolymarketClient } from "../api/clob.js";
+import type { CtfGateway } from "../api/ctf.js";
+import { getMarketBySlug, resolutionOf } from "../api/gamma.js";
+import type { GammaMarket } from "../api/gamma.js";
+import type { TradeJournal } from "../journal/trade-journal.js";
+import type { RedeemableHolding } from "../risk/reconcile.js";
+import type { Position } from "../risk/position-tracker.js";
+
+const UNIT = 1e6;
+const CHECK_INTERVAL_MS = 60_000;
+const MAX_BACKOFF_MS = 30 * 60_000;
+const GIVE_UP_MS = 7 * 24 * 3_600_000;
+
+export interface Settlement {
+  marketSlug: string;
+  winningOutcome: string;
+  payout: number;
+  costBasis: number | null;
+  pnl: number | null;
+  unknownPositions: number;
+  txHash: string;
+}
+
+interface WatchedMarket {
+  marketSlug: string;
+  known: Map<string, { size: number; costBasis: number }>; // tokenId → 成本已知的持仓（同一 token 累加）
+  unknown: number; // 成本未知的持仓数
+  since: number;
+  nextCheckAt: number;
+  failures: number;
+}
+
+export class Redeemer {
+  private readonly markets = new Map<string, WatchedMarket>();
+  private running = false;
+  /** 累计已实现的结算盈亏（成本已知的部分） */
+  realizedPnl = 0;
+
+  constructor(
+    private readonly client: PolymarketClient,
+    private readonly gateway: CtfGateway,
+    private readonly journal: TradeJournal | null = null,
+    private readonly fetchMarket: (slug: string) => Promise<GammaMarket | null> = getMarketBySlug
+  ) {}
+
+  /** 登记待兑付持仓；同一市场多次登记时按 token 累加（costBasis 为 null 表示成本未知，只计数） */
+  watch(marketSlug: string, tokenId: string, size: number, costBasis: number | null, nowMs: number = Date.now()): void {
+    let w = this.markets.get(marketSlug);
+    if (!w) {
+      w = { marketSlug, known: new Map(), unknown: 0, since: nowMs, nextCheckAt: nowMs, failures: 0 };
+      this.markets.set(marketSlug, w);
+    }
+    if (costBasis === null) {
+      w.unknown++;
+      return;
+    }
+    const p = w.known.get(tokenId);
+    if (p) {
+      p.size += size;
+      p.costBasis += costBasis;
+    } else {
+      w.known.set(tokenId, { size, costBasis });
+    }
+  }
+
+  watchPosition(pos: Position, nowMs: number = Date.now()): void {
+    this.watch(pos.marketSlug, pos.tokenId, pos.size, pos.costBasis, nowMs);
+  }
+
+  watchHolding(h: RedeemableHolding, nowMs: number = Date.now()): void {
+    this.watch(h.marketSlug, h.tokenId, h.size, null, nowMs);
+  }
+
+  pendingCount(): number {
+    return this.markets.size;
+  }
+
+  /** 待兑付持仓的成本合计（成本未知的不计；风控估算权益用） */
+  pendingCost(): number {
+    let total = 0;
+    for (const w of this.markets.values()) {
+      for (const p of w.known.values()) total += p.costBasis;
+    }
+    return total;
+  }
+
+  getSummary(): string {
+    return [...this.markets.keys()].join(", ");
+  }
+
+  /** 检查到期的市场并兑付；上一轮未结束时跳过（链上交易确认可能较慢） */
+  async poll(nowMs: number = Date.now()): Promise<Settlement[]> {
+    if (this.running) return [];
+    this.running = true;
+    const done: Settlement[] = [];
+    try {
+      for (const w of [...this.markets.values()]) {
+        if (nowMs < w.nextCheckAt) continue;
+        try {
+          const result = await this.settle(w);
+          if (result === "pending") {
+            if (nowMs - w.since > GIVE_UP_MS) {
+              console.warn(`[Redeem] ${w.marketSlug} 超过 ${GIVE_UP_MS / 3_600_000}h 未结算，停止跟踪（请手动兑付）`);
+              this.markets.delete(w.marketSlug);
+            } else {
+              w.nextCheckAt = nowMs + CHECK_INTERVAL_MS;
+            }
+            continue;
+          }
+          this.markets.delete(w.marketSlug);
+          if (result) done.push(result);
+        } catch (e) {
+          w.failures++;
+          w.nextCheckAt = nowMs + Math.min(MAX_BACKOFF_MS, CHECK_INTERVAL_MS * 2 ** w.failures);
+          console.error(`[Redeem] ${w.marketSlug} 兑付失败（第 ${w.failures} 次）:`, e instanceof Error ? e.message : e);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    return done;
+  }
+
+  /** "pending" = 尚未结算；null = 无可兑付余额（已手动兑付或已卖出） */
+  private async settle(w: WatchedMarket): Promise<Settlement | null | "pending"> {
+    const market = await this.fetchMarket(w.marketSlug);
+    if (!market) throw new Error("Gamma 查询失败");
+    const resolution = resolutionOf(market);
+    if (!resolution) return "pending";
+    if (!(await this.gateway.isResolved(market.conditionId))) return "pending";
+
+    const tokens = market.tokens.slice(0, 2);
+    if (tokens.length < 2) throw new Error("市场代币信息不完整");
+    const raw = await Promise.all(tokens.map((t) => this.client.getTokenBalance(t.token_id)));
+    if (raw.every((b) => b <= 0)) {
+      console.log(`[Redeem] ${w.marketSlug} 无代币余额，跳过`);
+      return null;
+    }
+
+    const winnerIndex = tokens.findIndex((t) => t.token_id === resolution.winningTokenId);
+    const payout = winnerIndex >= 0 ? raw[winnerIndex] / UNIT : 0;
+    const txHash = await this.gateway.redeem({
+      conditionId: market.conditionId,
+      negRisk: !!market.negRisk,
+      amounts: [BigInt(Math.floor(raw[0])), BigInt(Math.floor(raw[1]))],
+    });
+
+    // 成本已知的持仓：赢方按持仓张数（不超过链上余额）兑付，输方兑付为 0
+    let costBasis: number | null = null;
+    let knownPayout = 0;
+    for (const [tokenId, p] of w.known) {
+      costBasis = (costBasis ?? 0) + p.costBasis;
+      if (tokenId === resolution.winningTokenId) knownPayout += Math.min(p.size, payout);
+    }
+    const pnl = costBasis === null ? null : knownPayout - costBasis;
+    if (pnl !== null) this.realizedPnl += pnl;
+    const pnlStr = pnl === null ? "成本未知" : `${pnl >= 0 ? "+" : ""}$${pnl.toFixed(2)}`;
+    const unknownStr = pnl !== null && w.unknown > 0 ? `（另有 ${w.unknown} 个持仓成本未知，未计入）` : "";
+    console.log(`[Redeem] ${w.marketSlug} 赢方=${resolution.winningOutcome} 兑付 $${payout.toFixed(2)} | 盈亏 ${pnlStr}${unknownStr} | tx ${txHash}`);
+
+    const settlement: Settlement = {
+      marketSlug: w.marketSlug,
+      winningOutcome: resolution.winningOutcome,
+      payout,
+      costBasis,
+      pnl,
+      unknownPositions: w.unknown,
+      txHash,
+    };
+    this.journal?.recordSettlement({ ...settlement, conditionId: market.conditionId });
+    return settlement;
+  }
+}
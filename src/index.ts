@@ -1,9 +1,9 @@
 /**
- * 入口：加载 .env，解析 start/stop 命令
+ * 入口：加载 .env，解析 start/stop/kill/resume 命令
  */
 
 import "dotenv/config";
-import { run, requestStop, isStopRequested } from "./runner.js";
+import { run, requestStop, requestKill, requestResume, isStopRequested } from "./runner.js";
 
 const cmd = process.argv[2] ?? "start";
 
@@ -13,6 +13,18 @@ if (cmd === "stop") {
   process.exit(0);
 }
 
+if (cmd === "kill") {
+  requestKill();
+  console.log("Kill switch requested. Open buy orders will be canceled and entries halted; exits continue.");
+  process.exit(0);
+}
+
+if (cmd === "resume") {
+  requestResume();
+  console.log("Resume requested. Entries will be re-enabled on next loop.");
+  process.exit(0);
+}
+
 if (cmd === "start") {
   run({
     pollIntervalMs: 2000,
@@ -22,6 +34,6 @@ if (cmd === "start") {
     process.exit(1);
   });
 } else {
-  console.log("Usage: node dist/index.js start | stop");
+  console.log("Usage: node dist/index.js start | stop | kill | resume");
   process.exit(1);
 }
@@ -0,0 +1,195 @@
+/**
+ * 交易日志：订单、成交、持仓快照、起点价、止损冷却、风控状态写入追加式 NDJSON 文件，重启时回放恢复
+ *
+ * 另记结算兑付（settlement）流水供复盘，回放与压缩时不保留
+ *
+ * - 每行一条 JournalEntry，appendFileSync 同步写入：进程崩溃/PM2 重启时已写入的行不丢
+ * - 持仓按快照记录（PositionTracker.onChange 触发，同一轮内的多次变化合并为一行），回放取最后一份
+ * - 订单/成交为流水，回放时保留最近 ORDER_KEEP_MS 内的记录，供余额对账时认领未入快照的持仓
+ * - 启动加载时行数超过 COMPACT_LINES 则压缩：只保留恢复所需的记录（先写临时文件再 rename）
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { TrackerState } from "../risk/position-tracker.js";
+import type { RiskState } from "../risk/risk-manager.js";
+
+export interface JournalOrderEntry {
+  kind: "order";
+  ts: number;
+  orderId: string;
+  tokenId: string;
+  side: "up" | "down";
+  orderSide: "BUY" | "SELL";
+  marketSlug: string;
+  strategy: string;
+  takeProfit?: boolean;
+  price: number;
+  size: number;
+}
+
+export interface JournalFillEntry {
+  kind: "fill";
+  ts: number;
+  orderId: string;
+  tokenId: string;
+  orderSide: "BUY" | "SELL";
+  price: number;
+  size: number;
+  status: string; // MATCHED / CONFIRMED / FAILED（撤销同一订单此前的成交）/ INFERRED（推送不可用时按下单结果推断）
+}
+
+/** 市场结算后链上兑付的结果（costBasis / pnl 只含成本已知的持仓，全部未知时为 null） */
+export interface JournalSettlementEntry {
+  kind: "settlement";
+  ts: number;
+  marketSlug: string;
+  conditionId: string;
+  winningOutcome: string;
+  payout: number;
+  costBasis: number | null;
+  pnl: number | null;
+  unknownPositions: number; // 成本未知的持仓数（对账找回）
+  txHash: string;
+}
+
+export type JournalEntry =
+  | JournalOrderEntry
+  | JournalFillEntry
+  | JournalSettlementEntry
+  | { kind: "positions"; ts: number; state: TrackerState }
+  | { kind: "start_price"; ts: number; marketKey: string; slug: string; price: number }
+  | { kind: "cooldown"; ts: number; slug: string; untilMs: number }
+  | { kind: "risk"; ts: number; state: RiskState };
+
+/** 回放结果 */
+export interface JournalState {
+  tracker: TrackerState | null;
+  startPrices: Map<string, { slug: string; price: number; ts: number }>; // marketKey → 起点价
+  cooldowns: Map<string, number>;                                         // slug → 冷却截止
+  risk: RiskState | null;
+  orders: JournalOrderEntry[];
+  fills: JournalFillEntry[];
+}
+
+const COMPACT_LINES = 5000;
+const ORDER_KEEP_MS = 24 * 3_600_000;
+const START_PRICE_KEEP_MS = 24 * 3_600_000;
+
+export class TradeJournal {
+  private lines = 0;
+  private snapshotQueued = false;
+
+  constructor(private readonly file: string) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  }
+
+  /** 读取并回放日志；损坏的行（如崩溃时写了一半）跳过 */
+  load(nowMs: number = Date.now()): JournalState {
+    const state: JournalState = { tracker: null, startPrices: new Map(), cooldowns: new Map(), risk: null, orders: [], fills: [] };
+    if (!fs.existsSync(this.file)) return state;
+
+    const content = fs.readFileSync(this.file, "utf8");
+    // 崩溃时写了一半的末行：补换行，避免之后追加的记录与之拼在同一行
+    if (content && !content.endsWith("\n")) fs.appendFileSync(this.file, "\n");
+    const raw = content.split("\n").filter(Boolean);
+    let skipped = 0;
+    for (const line of raw) {
+      let e: JournalEntry;
+      try {
+        e = JSON.parse(line) as JournalEntry;
+      } catch {
+        skipped++;
+        continue;
+      }
+      switch (e.kind) {
+        case "positions":
+          state.tracker = e.state;
+          break;
+        case "start_price":
+          if (nowMs - e.ts < START_PRICE_KEEP_MS) state.startPrices.set(e.marketKey, { slug: e.slug, price: e.price, ts: e.ts });
+          break;
+        case "cooldown":
+          if (e.untilMs > nowMs) state.cooldowns.set(e.slug, e.untilMs);
+          else state.cooldowns.delete(e.slug);
+          break;
+        case "risk":
+          state.risk = e.state;
+          break;
+        case "order":
+          if (nowMs - e.ts < ORDER_KEEP_MS) state.orders.push(e);
+          break;
+        case "fill":
+          if (nowMs - e.ts < ORDER_KEEP_MS) state.fills.push(e);
+          break;
+      }
+    }
+    if (skipped > 0) console.warn(`[Journal] 跳过 ${skipped} 行无法解析的记录`);
+    this.lines = raw.length;
+    if (this.lines > COMPACT_LINES) this.compact(state, nowMs);
+    return state;
+  }
+
+  recordOrder(e: Omit<JournalOrderEntry, "kind" | "ts">, ts: number = Date.now()): void {
+    this.append({ kind: "order", ts, ...e });
+  }
+
+  recordFill(e: Omit<JournalFillEntry, "kind" | "ts">, ts: number = Date.now()): void {
+    this.append({ kind: "fill", ts, ...e });
+  }
+
+  recordStartPrice(marketKey: string, slug: string, price: number, ts: number = Date.now()): void {
+    this.append({ kind: "start_price", ts, marketKey, slug, price });
+  }
+
+  recordCooldown(slug: string, untilMs: number, ts: number = Date.now()): void {
+    this.append({ kind: "cooldown", ts, slug, untilMs });
+  }
+
+  recordRisk(state: RiskState, ts: number = Date.now()): void {
+    this.append({ kind: "risk", ts, state });
+  }
+
+  recordSettlement(e: Omit<JournalSettlementEntry, "kind" | "ts">, ts: number = Date.now()): void {
+    this.append({ kind: "settlement", ts, ...e });
+  }
+
+  /** 持仓快照：同一轮事件循环内的多次变化只写最后一次 */
+  queuePositions(getState: () => TrackerState): void {
+    if (this.snapshotQueued) return;
+    this.snapshotQueued = true;
+    queueMicrotask(() => {
+      this.snapshotQueued = false;
+      this.append({ kind: "positions", ts: Date.now(), state: getState() });
+    });
+  }
+
+  private append(e: JournalEntry): void {
+    try {
+      fs.appendFileSync(this.file, JSON.stringify(e) + "\n");
+      this.lines++;
+    } catch (err) {
+      console.error("[Journal] 写入失败:", err instanceof Error ? err.message : err);
+    }
+  }
+
+  /** 重写为只含恢复所需记录的新文件 */
+  private compact(state: JournalState, nowMs: number): void {
+    const entries: JournalEntry[] = [];
+    for (const [marketKey, s] of state.startPrices) entries.push({ kind: "start_price", ts: s.ts, marketKey, slug: s.slug, price: s.price });
+    for (const [slug, untilMs] of state.cooldowns) entries.push({ kind: "cooldown", ts: nowMs, slug, untilMs });
+    if (state.risk) entries.push({ kind: "risk", ts: nowMs, state: state.risk });
+    entries.push(...state.orders, ...state.fills);
+    if (state.tracker) entries.push({ kind: "positions", ts: nowMs, state: state.tracker });
+
+    const tmp = `${this.file}.tmp`;
+    try {
+      fs.writeFileSync(tmp, entries.map((e) => JSON.stringify(e) + "\n").join(""));
+      fs.renameSync(tmp, this.file);
+      console.log(`[Journal] 压缩日志 ${this.lines} → ${entries.length} 行`);
+      this.lines = entries.length;
+    } catch (err) {
+      console.error("[Journal] 压缩失败:", err instanceof Error ? err.message : err);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * 独立行情录制：不需要交易凭证，只读 Gamma / CLOB 订单簿 / 多交易所聚合行情（MARKET_ASSETS 各标的，PRICE_FEEDS）并写盘
+ *
+ * 用法：
+ *   npm run record -- [目录，默认 RECORD_DIR 或 data] [--interval=1000]
+ *
+ * 输出与 runner 内置录制相同（gzip NDJSON，每小时一个文件），可直接用于 npm run backtest
+ */
+import "dotenv/config";
+import { assetOfMarket, getUpDownMarketsFor, seriesLabel, upDownSeries } from "./api/gamma.js";
+import type { Btc15mResult } from "./api/gamma.js";
+import { getOrderBooks } from "./api/clob.js";
+import { createCompositePriceFeed } from "./api/price-feed.js";
+import { connectChainlinkOracle } from "./api/oracle-feed.js";
+import type { OracleFeed } from "./api/oracle-feed.js";
+import { FeedHealthMonitor } from "./api/feed-health.js";
+import { createStartPriceService } from "./api/start-price.js";
+import { loadConfig } from "./config/index.js";
+import { MarketRecorder } from "./recorder/market-recorder.js";
+
+const MARKET_REFRESH_MS = 30_000;
+
+async function main() {
+  const config = loadConfig();
+  const args = process.argv.slice(2);
+  const dir = args.find((a) => !a.startsWith("--")) || config.recordDir || "data";
+  const intervalMs = parseInt(args.find((a) => a.startsWith("--interval="))?.split("=")[1] ?? "1000", 10);
+
+  const recorder = new MarketRecorder({ dir });
+  const series = upDownSeries(config.marketAssets, config.marketIntervals);
+  // 与 runner 一致：另订阅 BTC 作为阈值换算基准
+  const feedAssets = [...new Set(["btc", ...config.marketAssets])];
+  console.log(`=== 行情录制 (${series.map(seriesLabel).join(", ")}) → ${dir} | 订单簿每 ${intervalMs}ms ===`);
+
+  let marketResult: Btc15mResult = { allMarkets: [], inWindow: [], upcoming: [], nextStartsInSec: -1 };
+  const lastPrices = new Map<string, number>();
+  const startPrices = new Map<string, number>();
+  const startPriceService = createStartPriceService();
+
+  async function refreshMarkets(): Promise<void> {
+    try {
+      marketResult = await getUpDownMarketsFor(series);
+      recorder.recordMarkets(marketResult);
+    } catch (e) {
+      console.error("Market refresh err:", e);
+    }
+  }
+
+  // 连接静默时强制重连，避免长时间录制出现空档
+  const health = new FeedHealthMonitor();
+  health.start();
+
+  // 与 runner 相同的多交易所聚合指数价
+  const priceFeed = createCompositePriceFeed({
+    venues: config.priceFeeds,
+    assets: feedAssets,
+    staleMs: config.priceFeedStaleMs,
+    maxDeviationPct: config.priceFeedMaxDeviationPct,
+    index: config.priceFeedIndex,
+    weights: config.priceFeedWeights,
+    health,
+    silenceMs: config.feedSilenceMs,
+  }, (asset, price, ts) => {
+    lastPrices.set(asset, price);
+    recorder.recordPrice(asset, price, ts);
+  });
+  // 结算源（Chainlink）价格，回测据此计算基差
+  let oracleFeed: OracleFeed | null = null;
+  if (config.oracleFeed === "chainlink") {
+    oracleFeed = connectChainlinkOracle(
+      feedAssets,
+      (asset, price, ts) => recorder.recordOracle("chainlink", asset, price, ts),
+      health.register("chainlink", { silenceMs: config.feedSilenceMs, reconnect: () => oracleFeed?.reconnect() })
+    );
+  }
+
+  await refreshMarkets();
+  const refreshTimer = setInterval(refreshMarkets, MARKET_REFRESH_MS);
+
+  let polling = false;
+  const pollTimer = setInterval(async () => {
+    if (polling || marketResult.inWindow.length === 0) return;
+    polling = true;
+    try {
+      // 与 runner 相同口径：官方起点价（窗口开始时刻 K 线）优先，未取到时暂用首次看到市场时的标的价
+      await startPriceService.resolve(marketResult.inWindow);
+      for (const m of marketResult.inWindow) {
+        const key = m.conditionId || m.slug || m.id;
+        const official = startPriceService.get(key)?.price;
+        const price = official ?? lastPrices.get(assetOfMarket(m)) ?? 0;
+        if (price > 0 && (official !== undefined ? startPrices.get(key) !== official : !startPrices.has(key))) {
+          startPrices.set(key, price);
+          recorder.recordStartPrice(key, m.slug || "", price, official !== undefined);
+        }
+      }
+      const tokenIds = marketResult.inWindow.flatMap((m) => m.tokens?.map((t) => t.token_id) ?? []).filter(Boolean);
+      const books = await getOrderBooks(tokenIds);
+      recorder.recordBooks(books);
+    } catch (e) {
+      console.error("[Record] books err:", e instanceof Error ? e.message : e);
+    } finally {
+      polling = false;
+    }
+  }, intervalMs);
+
+  const statusTimer = setInterval(() => {
+    const priceStr = feedAssets.map((a) => `${a.toUpperCase()} ${lastPrices.has(a) ? `$${lastPrices.get(a)}` : "—"}`).join(" ");
+    console.log(`[Record] ${recorder.getEventCount()} 条事件 | ${priceStr} | ${marketResult.inWindow.length} 个活跃市场 | ${health.getSummary()}`);
+  }, 60_000);
+
+  const shutdown = async () => {
+    clearInterval(refreshTimer);
+    clearInterval(pollTimer);
+    clearInterval(statusTimer);
+    health.stop();
+    priceFeed.close();
+    oracleFeed?.close();
+    await recorder.close();
+    console.log(`[Record] 已停止，共 ${recorder.getEventCount()} 条事件`);
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+/**
+ * 行情录制器：把 bot 看到的订单簿、标的（BTC / ETH…）行情、结算源价格、市场列表与起点价写成 gzip 压缩的 NDJSON
+ *
+ * - 每行一个 ReplayEvent（格式见 backtest/types.ts），可直接喂给回测引擎 / 事后复盘
+ * - 按时间分片轮转：默认每小时一个文件，文件名 {prefix}-YYYYMMDD-HHmmss.ndjson.gz（开始写入时间）
+ * - 每 5 秒 Z_SYNC_FLUSH 一次：进程崩溃时已 flush 的部分仍可解压读取
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import type { OrderBookSummary } from "../api/clob.js";
+import type { Btc15mResult } from "../api/gamma.js";
+import type { ReplayEvent } from "../backtest/types.js";
+
+export interface RecorderOptions {
+  dir: string;
+  /** 轮转周期（毫秒），默认 1 小时 */
+  rotateMs?: number;
+  /** 文件名前缀，默认 market-data */
+  prefix?: string;
+}
+
+const FLUSH_INTERVAL_MS = 5000;
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+export class MarketRecorder {
+  private readonly dir: string;
+  private readonly rotateMs: number;
+  private readonly prefix: string;
+  private gzip: zlib.Gzip | null = null;
+  private out: fs.WriteStream | null = null;
+  private currentBucket = -1;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private dirty = false;
+  private closed = false;
+  private eventCount = 0;
+
+  constructor(options: RecorderOptions) {
+    this.dir = options.dir;
+    this.rotateMs = options.rotateMs ?? 3_600_000;
+    this.prefix = options.prefix ?? "market-data";
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  recordMarkets(result: Btc15mResult, ts: number = Date.now()): void {
+    this.write({ kind: "markets", ts, result });
+  }
+
+  recordBooks(books: Map<string, OrderBookSummary> | OrderBookSummary[], ts: number = Date.now()): void {
+    const list = Array.isArray(books) ? books : [...books.values()];
+    if (list.length === 0) return;
+    this.write({ kind: "books", ts, books: list });
+  }
+
+  recordBtc(price: number, exchangeTs?: number, ts: number = Date.now()): void {
+    this.recordPrice("btc", price, exchangeTs, ts);
+  }
+
+  /** 标的行情；BTC 不写 asset 字段（与旧录制文件一致） */
+  recordPrice(asset: string, price: number, exchangeTs?: number, ts: number = Date.now()): void {
+    this.write({ kind: "btc", ts, price, ...(asset !== "btc" ? { asset } : {}), ...(exchangeTs ? { exchangeTs } : {}) });
+  }
+
+  /** 结算源价格（chainlink / binance） */
+  recordOracle(source: string, asset: string, price: number, exchangeTs?: number, ts: number = Date.now()): void {
+    this.write({ kind: "oracle", ts, source, asset, price, ...(exchangeTs ? { exchangeTs } : {}) });
+  }
+
+  /** official：官方起点价（窗口开始时刻 K 线），否则为首见价 */
+  recordStartPrice(marketKey: string, slug: string, price: number, official: boolean, ts: number = Date.now()): void {
+    this.write({ kind: "start_price", ts, marketKey, slug, price, official });
+  }
+
+  getEventCount(): number {
+    return this.eventCount;
+  }
+
+  /** 结束当前文件（写完 gzip 尾部），之后的写入被忽略 */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    await this.endCurrent();
+  }
+
+  private write(event: ReplayEvent): void {
+    if (this.closed) return;
+    try {
+      this.rotateIfNeeded(event.ts);
+      this.gzip!.write(JSON.stringify(event) + "\n");
+      this.dirty = true;
+      this.eventCount++;
+    } catch (e) {
+      console.error("[Recorder] 写入失败:", e instanceof Error ? e.message : e);
+    }
+  }
+
+  private rotateIfNeeded(ts: number): void {
+    const bucket = Math.floor(ts / this.rotateMs);
+    if (this.gzip && bucket === this.currentBucket) return;
+    void this.endCurrent();
+    this.currentBucket = bucket;
+
+    // 文件名用实际开始写入的时间：同一分片内重启也不会覆盖，且按文件名排序即时间顺序
+    const d = new Date(ts);
+    const stamp = `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+    const file = path.join(this.dir, `${this.prefix}-${stamp}.ndjson.gz`);
+
+    const gzip = zlib.createGzip();
+    const out = fs.createWriteStream(file);
+    gzip.pipe(out);
+    gzip.on("error", (e) => console.error("[Recorder] gzip err:", e.message));
+    out.on("error", (e) => console.error("[Recorder] file err:", e.message));
+    this.gzip = gzip;
+    this.out = out;
+    console.log(`[Recorder] 写入 ${file}`);
+  }
+
+  private flush(): void {
+    if (!this.gzip || !this.dirty) return;
+    this.dirty = false;
+    this.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+  }
+
+  /** 结束 gzip 并等文件落盘 */
+  private endCurrent(): Promise<void> {
+    const gzip = this.gzip;
+    const out = this.out;
+    this.gzip = null;
+    this.out = null;
+    if (!gzip || !out) return Promise.resolve();
+    return new Promise((resolve) => {
+      out.once("close", () => resolve());
+      out.once("error", () => resolve());
+      gzip.end();
+    });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * 手续费模型：Polymarket 按成交价对称收费，fee = 费率 × min(price, 1 − price) × 张数
+ *
+ * - taker 费率：CLOB /fee-rate 的 base_fee（bps，下单签名所用），缺失时取 Gamma takerBaseFee
+ * - maker 费率：Gamma makerBaseFee（挂单成交，如止盈单），缺失为 0
+ * - 策略入场的边际判断、PositionTracker 的成本与已实现盈亏、回测与模拟盘均按此计算
+ */
+
+import type { GammaMarket } from "../api/gamma.js";
+import type { MarketParams } from "../api/market-params.js";
+
+export interface FeeRates {
+  takerBps: number;
+  makerBps: number;
+}
+
+export const NO_FEES: FeeRates = { takerBps: 0, makerBps: 0 };
+
+function bpsField(value: unknown): number | undefined {
+  const n = typeof value === "string" ? parseFloat(value) : typeof value === "number" ? value : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/** 市场费率：CLOB 参数优先，其次 Gamma 市场字段 */
+export function feeRatesFor(market: GammaMarket, params?: Partial<MarketParams> | null): FeeRates {
+  return {
+    takerBps: params?.feeRateBps ?? bpsField(market.takerBaseFee) ?? 0,
+    makerBps: bpsField(market.makerBaseFee) ?? 0,
+  };
+}
+
+/** 每张手续费（USDC） */
+export function feePerShare(price: number, bps: number): number {
+  if (!(bps > 0) || !(price > 0) || !(price < 1)) return 0;
+  return (bps / 10_000) * Math.min(price, 1 - price);
+}
+
+/** 一笔成交的手续费（USDC） */
+export function tradeFee(price: number, size: number, bps: number): number {
+  return feePerShare(price, bps) * size;
+}
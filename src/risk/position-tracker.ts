@@ -6,8 +6,15 @@
  * 2. 跌 $0.05 就砍（止损）
  * 3. 持有超过 60 秒无论盈亏都卖（时间止损）
  * 4. 每个市场同时只持有 1 个方向
+ *
+ * 成本与盈亏均含手续费（按 setFeeRates 登记的费率，见 risk/fees.ts）：买入手续费计入成本与均价，
+ * 卖出按 taker（止盈挂单按 maker）扣除
  */
 
+import { DEFAULT_MARKET_PARAMS } from "../api/market-params.js";
+import { feePerShare, tradeFee } from "./fees.js";
+import type { FeeRates } from "./fees.js";
+
 export interface Position {
   tokenId: string;
   side: "up" | "down";
@@ -16,6 +23,22 @@ export interface Position {
   costBasis: number;
   marketSlug: string;
   entryTime: number; // ms timestamp
+  strategy: string;  // 开仓策略（决定出场方式）
+  takeProfit?: TakeProfitOrder;
+  realizedPnl?: number; // 已卖出部分的累计盈亏（扣手续费）
+  fees?: number;        // 累计手续费（买入 + 卖出）
+}
+
+/** 止盈挂单：代币到账后挂出，orderId 为空表示尚未挂出 */
+export interface TakeProfitOrder {
+  price: number;
+  size: number;
+  tickSize: string;
+  negRisk: boolean;
+  minOrderSize: number;
+  expiresAtMs: number; // 市场结束时间（GTD 到期）
+  orderId?: string;
+  filled: number; // 已成交数量
 }
 
 export interface SellSignal {
@@ -27,6 +50,14 @@ export interface SellSignal {
   reason: string;
 }
 
+/** 持仓管理器的可持久化状态（交易日志快照，重启时恢复） */
+export interface TrackerState {
+  positions: Position[];
+  marketSpend: Array<[string, number]>;
+  windowTradeCount: Array<[string, number]>;
+  pendingTakeProfit: Array<[string, { marketSlug: string; order: Omit<TakeProfitOrder, "filled" | "orderId"> }]>;
+}
+
 export interface ScalpConfig {
   profitTarget: number;      // 止盈：+$0.03/share
   stopLoss: number;          // 止损：-$0.05/share
@@ -39,17 +70,115 @@ export class PositionTracker {
   private positions: Map<string, Position> = new Map();
   private marketSpend: Map<string, number> = new Map();
   private windowTradeCount: Map<string, number> = new Map();
+  // 成交推送到达前登记的止盈单（tokenId → 止盈单），持仓建立时挂上
+  private pendingTakeProfit: Map<string, { marketSlug: string; order: Omit<TakeProfitOrder, "filled" | "orderId"> }> = new Map();
+  // 各 token 的手续费率（runner / 回测每轮按市场登记，不持久化）
+  private feeRates: Map<string, FeeRates> = new Map();
+  // 各 token 的最小下单量（同上，未登记按交易所缺省 5 张）
+  private minOrderSizes: Map<string, number> = new Map();
+  /** 状态变化回调（交易日志据此写快照） */
+  onChange: (() => void) | null = null;
+  /** 卖出成交的已实现盈亏回调；持仓全部卖完时 closedPnl 为整笔合计，否则为 null */
+  onRealized: ((pnl: number, closedPnl: number | null, pos: Position) => void) | null = null;
 
   constructor(private config: ScalpConfig) {}
 
+  private changed(): void {
+    this.onChange?.();
+  }
+
+  exportState(): TrackerState {
+    return {
+      positions: [...this.positions.values()].map((p) => ({ ...p, ...(p.takeProfit ? { takeProfit: { ...p.takeProfit } } : {}) })),
+      marketSpend: [...this.marketSpend.entries()],
+      windowTradeCount: [...this.windowTradeCount.entries()],
+      pendingTakeProfit: [...this.pendingTakeProfit.entries()],
+    };
+  }
+
+  /** 登记 token 的手续费率（未登记按 0） */
+  setFeeRates(tokenId: string, rates: FeeRates): void {
+    this.feeRates.set(tokenId, rates);
+  }
+
+  /** 登记 token 的最小下单量（scalp 出场张数不足时不卖） */
+  setMinOrderSize(tokenId: string, size: number): void {
+    this.minOrderSizes.set(tokenId, size);
+  }
+
+  private feeBps(tokenId: string, maker: boolean = false): number {
+    const rates = this.feeRates.get(tokenId);
+    if (!rates) return 0;
+    return maker ? rates.makerBps : rates.takerBps;
+  }
+
+  /**
+   * 从快照恢复（覆盖当前状态）
+   * 止盈单的 orderId 不恢复：启动时 cancelAll 已撤掉上次挂出的订单，由 runner 重新挂出剩余部分
+   */
+  restoreState(state: TrackerState): void {
+    this.positions = new Map(state.positions.map((p) => {
+      const pos: Position = { ...p };
+      if (p.takeProfit) {
+        const { orderId: _old, ...tp } = p.takeProfit;
+        pos.takeProfit = tp;
+      }
+      return [p.tokenId, pos];
+    }));
+    this.marketSpend = new Map(state.marketSpend);
+    this.windowTradeCount = new Map(state.windowTradeCount);
+    this.pendingTakeProfit = new Map(state.pendingTakeProfit);
+    this.changed();
+  }
+
+  /**
+   * 按链上实际余额校正持仓数量（成本按均价同比缩放）；余额为 0 时移除持仓
+   * 返回校正前的数量（无持仓返回 0）
+   */
+  reconcileSize(tokenId: string, actualSize: number): number {
+    const pos = this.positions.get(tokenId);
+    if (!pos) return 0;
+    const before = pos.size;
+    if (actualSize <= 0.01) {
+      this.positions.delete(tokenId);
+    } else {
+      pos.size = actualSize;
+      pos.costBasis = pos.avgPrice * actualSize;
+      if (pos.takeProfit) pos.takeProfit.size = Math.min(pos.takeProfit.size, pos.takeProfit.filled + Math.floor(actualSize));
+    }
+    this.changed();
+    return before;
+  }
+
   recordBuy(
     tokenId: string,
     side: "up" | "down",
     price: number,
     size: number,
-    marketSlug: string
+    marketSlug: string,
+    strategy: string = "",
+    nowMs: number = Date.now(),
+    maker: boolean = false
+  ): void {
+    this.addBuyFill(tokenId, side, price, size, marketSlug, strategy, nowMs, maker);
+    const currentCount = this.windowTradeCount.get(marketSlug) || 0;
+    this.windowTradeCount.set(marketSlug, currentCount + 1);
+    this.changed();
+  }
+
+  /** 同一订单的后续部分成交：计入持仓与花费，不重复计交易笔数；maker = 挂单成交（做市报价）按 maker 费率 */
+  addBuyFill(
+    tokenId: string,
+    side: "up" | "down",
+    price: number,
+    size: number,
+    marketSlug: string,
+    strategy: string = "",
+    nowMs: number = Date.now(),
+    maker: boolean = false
   ): void {
-    const cost = price * size;
+    const fee = tradeFee(price, size, this.feeBps(tokenId, maker));
+    const cost = price * size + fee;
     const existing = this.positions.get(tokenId);
 
     if (existing) {
@@ -58,23 +187,60 @@ export class PositionTracker {
       existing.avgPrice = totalCost / totalSize;
       existing.size = totalSize;
       existing.costBasis = totalCost;
+      existing.fees = (existing.fees ?? 0) + fee;
     } else {
       this.positions.set(tokenId, {
         tokenId,
         side,
-        avgPrice: price,
+        avgPrice: cost / size,
         size,
         costBasis: cost,
         marketSlug,
-        entryTime: Date.now(),
+        entryTime: nowMs,
+        strategy,
+        fees: fee,
       });
+      const pendingTp = this.pendingTakeProfit.get(tokenId);
+      if (pendingTp) {
+        this.pendingTakeProfit.delete(tokenId);
+        this.setTakeProfit(tokenId, pendingTp.order);
+      }
     }
 
     const currentSpend = this.marketSpend.get(marketSlug) || 0;
     this.marketSpend.set(marketSlug, currentSpend + cost);
+    this.changed();
+  }
 
-    const currentCount = this.windowTradeCount.get(marketSlug) || 0;
-    this.windowTradeCount.set(marketSlug, currentCount + 1);
+  /**
+   * 撤销买入成交（链上结算失败）：按原成交价扣回持仓、成本与本市场花费，不计已实现盈亏
+   * uncount：该订单的成交已全部撤销，同时退回交易笔数
+   */
+  revertBuy(tokenId: string, price: number, size: number, marketSlug: string, uncount: boolean, maker: boolean = false): void {
+    const fee = tradeFee(price, size, this.feeBps(tokenId, maker));
+    const cost = price * size + fee;
+    const pos = this.positions.get(tokenId);
+    if (pos) {
+      const reverted = Math.min(size, pos.size);
+      pos.size -= reverted;
+      if (pos.size <= 0.01) {
+        this.positions.delete(tokenId);
+      } else {
+        pos.costBasis = Math.max(0, pos.costBasis - cost * (reverted / size));
+        pos.avgPrice = pos.costBasis / pos.size;
+        pos.fees = Math.max(0, (pos.fees ?? 0) - fee * (reverted / size));
+      }
+    }
+    const spend = this.marketSpend.get(marketSlug);
+    if (spend !== undefined) this.marketSpend.set(marketSlug, Math.max(0, spend - cost));
+    const count = this.windowTradeCount.get(marketSlug);
+    if (uncount && count) this.windowTradeCount.set(marketSlug, count - 1);
+    this.changed();
+  }
+
+  /** 调整单市场仓位上限（随余额放大） */
+  setMaxPositionPerMarket(usd: number): void {
+    this.config.maxPositionPerMarket = usd;
   }
 
   canBuy(marketSlug: string, additionalCostUsd: number): boolean {
@@ -89,12 +255,24 @@ export class PositionTracker {
     return true;
   }
 
+  /** 全部持仓的成本合计（全局敞口） */
+  getTotalExposure(): number {
+    let total = 0;
+    for (const pos of this.positions.values()) total += pos.costBasis;
+    return total;
+  }
+
   getMarketSpend(marketSlug: string): number {
     return this.marketSpend.get(marketSlug) || 0;
   }
 
-  hasOpenPosition(): boolean {
-    return this.positions.size > 0;
+  /** 是否有持仓；filter 可限定范围（如只看某个标的的市场） */
+  hasOpenPosition(filter?: (pos: Position) => boolean): boolean {
+    if (!filter) return this.positions.size > 0;
+    for (const pos of this.positions.values()) {
+      if (filter(pos)) return true;
+    }
+    return false;
   }
 
   /**
@@ -104,24 +282,32 @@ export class PositionTracker {
    * 1. 止盈：bid >= 买入价 + profitTarget
    * 2. 止损：bid <= 买入价 - stopLoss
    * 3. 时间止损：持有时间 > maxHoldMs → 以当前 bid 卖出
+   *
+   * 触发按买一判断；卖出张数取滑点范围内的买单深度（size），限价为其中最差一档（limitPrice，缺省为买一）
+   *
+   * filter：只检查符合条件的持仓（如按开仓策略过滤）
    */
   checkScalpExit(
-    currentBids: Map<string, { price: number; size: number }>
+    currentBids: Map<string, { price: number; size: number; limitPrice?: number }>,
+    now: number = Date.now(),
+    filter?: (pos: Position) => boolean
   ): SellSignal[] {
     const signals: SellSignal[] = [];
-    const now = Date.now();
 
     for (const [tokenId, pos] of this.positions.entries()) {
+      if (filter && !filter(pos)) continue;
       const bestBid = currentBids.get(tokenId);
       if (!bestBid || bestBid.price <= 0.01) continue;
 
       const holdMs = now - pos.entryTime;
       const holdSec = Math.round(holdMs / 1000);
-      const pnlPerShare = bestBid.price - pos.avgPrice;
-      // 按整张卖出，避免 API 因小数或精度拒单（最小 5 张）
-      const rawSize = Math.min(pos.size, bestBid.size);
-      const sellSize = rawSize >= 5 ? Math.floor(rawSize) : 0;
-      if (sellSize < 5) continue;
+      // 净盈亏：均价已含买入手续费，再扣卖出 taker 手续费
+      const pnlPerShare = bestBid.price - feePerShare(bestBid.price, this.feeBps(tokenId)) - pos.avgPrice;
+      // 按整张卖出，避免 API 因小数或精度拒单；不足该 token 的最小下单量不卖
+      const minSize = this.minOrderSizes.get(tokenId) ?? DEFAULT_MARKET_PARAMS.minOrderSize;
+      const sellSize = Math.floor(Math.min(pos.size, bestBid.size));
+      if (sellSize < minSize || sellSize <= 0) continue;
+      const sellPrice = bestBid.limitPrice ?? bestBid.price;
 
       // 1. 止盈
       if (pnlPerShare >= this.config.profitTarget) {
@@ -129,7 +315,7 @@ export class PositionTracker {
           type: "stop_loss",
           tokenId,
           side: "SELL",
-          price: bestBid.price,
+          price: sellPrice,
           size: sellSize,
           reason: `✅止盈: ${pos.side.toUpperCase()} 买@${pos.avgPrice.toFixed(2)} 卖@${bestBid.price.toFixed(2)} +$${(pnlPerShare * sellSize).toFixed(2)} (${holdSec}s)`,
         });
@@ -142,7 +328,7 @@ export class PositionTracker {
           type: "stop_loss",
           tokenId,
           side: "SELL",
-          price: bestBid.price,
+          price: sellPrice,
           size: sellSize,
           reason: `❌止损: ${pos.side.toUpperCase()} 买@${pos.avgPrice.toFixed(2)} 卖@${bestBid.price.toFixed(2)} -$${(Math.abs(pnlPerShare) * sellSize).toFixed(2)} (${holdSec}s)`,
         });
@@ -156,7 +342,7 @@ export class PositionTracker {
           type: "stop_loss",
           tokenId,
           side: "SELL",
-          price: bestBid.price,
+          price: sellPrice,
           size: sellSize,
           reason: `${marker}: ${pos.side.toUpperCase()} 买@${pos.avgPrice.toFixed(2)} 卖@${bestBid.price.toFixed(2)} ${pnlPerShare >= 0 ? "+" : ""}$${(pnlPerShare * sellSize).toFixed(2)} (超${holdSec}s)`,
         });
@@ -174,37 +360,125 @@ export class PositionTracker {
     return undefined;
   }
 
-  recordSell(tokenId: string, size: number): void {
+  /**
+   * 减仓；price 为成交价（已知时扣手续费后计入已实现盈亏，强制清仓标记不传；买单失败用 revertBuy）
+   * maker：挂单成交（止盈单）按 maker 费率
+   */
+  recordSell(tokenId: string, size: number, price?: number, maker: boolean = false): void {
     const pos = this.positions.get(tokenId);
     if (!pos) return;
+    const sold = Math.min(size, pos.size);
     pos.size -= size;
-    if (pos.size <= 0.01) {
+    const closed = pos.size <= 0.01;
+    if (closed) {
       this.positions.delete(tokenId);
+    } else {
+      pos.costBasis = pos.avgPrice * pos.size;
     }
+    if (price !== undefined) {
+      const fee = tradeFee(price, sold, this.feeBps(tokenId, maker));
+      pos.fees = (pos.fees ?? 0) + fee;
+      const pnl = (price - pos.avgPrice) * sold - fee;
+      pos.realizedPnl = (pos.realizedPnl ?? 0) + pnl;
+      this.onRealized?.(pnl, closed ? pos.realizedPnl : null, pos);
+    }
+    this.changed();
   }
 
   getPosition(tokenId: string): Position | undefined {
     return this.positions.get(tokenId);
   }
 
-  cleanupExpiredMarkets(activeMarketSlugs: Set<string>): void {
+  /**
+   * 为持仓登记止盈单（挂单由 runner 在代币到账后完成）
+   * 持仓尚未建立（成交推送未到）时先暂存，首笔成交建仓时挂上
+   */
+  setTakeProfit(tokenId: string, order: Omit<TakeProfitOrder, "filled" | "orderId">, marketSlug: string = ""): void {
+    const pos = this.positions.get(tokenId);
+    if (!pos) {
+      this.pendingTakeProfit.set(tokenId, { marketSlug, order });
+    } else {
+      pos.takeProfit = { ...order, filled: 0 };
+    }
+    this.changed();
+  }
+
+  markTakeProfitPosted(tokenId: string, orderId: string): void {
+    const tp = this.positions.get(tokenId)?.takeProfit;
+    if (tp) {
+      tp.orderId = orderId;
+      this.changed();
+    }
+  }
+
+  /** 放弃止盈单（被撤单等），持仓改为持有到结算 */
+  clearTakeProfit(tokenId: string): void {
+    const pos = this.positions.get(tokenId);
+    if (pos?.takeProfit) {
+      delete pos.takeProfit;
+      this.changed();
+    }
+  }
+
+  /**
+   * 止盈单成交进度：sizeMatched 为订单累计成交量，按增量减仓
+   * 返回本次新增成交数量
+   */
+  recordTakeProfitFill(tokenId: string, sizeMatched: number, price?: number): number {
+    const pos = this.positions.get(tokenId);
+    const tp = pos?.takeProfit;
+    if (!pos || !tp) return 0;
+    const delta = Math.min(sizeMatched, tp.size) - tp.filled;
+    if (delta <= 1e-9) return 0;
+    tp.filled += delta;
+    if (tp.filled >= tp.size - 1e-9) delete pos.takeProfit;
+    this.recordSell(tokenId, delta, price ?? tp.price, true);
+    return delta;
+  }
+
+  /** 带止盈单的持仓 */
+  getTakeProfitPositions(): Position[] {
+    return [...this.positions.values()].filter((p) => p.takeProfit);
+  }
+
+  /** 清理已结束市场的记录，返回被移除的持仓（持有到结算的代币，交由兑付处理） */
+  cleanupExpiredMarkets(activeMarketSlugs: Set<string>): Position[] {
+    let removed = false;
+    const expired: Position[] = [];
     for (const [tokenId, pos] of this.positions.entries()) {
       if (!activeMarketSlugs.has(pos.marketSlug)) {
         this.positions.delete(tokenId);
+        expired.push(pos);
+        removed = true;
       }
     }
     for (const slug of this.marketSpend.keys()) {
       if (!activeMarketSlugs.has(slug)) {
         this.marketSpend.delete(slug);
         this.windowTradeCount.delete(slug);
+        removed = true;
+      }
+    }
+    for (const [tokenId, p] of this.pendingTakeProfit.entries()) {
+      if (!activeMarketSlugs.has(p.marketSlug)) {
+        this.pendingTakeProfit.delete(tokenId);
+        removed = true;
       }
     }
+    // 费率与最小下单量每轮按活跃市场重新登记，只保留仍有持仓的
+    for (const tokenId of this.feeRates.keys()) {
+      if (!this.positions.has(tokenId)) this.feeRates.delete(tokenId);
+    }
+    for (const tokenId of this.minOrderSizes.keys()) {
+      if (!this.positions.has(tokenId)) this.minOrderSizes.delete(tokenId);
+    }
+    if (removed) this.changed();
+    return expired;
   }
 
-  getSummary(): string {
+  getSummary(now: number = Date.now()): string {
     if (this.positions.size === 0) return "";
     const parts: string[] = [];
-    const now = Date.now();
     for (const pos of this.positions.values()) {
       const holdSec = Math.round((now - pos.entryTime) / 1000);
       parts.push(`${pos.side.toUpperCase()} ${pos.size}@${pos.avgPrice.toFixed(2)} (${holdSec}s)`);
@@ -0,0 +1,155 @@
+/**
+ * 启动对账：持仓记录与链上实际代币余额核对
+ *
+ * 1. reconcileWithBalances：交易日志恢复的持仓
+ *    - 日志里有持仓：按 getTokenBalance 校正数量（余额为 0 → 已卖出/已兑付，移除）
+ *    - 日志里有买单但快照未包含该 token（崩溃发生在两次写入之间）：余额 > 0 则按订单归属认领为持仓，
+ *      均价取日志里该 token 的买入成交（追价换单后的新订单只有成交记录，按 token 汇总）
+ * 2. reconcileRecentMarkets：按 Gamma slot 枚举最近的市场，逐个检查 Up/Down 代币余额
+ *    - 未结束市场里不在持仓中的代币（崩溃遗留、"强制清仓标记"后未卖出的）：以当前买一为成本登记为
+ *      RECOVERED 持仓，按 scalp 规则出场
+ *    - 已结束市场里仍有余额的代币：进入待兑付列表
+ */
+
+import { getOrderBook } from "../api/clob.js";
+import type { PolymarketClient } from "../api/clob.js";
+import type { GammaMarket } from "../api/gamma.js";
+import type { JournalOrderEntry, JournalState } from "../journal/trade-journal.js";
+import { findYesToken } from "../strategies/context.js";
+import type { PositionTracker } from "./position-tracker.js";
+
+const UNIT = 1e6;
+const BALANCE_CONCURRENCY = 8;
+
+/** 对账认领的遗留持仓使用的策略名（runner 对其按 scalp 规则出场） */
+export const RECOVERED_STRATEGY = "recovered";
+
+export interface ReconcileReport {
+  kept: number;
+  adjusted: Array<{ tokenId: string; from: number; to: number }>;
+  removed: string[];
+  adopted: Array<{ tokenId: string; size: number; strategy: string }>;
+}
+
+async function balanceOf(client: PolymarketClient, tokenId: string): Promise<number | null> {
+  try {
+    return (await client.getTokenBalance(tokenId)) / UNIT;
+  } catch (e) {
+    console.error(`[Reconcile] 查询余额失败 ${tokenId.slice(0, 10)}…:`, e instanceof Error ? e.message : e);
+    return null;
+  }
+}
+
+export async function reconcileWithBalances(
+  tracker: PositionTracker,
+  client: PolymarketClient,
+  journal: JournalState
+): Promise<ReconcileReport> {
+  const report: ReconcileReport = { kept: 0, adjusted: [], removed: [], adopted: [] };
+
+  for (const pos of tracker.exportState().positions) {
+    const bal = await balanceOf(client, pos.tokenId);
+    if (bal === null) {
+      report.kept++;
+      continue;
+    }
+    if (bal <= 0.01) {
+      tracker.reconcileSize(pos.tokenId, 0);
+      report.removed.push(pos.tokenId);
+    } else if (Math.abs(bal - pos.size) > 0.01) {
+      tracker.reconcileSize(pos.tokenId, bal);
+      report.adjusted.push({ tokenId: pos.tokenId, from: pos.size, to: bal });
+    } else {
+      report.kept++;
+    }
+  }
+
+  // 快照里没有、但日志里有买单的 token（同一 token 取最后一笔订单的归属）
+  const orphans = new Map<string, JournalOrderEntry>();
+  for (const order of journal.orders) {
+    if (order.orderSide === "BUY" && !tracker.getPosition(order.tokenId)) orphans.set(order.tokenId, order);
+  }
+  for (const [tokenId, order] of orphans) {
+    let notional = 0;
+    let size = 0;
+    let firstTs = order.ts;
+    for (const f of journal.fills) {
+      if (f.tokenId !== tokenId || f.orderSide !== "BUY") continue;
+      const sign = f.status === "FAILED" ? -1 : 1;
+      notional += sign * f.price * f.size;
+      size += sign * f.size;
+      firstTs = Math.min(firstTs, f.ts);
+    }
+    if (size <= 0.01) continue;
+    const bal = await balanceOf(client, tokenId);
+    if (bal === null || bal <= 0.01) continue;
+    tracker.addBuyFill(tokenId, order.side, notional / size, bal, order.marketSlug, order.strategy, firstTs);
+    report.adopted.push({ tokenId, size: bal, strategy: order.strategy });
+  }
+
+  return report;
+}
+
+/** 已结束市场中仍持有的代币（等待兑付） */
+export interface RedeemableHolding {
+  marketSlug: string;
+  conditionId: string;
+  tokenId: string;
+  outcome: string;
+  size: number;
+  negRisk: boolean;
+  endMs: number;
+}
+
+export interface HoldingsReport {
+  scanned: number; // 检查的市场数
+  adopted: Array<{ tokenId: string; marketSlug: string; outcome: string; size: number; price: number }>;
+  redeemable: RedeemableHolding[];
+}
+
+export async function reconcileRecentMarkets(
+  tracker: PositionTracker,
+  client: PolymarketClient,
+  markets: GammaMarket[],
+  nowMs: number = Date.now()
+): Promise<HoldingsReport> {
+  const report: HoldingsReport = { scanned: markets.length, adopted: [], redeemable: [] };
+  const checks = markets.flatMap((market) => market.tokens.map((token) => ({ market, token })));
+
+  const balances: Array<number | null> = [];
+  for (let i = 0; i < checks.length; i += BALANCE_CONCURRENCY) {
+    const batch = checks.slice(i, i + BALANCE_CONCURRENCY);
+    balances.push(...await Promise.all(batch.map((c) => balanceOf(client, c.token.token_id))));
+  }
+
+  for (let i = 0; i < checks.length; i++) {
+    const { market, token } = checks[i];
+    const bal = balances[i];
+    if (bal === null || bal <= 0.01) continue;
+
+    const endMs = market.endDate ? new Date(market.endDate).getTime() : 0;
+    const ended = market.closed || (endMs > 0 && nowMs >= endMs);
+    if (ended) {
+      report.redeemable.push({
+        marketSlug: market.slug,
+        conditionId: market.conditionId,
+        tokenId: token.token_id,
+        outcome: token.outcome,
+        size: bal,
+        negRisk: !!market.negRisk,
+        endMs,
+      });
+      continue;
+    }
+    if (tracker.getPosition(token.token_id)) continue;
+
+    // 成本未知：以当前买一登记，之后的止盈/止损/时间止损都相对这个价格
+    const book = await getOrderBook(token.token_id).catch(() => null);
+    const price = parseFloat(book?.bids?.[0]?.price ?? "") || 0.5;
+    const side = findYesToken(market)?.token_id === token.token_id ? "up" : "down";
+    tracker.addBuyFill(token.token_id, side, price, bal, market.slug, RECOVERED_STRATEGY, nowMs);
+    report.adopted.push({ tokenId: token.token_id, marketSlug: market.slug, outcome: token.outcome, size: bal, price });
+  }
+
+  return report;
+}
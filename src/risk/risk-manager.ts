@@ -0,0 +1,165 @@
+/**
+ * 全局风控：夹在策略信号与 executeSignal 之间，只拦入场，不拦出场
+ *
+ * 1. 日内已实现亏损（UTC 自然日）达到 dailyLossLimit → 当日停止入场，次日自动恢复
+ * 2. 权益（USDC + 持仓市值 + 待兑付）较峰值回撤超过 maxDrawdownPct → 触发 kill switch
+ * 3. 连续 maxConsecutiveLosses 笔亏损平仓 → 暂停入场 consecutiveLossPauseMs（避免止损后“翻本”）
+ * 4. 全部市场持仓成本 + 未成交买单超过 maxTotalExposure → 拒绝新入场
+ * 5. kill switch：自动触发或手动（`npm run kill`）；触发时 runner 撤掉未成交买单，止盈/止损/时间止损照常出场，
+ *    需手动 resume（`npm run resume`）才恢复入场
+ *
+ * 各项阈值为 0 表示关闭；状态随交易日志持久化，重启后沿用当日亏损、峰值与 kill 状态；
+ * kill 状态另由 runner 写入单独的状态文件，交易日志关闭或压缩后重启仍生效
+ */
+
+export interface RiskLimits {
+  dailyLossLimit: number;         // USDC
+  maxDrawdownPct: number;         // 0–1，相对权益峰值
+  maxConsecutiveLosses: number;
+  consecutiveLossPauseMs: number;
+  maxTotalExposure: number;       // USDC
+}
+
+/** 可持久化状态（交易日志快照） */
+export interface RiskState {
+  day: string;            // UTC 日期 YYYY-MM-DD
+  dailyPnl: number;       // 当日已实现盈亏
+  peakEquity: number;
+  consecutiveLosses: number;
+  pausedUntil: number;    // 连亏暂停截止（ms）
+  killed: string | null;  // kill switch 触发原因
+}
+
+export type RiskDecision = { ok: true } | { ok: false; reason: string };
+
+function utcDay(nowMs: number): string {
+  return new Date(nowMs).toISOString().slice(0, 10);
+}
+
+export class RiskManager {
+  private state: RiskState;
+  private equity = 0;
+  /** 状态变化回调（交易日志据此写快照） */
+  onChange: (() => void) | null = null;
+  /** kill switch 触发回调（runner 撤未成交买单） */
+  onKill: ((reason: string) => void) | null = null;
+
+  constructor(private readonly limits: RiskLimits, nowMs: number = Date.now()) {
+    this.state = { day: utcDay(nowMs), dailyPnl: 0, peakEquity: 0, consecutiveLosses: 0, pausedUntil: 0, killed: null };
+  }
+
+  private changed(): void {
+    this.onChange?.();
+  }
+
+  exportState(): RiskState {
+    return { ...this.state };
+  }
+
+  restoreState(state: RiskState, nowMs: number = Date.now()): void {
+    this.state = { ...state };
+    this.rollDay(nowMs);
+    this.changed();
+  }
+
+  /** 跨过 UTC 零点：清零当日盈亏 */
+  private rollDay(nowMs: number): void {
+    const day = utcDay(nowMs);
+    if (day === this.state.day) return;
+    if (this.state.dailyPnl < 0 && this.limits.dailyLossLimit > 0 && -this.state.dailyPnl >= this.limits.dailyLossLimit) {
+      console.log(`[Risk] 新交易日 ${day}，日内亏损限额重置`);
+    }
+    this.state.day = day;
+    this.state.dailyPnl = 0;
+    this.changed();
+  }
+
+  /**
+   * 已实现盈亏：卖出成交 / 结算兑付
+   * closedPnl：持仓已全部平掉时为整笔持仓的合计盈亏（连亏按整笔计数，部分成交不重复计），未平完为 null
+   */
+  recordRealized(pnl: number, closedPnl: number | null, nowMs: number = Date.now()): void {
+    this.rollDay(nowMs);
+    this.state.dailyPnl += pnl;
+    if (closedPnl !== null) {
+      if (closedPnl < -1e-9) this.state.consecutiveLosses++;
+      else if (closedPnl > 1e-9) this.state.consecutiveLosses = 0;
+      const max = this.limits.maxConsecutiveLosses;
+      if (max > 0 && this.state.consecutiveLosses >= max && this.state.pausedUntil <= nowMs) {
+        this.state.pausedUntil = nowMs + this.limits.consecutiveLossPauseMs;
+        this.state.consecutiveLosses = 0;
+        console.log(`[Risk] 连续 ${max} 笔亏损，暂停入场 ${Math.round(this.limits.consecutiveLossPauseMs / 60_000)} 分钟`);
+      }
+    }
+    const limit = this.limits.dailyLossLimit;
+    if (limit > 0 && pnl < 0 && -this.state.dailyPnl >= limit && -(this.state.dailyPnl - pnl) < limit) {
+      console.log(`[Risk] 日内已实现亏损 $${(-this.state.dailyPnl).toFixed(2)} ≥ 限额 $${limit}，今日停止入场`);
+    }
+    this.changed();
+  }
+
+  /** 更新权益并检查回撤（权益 <= 0 视为查询失败，忽略） */
+  updateEquity(equity: number): void {
+    if (!(equity > 0)) return;
+    this.equity = equity;
+    if (equity > this.state.peakEquity) {
+      this.state.peakEquity = equity;
+      this.changed();
+    }
+    const maxDd = this.limits.maxDrawdownPct;
+    if (maxDd > 0 && !this.state.killed) {
+      const dd = 1 - equity / this.state.peakEquity;
+      if (dd >= maxDd) {
+        this.kill(`权益回撤 ${(dd * 100).toFixed(1)}%（峰值 $${this.state.peakEquity.toFixed(2)} → $${equity.toFixed(2)}）`);
+      }
+    }
+  }
+
+  kill(reason: string): void {
+    if (this.state.killed) return;
+    this.state.killed = reason;
+    console.error(`[Risk] ⛔ KILL SWITCH: ${reason} → 停止入场、撤未成交买单，出场照常`);
+    this.changed();
+    this.onKill?.(reason);
+  }
+
+  /** 解除 kill switch；回撤基准重置为当前权益 */
+  resume(): void {
+    if (!this.state.killed) return;
+    console.log(`[Risk] kill switch 已解除（原因: ${this.state.killed}）`);
+    this.state.killed = null;
+    if (this.equity > 0) this.state.peakEquity = this.equity;
+    this.changed();
+  }
+
+  isKilled(): boolean {
+    return this.state.killed !== null;
+  }
+
+  /** 入场检查：cost 为本次入场花费，exposure 为当前全部持仓成本 + 未成交买单金额 */
+  checkEntry(cost: number, exposure: number, nowMs: number = Date.now()): RiskDecision {
+    this.rollDay(nowMs);
+    if (this.state.killed) return { ok: false, reason: `kill switch: ${this.state.killed}` };
+    const limit = this.limits.dailyLossLimit;
+    if (limit > 0 && -this.state.dailyPnl >= limit) {
+      return { ok: false, reason: `日内亏损 $${(-this.state.dailyPnl).toFixed(2)} 已达限额 $${limit}` };
+    }
+    if (nowMs < this.state.pausedUntil) {
+      return { ok: false, reason: `连亏暂停，还剩 ${Math.ceil((this.state.pausedUntil - nowMs) / 1000)}s` };
+    }
+    const maxExp = this.limits.maxTotalExposure;
+    if (maxExp > 0 && exposure + cost > maxExp) {
+      return { ok: false, reason: `总敞口 $${(exposure + cost).toFixed(2)} 超过上限 $${maxExp}` };
+    }
+    return { ok: true };
+  }
+
+  getSummary(): string {
+    const s = this.state;
+    const parts = [`日内 ${s.dailyPnl >= 0 ? "+" : "-"}$${Math.abs(s.dailyPnl).toFixed(2)}`];
+    if (this.equity > 0) parts.push(`权益 $${this.equity.toFixed(2)} / 峰值 $${s.peakEquity.toFixed(2)}`);
+    if (s.consecutiveLosses > 0) parts.push(`连亏 ${s.consecutiveLosses}`);
+    if (s.killed) parts.push(`⛔KILLED`);
+    return parts.join(" | ");
+  }
+}
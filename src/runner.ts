@@ -13,18 +13,50 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { getBtc15MinMarkets, getBtc5MinMarkets } from "./api/gamma.js";
+import { INTERVAL_SECONDS, assetOfMarket, getRecentUpDownMarkets, getUpDownMarketsFor, seriesLabel, slotStartMsOf, upDownSeries } from "./api/gamma.js";
 import { getOrderBooks, createPolymarketClient } from "./api/clob.js";
-import { connectOkxBtcSpot, closeOkxWs, fetchBtcPriceHttp } from "./api/okx-ws.js";
-import type WebSocket from "ws";
-import type { GammaMarket, Btc15mResult } from "./api/gamma.js";
-import type { MarketContext } from "./strategies/types.js";
-import { checkNegRiskArb } from "./strategies/neg-risk-arb.js";
+import type { OrderBookSummary, PolymarketClient } from "./api/clob.js";
+import { createPaperClient, createPaperCtfGateway } from "./api/paper-client.js";
+import { fetchSpotPriceHttp, okxInstId } from "./api/okx-ws.js";
+import { createCompositePriceFeed } from "./api/price-feed.js";
+import type { CompositePriceFeed } from "./api/price-feed.js";
+import { connectChainlinkOracle, createLocalOracleFeed, oracleSourceOf } from "./api/oracle-feed.js";
+import type { LocalOracleFeed, OracleFeed } from "./api/oracle-feed.js";
+import { connectClobMarketWs } from "./api/clob-ws.js";
+import type { ClobMarketFeed } from "./api/clob-ws.js";
+import { FeedHealthMonitor } from "./api/feed-health.js";
+import { createMarketParamsService } from "./api/market-params.js";
+import { createStartPriceService } from "./api/start-price.js";
+import { createCtfGateway } from "./api/ctf.js";
+import type { Btc15mResult, GammaMarket } from "./api/gamma.js";
+import type { EntryIntent, MarketContext, MarketQuotes, NegRiskArbSignal, StrategyEnv } from "./strategies/types.js";
+import { findYesToken, findNoToken, buildMarketContext } from "./strategies/context.js";
+import { SCALP_PARAMS, readMarketDirection, scalpExits } from "./strategies/scalp.js";
+import { AssetPrices, formatAssetPrice } from "./strategies/asset-prices.js";
+import { fairEdge, fairValue } from "./strategies/pricing.js";
+import { createStrategies } from "./strategies/registry.js";
+import { createSizer, maxPositionFor } from "./strategies/sizing.js";
 import { executeSignal } from "./execution/executor.js";
+import { executeNegRiskPair } from "./execution/pair-executor.js";
+import { FillRouter } from "./execution/fill-router.js";
+import { OrderManager } from "./execution/order-manager.js";
+import { Quoter } from "./execution/quoter.js";
+import { Redeemer } from "./execution/redeemer.js";
+import { bidQuote, formatPlan, planFill } from "./execution/planner.js";
+import type { BidQuote } from "./execution/planner.js";
+import type { OrderMeta } from "./execution/fill-router.js";
 import { loadConfig } from "./config/index.js";
 import { PositionTracker } from "./risk/position-tracker.js";
+import { RiskManager } from "./risk/risk-manager.js";
+import { RECOVERED_STRATEGY, reconcileRecentMarkets, reconcileWithBalances } from "./risk/reconcile.js";
+import { TradeJournal } from "./journal/trade-journal.js";
+import { MarketRecorder } from "./recorder/market-recorder.js";
 
 const STOP_FILE = path.join(process.cwd(), ".polymarket-bot-stop");
+const KILL_FILE = path.join(process.cwd(), ".polymarket-bot-kill");
+const RESUME_FILE = path.join(process.cwd(), ".polymarket-bot-resume");
+// kill switch 状态（含回撤自动触发）单独落盘：不依赖交易日志是否开启 / 压缩，重启后仍生效
+const HALT_FILE = path.join(process.cwd(), ".polymarket-bot-halt");
 
 export function isStopRequested(): boolean {
   try { return fs.existsSync(STOP_FILE); } catch { return false; }
@@ -32,29 +64,38 @@ export function isStopRequested(): boolean {
 export function requestStop(): void {
   try { fs.writeFileSync(STOP_FILE, String(Date.now()), "utf8"); } catch (e) { console.error("stop err:", e); }
 }
+/** 手动 kill switch：停止入场、撤未成交买单，出场照常（resume 解除） */
+export function requestKill(): void {
+  try {
+    if (fs.existsSync(RESUME_FILE)) fs.unlinkSync(RESUME_FILE);
+    fs.writeFileSync(KILL_FILE, String(Date.now()), "utf8");
+  } catch (e) { console.error("kill err:", e); }
+}
+export function requestResume(): void {
+  try {
+    if (fs.existsSync(KILL_FILE)) fs.unlinkSync(KILL_FILE);
+    fs.writeFileSync(RESUME_FILE, String(Date.now()), "utf8");
+  } catch (e) { console.error("resume err:", e); }
+}
 function clearStopFile(): void {
   try { if (fs.existsSync(STOP_FILE)) fs.unlinkSync(STOP_FILE); } catch {}
 }
-
-function findYesToken(market: GammaMarket) {
-  return market.tokens?.find((t) => /^(yes|up)$/i.test(t.outcome)) ?? market.tokens?.[0];
-}
-function findNoToken(market: GammaMarket) {
-  return market.tokens?.find((t) => /^(no|down)$/i.test(t.outcome)) ?? market.tokens?.[1];
+/** 上次运行留下的 kill 原因（无则 null） */
+function readHaltFile(): string | null {
+  try {
+    if (!fs.existsSync(HALT_FILE)) return null;
+    const { reason } = JSON.parse(fs.readFileSync(HALT_FILE, "utf8")) as { reason?: string };
+    return reason || "上次运行触发";
+  } catch {
+    return "上次运行触发";
+  }
 }
-
-function buildMarketContext(market: GammaMarket, yesBook: any, noBook: any): MarketContext {
-  const yesToken = findYesToken(market);
-  const noToken = findNoToken(market);
-  return {
-    market,
-    yesTokenId: yesToken?.token_id ?? "",
-    noTokenId: noToken?.token_id ?? "",
-    yesBook: yesBook ?? null,
-    noBook: noBook ?? null,
-    tickSize: "0.01",
-    negRisk: !!market.negRisk,
-  };
+/** 按当前 kill 状态写入 / 删除状态文件 */
+function writeHaltFile(reason: string | null): void {
+  try {
+    if (reason) fs.writeFileSync(HALT_FILE, JSON.stringify({ reason, ts: Date.now() }), "utf8");
+    else if (fs.existsSync(HALT_FILE)) fs.unlinkSync(HALT_FILE);
+  } catch (e) { console.error("halt file err:", e); }
 }
 
 function formatSeconds(sec: number): string {
@@ -72,32 +113,45 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
   const config = loadConfig();
   const FAST_POLL_MS = options.pollIntervalMs ?? 2000;
   const IDLE_POLL_MS = 30000;
+  const BOOK_FEED_SILENCE_MS = 60000; // CLOB 订单簿连接无推送多久强制重连
+  const USER_FEED_SILENCE_MS = 30000; // CLOB user channel 无数据且无 PONG 多久强制重连
   const marketRefreshMs = options.marketRefreshMs ?? 30000;
 
-  // ============ 核心参数 ============
-  const PROFIT_TARGET = 0.07;      // 止盈 +$0.07/share
-  const STOP_LOSS = 0.08;          // 止损 -$0.08/share（收紧，减少损失）
-  const MAX_HOLD_MS = 120_000;     // 最长持有 120 秒
-  const MIN_HOLD_BEFORE_SELL_MS = 30_000;  // 卖出前至少持有 30 秒（代币结算时间）
-  const MIN_BTC_DEVIATION = 40;    // BTC 至少偏离起点 $40 才入场
-  const LOSS_COOLDOWN_MS = 90_000; // 止损后 90 秒冷却期
-  const CHOPPY_THRESHOLD = 80;     // BTC 60秒内波幅 > $80 视为震荡
+  // ============ 核心参数（见 strategies/scalp.ts）============
+  const PROFIT_TARGET = SCALP_PARAMS.profitTarget;
+  const STOP_LOSS = SCALP_PARAMS.stopLoss;
+  const MAX_HOLD_MS = SCALP_PARAMS.maxHoldMs;
+  const LOSS_COOLDOWN_MS = SCALP_PARAMS.lossCooldownMs;
   // ==================================
 
-  if (!config.privateKey || !config.funderAddress) {
+  if (!config.paperTrading && (!config.privateKey || !config.funderAddress)) {
     console.error("Missing PRIVATE_KEY or POLYMARKET_FUNDER_ADDRESS.");
     process.exit(1);
   }
 
-  const client = await createPolymarketClient(config);
-  if (!client) {
+  // 模拟盘：不需要私钥，订单按实时订单簿撮合
+  const paper = config.paperTrading ? createPaperClient(config.paperStartBalance) : null;
+  const baseClient: PolymarketClient | null = paper ?? await createPolymarketClient(config);
+  if (!baseClient) {
     console.error("Failed to create Polymarket client.");
     process.exit(1);
   }
 
+  // 订单生命周期：所有下单经 OrderManager 登记，跟踪到成交/撤单
+  const orderManager = new OrderManager(baseClient, {
+    buyTimeoutMs: config.orderBuyTimeoutMs,
+    chaseMaxTicks: config.orderChaseMaxTicks,
+  });
+  const client = orderManager.wrap();
+
   clearStopFile();
-  console.log("=== Polymarket Scalp Bot v4 ===");
-  console.log(`止盈+$${PROFIT_TARGET} | 止损-$${STOP_LOSS} | 持有30-${MAX_HOLD_MS / 1000}s | BTC偏离>$${MIN_BTC_DEVIATION} | 止损冷却${LOSS_COOLDOWN_MS / 1000}s`);
+  console.log(`=== Polymarket Scalp Bot v4${paper ? " [PAPER]" : ""} ===`);
+  console.log(`止盈+$${PROFIT_TARGET} | 止损-$${STOP_LOSS} | 持有30-${MAX_HOLD_MS / 1000}s | TREND 公允价边际≥${config.trendMinEdge} | 止损冷却${LOSS_COOLDOWN_MS / 1000}s`);
+
+  // === 交易的市场组：标的 × 窗口；行情另订阅 BTC（美元阈值按 BTC 标定，其他标的按价格比例换算）===
+  const series = upDownSeries(config.marketAssets, config.marketIntervals);
+  const feedAssets = [...new Set(["btc", ...config.marketAssets])];
+  console.log(`[Markets] 交易: ${series.map(seriesLabel).join(", ")}`);
   console.log("---");
 
   // === 初始化授权（USDC + Outcome tokens） ===
@@ -107,21 +161,29 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
   // 取消所有之前的挂单
   await client.cancelAll();
 
+  // === 仓位计算：按 USDC 余额与 SIZING_POLICY（余额随状态日志 / 每次入场后刷新） ===
+  const sizer = createSizer(config);
+
   // 打印余额
   try {
     const bal = await client.getBalance();
     console.log(`[Init] USDC 余额: $${bal.balance} | 授权: $${bal.allowance}`);
+    sizer.setBalance(Number(bal.balance) / 1e6);
   } catch {}
+  console.log(`[Sizing] ${sizer.policy}${sizer.policy === "fixed" ? ` | 单笔最多 ${config.orderSizeMax} 张` : ` | 余额 $${sizer.getBalance().toFixed(2)}`}`);
   console.log("---");
 
+  // 行情录制（RECORD_DIR 非空时开启）
+  const recorder = config.recordDir ? new MarketRecorder({ dir: config.recordDir }) : null;
+  if (recorder) console.log(`[Recorder] 行情录制开启 → ${config.recordDir}`);
+
   let marketResult: Btc15mResult = { allMarkets: [], inWindow: [], upcoming: [], nextStartsInSec: -1 };
-  let lastBtcPrice = 0;
-  let okxWs: WebSocket | null = null;
+  let priceFeed: CompositePriceFeed | null = null;
+  let oracleFeed: OracleFeed | null = null;
   const marketStartPrices = new Map<string, number>();
 
-  // === BTC 价格历史（用于震荡检测）===
-  const btcPriceHistory: Array<{ price: number; ts: number }> = [];
-  const BTC_HISTORY_WINDOW_MS = 60_000; // 60 秒窗口
+  // === 各标的最新价与价格历史（起点价、震荡检测）===
+  const prices = new AssetPrices({ defaultDailyVol: config.volDefaultDaily, halfLifeMs: config.volHalfLifeSec * 1000 });
 
   // === 止损冷却追踪 ===
   const lossCooldownUntil = new Map<string, number>(); // market slug → cooldown expires timestamp
@@ -134,14 +196,221 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
     maxPositionPerMarket: config.maxPositionPerMarket,
     maxTradesPerWindow: config.maxTradesPerWindow,
   });
+  tracker.setMaxPositionPerMarket(maxPositionFor(config, sizer.getBalance()));
+
+  // === 全局风控：日内亏损 / 权益回撤 / 连亏暂停 / 总敞口 / kill switch（只拦入场） ===
+  const risk = new RiskManager({
+    dailyLossLimit: config.dailyLossLimit,
+    maxDrawdownPct: config.maxDrawdownPct,
+    maxConsecutiveLosses: config.maxConsecutiveLosses,
+    consecutiveLossPauseMs: config.consecutiveLossPauseMs,
+    maxTotalExposure: config.maxTotalExposure,
+  });
+  tracker.onRealized = (pnl, closedPnl) => risk.recordRealized(pnl, closedPnl);
+
+  // === 交易日志：回放上次运行的持仓/起点价/冷却/风控状态，按链上余额对账 ===
+  const journal = config.journalFile ? new TradeJournal(config.journalFile) : null;
+  if (journal) {
+    const restored = journal.load();
+    if (restored.tracker) tracker.restoreState(restored.tracker);
+    if (restored.risk) risk.restoreState(restored.risk);
+    for (const [key, s] of restored.startPrices) marketStartPrices.set(key, s.price);
+    for (const [slug, until] of restored.cooldowns) lossCooldownUntil.set(slug, until);
+    const report = await reconcileWithBalances(tracker, client, restored);
+    console.log(`[Journal] ${config.journalFile}: 恢复持仓 ${report.kept + report.adjusted.length} 个（校正 ${report.adjusted.length}）、移除 ${report.removed.length}、认领 ${report.adopted.length} | 起点价 ${restored.startPrices.size} | 冷却 ${restored.cooldowns.size}`);
+    for (const a of report.adjusted) console.log(`  [Journal] 校正 ${a.tokenId.slice(0, 10)}… ${a.from.toFixed(2)} → ${a.to.toFixed(2)}`);
+    for (const a of report.adopted) console.log(`  [Journal] 认领 ${a.tokenId.slice(0, 10)}… x${a.size.toFixed(2)} (${a.strategy.toUpperCase() || "-"})`);
+    if (tracker.hasOpenPosition()) console.log(`  [Journal] 持仓: ${tracker.getSummary()}`);
+    tracker.onChange = () => journal.queuePositions(() => tracker.exportState());
+  }
+  // kill 状态以状态文件为准补齐（交易日志关闭、压缩或丢失时）
+  const halted = readHaltFile();
+  if (halted && !risk.isKilled()) risk.restoreState({ ...risk.exportState(), killed: halted });
+  let haltReason = risk.exportState().killed;
+  writeHaltFile(haltReason);
+  risk.onChange = () => {
+    const state = risk.exportState();
+    if (state.killed !== haltReason) {
+      haltReason = state.killed;
+      writeHaltFile(haltReason);
+    }
+    journal?.recordRisk(state);
+  };
+  if (risk.isKilled()) console.log(`[Risk] ⛔ kill switch 仍生效（npm run resume 解除）| ${risk.getSummary()}`);
+
+  // === 自动兑付：持有到结算的代币换回 USDC，结算盈亏计入风控（模拟盘按 Gamma 结果模拟兑付） ===
+  const ctfGateway = !config.autoRedeem ? null : paper ? createPaperCtfGateway(paper) : createCtfGateway(config);
+  const redeemer = ctfGateway ? new Redeemer(client, ctfGateway, journal) : null;
+  if (redeemer) console.log(`[Redeem] 自动兑付开启${paper ? "（模拟）" : ` | RPC ${config.polygonRpcUrl}`}`);
+  async function redeemSettled(): Promise<void> {
+    if (!redeemer) return;
+    for (const s of await redeemer.poll()) {
+      if (s.pnl !== null) risk.recordRealized(s.pnl, s.pnl);
+    }
+  }
+
+  // === 链上持仓对账：最近若干小时的市场里遗留的代币 → 未结束的接管出场，已结束的待兑付 ===
+  if (config.reconcileLookbackHours > 0) {
+    try {
+      const recent: GammaMarket[] = [];
+      for (const s of series) {
+        const slotsPerHour = 3600 / INTERVAL_SECONDS[s.interval];
+        recent.push(...await getRecentUpDownMarkets(s, Math.ceil(config.reconcileLookbackHours * slotsPerHour)));
+      }
+      const holdings = await reconcileRecentMarkets(tracker, client, recent);
+      for (const r of holdings.redeemable) redeemer?.watchHolding(r);
+      console.log(`[Reconcile] 检查最近 ${config.reconcileLookbackHours}h ${holdings.scanned} 个市场：接管 ${holdings.adopted.length}、待兑付 ${holdings.redeemable.length}`);
+      for (const a of holdings.adopted) {
+        console.log(`  [Reconcile] 接管 ${a.marketSlug} ${a.outcome} x${a.size.toFixed(2)}（成本按买一 @${a.price}）→ scalp 出场`);
+      }
+      for (const r of holdings.redeemable) {
+        console.log(`  [Reconcile] 待兑付 ${r.marketSlug} ${r.outcome} x${r.size.toFixed(2)}`);
+      }
+    } catch (e) {
+      console.error("[Reconcile] err:", e instanceof Error ? e.message : e);
+    }
+  }
+
+  // === 行情健康：各连接静默超过 FEED_SILENCE_MS 强制重连；参考价 / 订单簿过期时不开新仓 ===
+  const health = new FeedHealthMonitor();
+  health.start();
+
+  // === 成交推送：按实际成交价/量记账；推送不可用时按下单结果推断 ===
+  // user channel 只在有订单/成交时推送，按数据或 PONG 判断静默（模拟盘为本地推送，不监控）
+  const fills = new FillRouter(tracker);
+  const userFeed = client.subscribeUserEvents((ev) => {
+    if (ev.kind !== "order") {
+      journal?.recordFill({ orderId: ev.orderId, tokenId: ev.assetId, orderSide: ev.side, price: ev.price, size: ev.size, status: ev.kind === "fill" ? ev.status : "FAILED" }, ev.ts);
+    }
+    orderManager.handle(ev);
+    fills.handle(ev);
+  }, paper ? undefined : health.register("user", {
+    silenceMs: Math.max(config.feedSilenceMs, USER_FEED_SILENCE_MS),
+    reconnect: () => userFeed.reconnect(),
+    sparse: true,
+  }));
+  orderManager.onReplace = (oldId, newId) => fills.transfer(oldId, newId);
+
+  // === 做市报价（mm 策略）：postOnly 挂单经 OrderManager 登记，成交按 maker 费率记入 mm 持仓 ===
+  const quoter = new Quoter(client, orderManager, (id) => bookFeed?.getBook(id) ?? lastBooks.get(id) ?? null);
+
+  // === 交易参数（tick size / neg-risk / 最小下单量），按 token 缓存 ===
+  const marketParams = createMarketParamsService();
+  // 官方起点价：窗口开始时刻的 K 线开盘价（结算源优先），取到前暂用首次看到市场时的标的价
+  const startPriceService = createStartPriceService();
+
+  /** 下单成功后的记账：推送可用时交给 FillRouter，否则执行 inferred（按请求数量推断成交） */
+  function trackOrder(
+    orderId: string | undefined,
+    meta: OrderMeta,
+    order: { price: number; size: number },
+    inferred: () => void,
+    fillPrice: number = order.price
+  ): void {
+    if (orderId) journal?.recordOrder({ orderId, ...meta, ...order });
+    if (orderId && userFeed.isLive()) {
+      fills.expect(orderId, meta);
+    } else {
+      inferred();
+      journal?.recordFill({ orderId: orderId ?? "", tokenId: meta.tokenId, orderSide: meta.orderSide, ...order, price: fillPrice, status: "INFERRED" });
+    }
+  }
+
+  quoter.onPosted = (marketSlug, orderId, q) => {
+    // 挂单只在推送可用时挂出（见 maintainQuotes），不按下单结果推断成交
+    trackOrder(orderId, { tokenId: q.tokenId, side: q.outcome, orderSide: q.side, marketSlug, strategy: "mm" }, { price: q.price, size: q.size }, () => {});
+  };
+
+  // kill switch 触发：撤掉未成交买单（止盈等卖单保留，出场照常）
+  risk.onKill = () => {
+    void (async () => {
+      for (const o of orderManager.getOpenOrders({ side: "BUY" })) await orderManager.cancel(o.orderId, "kill switch");
+    })();
+  };
+
+  // NegRisk 两腿入场在后台执行（补齐 / 解除可能持续数秒），不阻塞其他标的的出场、报价与行情检查
+  const pairTasks = new Map<string, { cost: number; done: Promise<unknown> }>(); // slug → 执行中的两腿入场
+
+  /** 是否有执行中的两腿入场（可按市场过滤） */
+  function pairInFlight(filter?: (slug: string) => boolean): boolean {
+    for (const slug of pairTasks.keys()) {
+      if (!filter || filter(slug)) return true;
+    }
+    return false;
+  }
+
+  /** 全局敞口：持仓成本 + 未成交买单金额 + 执行中的两腿入场 */
+  function totalExposure(): number {
+    const openBuys = orderManager.getOpenOrders({ side: "BUY" }).reduce((sum, o) => sum + (o.size - o.sizeMatched) * o.price, 0);
+    const pairs = [...pairTasks.values()].reduce((sum, t) => sum + t.cost, 0);
+    return tracker.getTotalExposure() + openBuys + pairs;
+  }
+
+  /** 刷新 USDC 余额：仓位计算与单市场上限随之调整 */
+  async function refreshBalance(): Promise<number> {
+    const bal = await client!.getBalance();
+    const usdc = Number(bal.balance) / 1e6;
+    sizer.setBalance(usdc);
+    tracker.setMaxPositionPerMarket(maxPositionFor(config, usdc));
+    return usdc;
+  }
+
+  /** 权益估算：USDC + 持仓按买一估值（无本地簿时按成本）+ 待兑付成本 */
+  async function updateEquity(): Promise<void> {
+    try {
+      let equity = await refreshBalance() + (redeemer?.pendingCost() ?? 0);
+      for (const pos of tracker.exportState().positions) {
+        const bid = parseFloat(bookFeed?.getBook(pos.tokenId)?.bids?.[0]?.price ?? "");
+        equity += Number.isFinite(bid) ? bid * pos.size : pos.costBasis;
+      }
+      risk.updateEquity(equity);
+    } catch (e) {
+      console.error("[Risk] 权益查询失败:", e instanceof Error ? e.message : e);
+    }
+  }
+
+  /**
+   * 同步某市场的做市报价：行情过期、成交推送断开、本标的有其他策略持仓或入场买单时撤掉全部报价；
+   * 全局风控不通过（kill switch / 日内亏损 / 总敞口等）时撤买单，只保留卖出库存的报价
+   */
+  async function maintainQuotes(target: MarketQuotes, ctx: MarketContext, slug: string, asset: string, endMs: number, stale: boolean, nowMs: number): Promise<void> {
+    const ofAsset = (s: string) => assetOfMarket({ slug: s }) === asset;
+    let pulled = target.pulled;
+    if (!pulled && stale) pulled = "行情过期";
+    if (!pulled && !userFeed.isLive()) pulled = "成交推送断开";
+    if (!pulled && (tracker.hasOpenPosition((pos) => ofAsset(pos.marketSlug) && pos.strategy !== target.strategy)
+      || orderManager.hasOpenBuy(ofAsset) || pairInFlight(ofAsset))) {
+      pulled = "本标的有其他策略持仓";
+    }
+    let quotes = target.quotes;
+    if (!pulled) {
+      // 本市场已挂的买单报价已计入敞口，按撤换后的目标重新计算
+      const restingBids = orderManager.getOpenOrders({ side: "BUY", marketSlug: slug })
+        .filter((o) => o.quote).reduce((sum, o) => sum + (o.size - o.sizeMatched) * o.price, 0);
+      const bidCost = quotes.filter((q) => q.side === "BUY").reduce((sum, q) => sum + q.price * q.size, 0);
+      const decision = bidCost > 0 ? risk.checkEntry(bidCost, totalExposure() - restingBids, nowMs) : { ok: true as const };
+      if (!decision.ok) {
+        quotes = quotes.filter((q) => q.side === "SELL");
+        if (nowMs - lastStatusLog < 200) console.log(`  [Risk] ${target.strategy.toUpperCase()} 只挂卖单：${decision.reason}`);
+      }
+    }
+    if (nowMs - lastStatusLog < 200) console.log(`  [${target.strategy.toUpperCase()}] ${pulled ? `撤报价：${pulled}` : target.log}`);
+    await quoter.update(slug, { ...target, quotes, pulled }, ctx, endMs);
+  }
+
+  function setLossCooldown(slug: string, untilMs: number): void {
+    lossCooldownUntil.set(slug, untilMs);
+    journal?.recordCooldown(slug, untilMs);
+  }
 
   // === 市场刷新 ===
   async function refreshMarkets(): Promise<void> {
     try {
-      const result = config.btcMarketMode === "5m"
-        ? await getBtc5MinMarkets()
-        : await getBtc15MinMarkets(config.btc15MinTagId || undefined, config.btc15MinSlug || undefined);
+      const result = await getUpDownMarketsFor(series);
       marketResult = result;
+      recorder?.recordMarkets(result);
+      paper?.registerMarkets(result.allMarkets);
+      orderManager.registerMarkets(result.allMarkets);
       if (result.inWindow.length > 0) {
         const info = result.inWindow.map((m) => {
           const endMs = m.endDate ? new Date(m.endDate).getTime() : 0;
@@ -159,76 +428,61 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
 
   await refreshMarkets();
 
-  // === BTC 震荡检测 ===
-  function isBtcChoppy(): boolean {
-    const now = Date.now();
-    const recent = btcPriceHistory.filter((p) => p.ts > now - BTC_HISTORY_WINDOW_MS);
-    if (recent.length < 5) return false;
-    const prices = recent.map((p) => p.price);
-    const range = Math.max(...prices) - Math.min(...prices);
-    if (range < CHOPPY_THRESHOLD) return false;
-
-    // 判断是否有明确方向：如果最新价接近区间一端（>70%位置），认为有方向性
-    const min = Math.min(...prices);
-    const max = Math.max(...prices);
-    const latest = prices[prices.length - 1];
-    const position = (latest - min) / (max - min); // 0=最低 1=最高
-    const hasDirection = position > 0.75 || position < 0.25;
-
-    if (!hasDirection) {
-      return true; // 震荡：大波幅但无方向
-    }
-    return false;
+  // === 结算源价格：Chainlink（5m / 15m 市场）或测试替身；1h 市场的 Binance 结算价来自聚合行情 ===
+  const localOracle: LocalOracleFeed | null = config.oracleFeed === "local" ? createLocalOracleFeed(recordOracle) : null;
+  oracleFeed = config.oracleFeed === "chainlink"
+    ? connectChainlinkOracle(feedAssets, recordOracle, health.register("chainlink", {
+      silenceMs: config.feedSilenceMs,
+      reconnect: () => oracleFeed?.reconnect(),
+    }))
+    : localOracle;
+  console.log(`[Oracle] 结算源: ${config.oracleFeed === "local" ? `本地替身（聚合价 × ${1 + config.oracleLocalOffsetPct}）` : config.oracleFeed}`);
+
+  function recordPrice(asset: string, price: number, exchangeTs?: number): void {
+    prices.record(asset, price);
+    recorder?.recordPrice(asset, price, exchangeTs);
+    localOracle?.push(asset, price * (1 + config.oracleLocalOffsetPct), exchangeTs);
   }
 
-  function recordBtcPrice(price: number): void {
-    const now = Date.now();
-    btcPriceHistory.push({ price, ts: now });
-    // 清理超过 120 秒的老数据
-    while (btcPriceHistory.length > 0 && btcPriceHistory[0].ts < now - 120_000) {
-      btcPriceHistory.shift();
-    }
+  function recordOracle(asset: string, price: number, ts: number): void {
+    prices.recordOracle("chainlink", asset, price, ts);
+    // 本地替身的价格不写入录制文件
+    if (!localOracle) recorder?.recordOracle("chainlink", asset, price, ts);
   }
 
-  // === OKX WebSocket + 延迟套利入场信号 ===
-  let latencySignalDirection: "up" | "down" | null = null;
-  let latencySignalTime = 0;
-
-  if (config.strategyLatencyArb) {
-    const WINDOW_MS = 10_000;
-    const COOLDOWN_MS = 15_000;
-    const priceWindow: Array<{ price: number; ts: number }> = [];
-    let lastSignalMs = 0;
-
-    console.log(`[Latency] 10s 窗口 >= $${config.latencyMinJumpUsd} 触发，cooldown 15s`);
-
-    okxWs = connectOkxBtcSpot((price) => {
-      lastBtcPrice = price;
-      recordBtcPrice(price);
-      const now = Date.now();
-
-      priceWindow.push({ price, ts: now });
-      while (priceWindow.length > 0 && priceWindow[0].ts < now - WINDOW_MS) {
-        priceWindow.shift();
-      }
-      if (priceWindow.length < 3) return;
-
-      const prices = priceWindow.map((p) => p.price);
-      const range = Math.max(...prices) - Math.min(...prices);
-      if (range < config.latencyMinJumpUsd) return;
-      if (now - lastSignalMs < COOLDOWN_MS) return;
-      if (marketResult.inWindow.length === 0) return;
-
-      const activeKey = marketResult.inWindow[0]?.conditionId || marketResult.inWindow[0]?.slug || "";
-      const startPrice = marketStartPrices.get(activeKey);
-      const dir = startPrice ? (price > startPrice ? "up" : "down") : (price > priceWindow[0].price ? "up" : "down");
-
-      lastSignalMs = now;
-      latencySignalDirection = dir as "up" | "down";
-      latencySignalTime = now;
-      console.log(`[Latency] 信号: BTC 10s波幅$${range.toFixed(0)} → ${dir === "up" ? "↑Up" : "↓Down"}`);
-    });
+  // === 多交易所行情：各标的聚合指数价（剔除过期 / 偏离的交易所）===
+  priceFeed = createCompositePriceFeed({
+    venues: config.priceFeeds,
+    assets: feedAssets,
+    staleMs: config.priceFeedStaleMs,
+    maxDeviationPct: config.priceFeedMaxDeviationPct,
+    index: config.priceFeedIndex,
+    weights: config.priceFeedWeights,
+    onVenuePrice: (venue, asset, price, ts) => {
+      if (venue === "binance" && config.oracleFeed !== "off") prices.recordOracle("binance", asset, price, ts);
+    },
+    health,
+    silenceMs: config.feedSilenceMs,
+  }, recordPrice);
+  console.log(`[Feed] 行情源: ${config.priceFeeds.join(", ")} | 指数 ${config.priceFeedIndex} | ${config.priceFeedStaleMs / 1000}s 无行情或偏离中位数 > ${(config.priceFeedMaxDeviationPct * 100).toFixed(2)}% 剔除`);
+
+  // === 策略（STRATEGIES 配置，顺序即优先级）===
+  const strategies = createStrategies(config);
+  console.log(`[Strategy] 启用: ${strategies.map((st) => st.name).join(", ") || "(无)"}`);
+
+  // === CLOB market WebSocket：本地订单簿，有更新即触发一轮决策 ===
+  // 订单簿只在变化时推送，静默阈值放宽；未订阅任何 token 时不检查
+  let bookFeed: ClobMarketFeed | null = null;
+  if (config.clobWs) {
+    bookFeed = connectClobMarketWs(() => triggerRun(), health.register("clob", {
+      silenceMs: Math.max(config.feedSilenceMs, BOOK_FEED_SILENCE_MS),
+      reconnect: () => bookFeed?.reconnect(),
+      inactive: () => !bookFeed?.isConnected(),
+    }));
   }
+  // 订单簿缓存：REST 失败时沿用上次的簿（只用于出场），bookSeenAt 记录每个 token 最近一次拿到实时簿的时间
+  const lastBooks = new Map<string, OrderBookSummary>();
+  const bookSeenAt = new Map<string, number>();
 
   let lastMarketRefresh = Date.now();
   let lastStatusLog = 0;
@@ -272,10 +526,24 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
     for (let attempt = 0; attempt < 3 && !sold; attempt++) {
       try {
         const sellSig = { ...sellSigBase, price: sellPrice };
-        const r = await executeSignal(client, sellSig as any, ctx.tickSize, ctx.negRisk);
+        // 限价内逐档扫买单的预期均价（日志与无推送时的盈亏记账）
+        const book = tokenId === ctx.yesTokenId ? ctx.yesBook : ctx.noBook;
+        const plan = planFill(book?.bids, "SELL", sellSig.size, { maxSlippage: 1, worstPrice: sellPrice });
+        const r = await executeSignal(client, sellSig as any, ctx);
         if (r.ok) {
-          console.log(`[EXIT] 卖出成功:`, r.orderIds, `@${sellPrice} x${sellSig.size}`);
+          // FAK 可能只成交一部分：按实际撮合数量与均价记账
+          const fillPrice = r.avgPrice ?? plan?.avgPrice ?? sellPrice;
+          const soldSize = r.sizeMatched ?? sellSig.size;
+          console.log(`[EXIT] 卖出成功:`, r.orderIds, plan ? `${formatPlan(plan)} x${soldSize}` : `@${sellPrice} x${soldSize}`);
           sold = true;
+          const pos = tracker.getPosition(tokenId);
+          trackOrder(r.orderIds[0], {
+            tokenId,
+            side: pos?.side ?? "up",
+            orderSide: "SELL",
+            marketSlug: pos?.marketSlug ?? "",
+            strategy: pos?.strategy ?? "",
+          }, { price: sellPrice, size: soldSize }, () => tracker.recordSell(tokenId, soldSize, fillPrice), fillPrice);
         } else {
           console.error(`[EXIT] 卖出失败(${attempt + 1}/3):`, r.error || "unknown");
           if (r.error && r.error.includes("balance")) {
@@ -295,10 +563,201 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
     return sold;
   }
 
+  // === 入场执行：下单 + 记录持仓 + sync token 授权 ===
+  async function executeEntry(entry: EntryIntent, ctx: MarketContext, slug: string): Promise<void> {
+    const tag = `[${entry.strategy.toUpperCase()}]`;
+    console.log(`${tag} ${entry.log}`);
+    const endMs = ctx.market.endDate ? new Date(ctx.market.endDate).getTime() : 0;
+    try {
+      const sig = entry.signal;
+      if (sig.type === "neg_risk") {
+        startNegRiskEntry(entry, sig, ctx, slug);
+        return;
+      }
+      const r = await executeSignal(client, sig, ctx, endMs);
+      if (!r.ok) {
+        console.error(`${tag} 买入失败:`, r.error);
+        return;
+      }
+      const settleStr = entry.hold === "settle" ? " → 持有到结算" : "";
+      console.log(`${tag} 买入成功:`, r.orderIds, settleStr);
+
+      // 按实际撮合数量记账（市价单按金额成交，张数可能与下单数量不同），未知时按下单数量
+      const legs = [{ tokenId: sig.tokenId, price: sig.price, size: r.sizeMatched ?? sig.size, orderId: r.orderIds[0], avgPrice: r.avgPrice }];
+
+      // 对冲腿：买对面锁定利润（失败则主单按普通 EV 仓位处理）
+      let hedgedSize = 0;
+      if (entry.hedge) {
+        const h = entry.hedge;
+        const hedgeSig = {
+          type: "ev_arb" as const,
+          tokenId: h.tokenId,
+          side: "BUY" as const,
+          price: h.price,
+          size: h.size,
+          theoreticalProb: 0,
+          marketPrice: h.price,
+          secondsLeft: 0,
+          orderType: "GTD" as const,
+        };
+        const hr = await executeSignal(client, hedgeSig, ctx, endMs);
+        if (hr.ok) {
+          hedgedSize = hr.sizeMatched ?? h.size;
+          legs.push({ tokenId: h.tokenId, price: h.price, size: hr.sizeMatched ?? h.size, orderId: hr.orderIds[0], avgPrice: hr.avgPrice });
+          console.log(`${tag} 对冲成功:`, hr.orderIds, `@${h.price} x${h.size} 锁定+$${h.netProfit.toFixed(2)}`);
+        } else {
+          console.error(`${tag} 对冲失败:`, hr.error);
+        }
+      }
+
+      for (const leg of legs) {
+        const side = leg.tokenId === ctx.yesTokenId ? "up" : "down";
+        // 无成交推送时按预期均价记账（多档成交时优于限价）
+        const fillPrice = leg.avgPrice ?? entry.expectedPrices?.[leg.tokenId] ?? leg.price;
+        trackOrder(leg.orderId, { tokenId: leg.tokenId, side, orderSide: "BUY", marketSlug: slug, strategy: entry.strategy }, { price: leg.price, size: leg.size },
+          () => tracker.recordBuy(leg.tokenId, side, fillPrice, leg.size, slug, entry.strategy), fillPrice);
+        // 授权同步在后台重试，不阻塞主循环（卖出前 attemptSell 会再次 sync）
+        void syncAfterBuy(leg.tokenId);
+      }
+
+      // 止盈单：只挂未对冲部分（对冲部分已锁定利润，持有到结算）
+      if (entry.takeProfitPrice && sig.type !== "stop_loss") {
+        const tpSize = Math.floor(legs[0].size - hedgedSize);
+        if (tpSize >= ctx.minOrderSize) {
+          tracker.setTakeProfit(sig.tokenId, { price: entry.takeProfitPrice, size: tpSize, tickSize: ctx.tickSize, negRisk: ctx.negRisk, minOrderSize: ctx.minOrderSize, expiresAtMs: endMs }, slug);
+          console.log(`${tag} 止盈单 @${entry.takeProfitPrice} x${tpSize} 待代币到账后挂出`);
+        }
+      }
+    } catch (e) {
+      console.error(`${tag} err:`, e);
+    }
+  }
+
+  /** 买入后 sync token 授权（重试 3 次，失败只告警） */
+  async function syncAfterBuy(tokenId: string): Promise<void> {
+    try {
+      for (let si = 0; si < 3; si++) {
+        const ok = await client!.syncTokenBalance(tokenId);
+        if (ok) break;
+        await new Promise((r) => setTimeout(r, 2000));
+      }
+    } catch (e) {
+      console.error("[Sync] err:", e instanceof Error ? e.message : e);
+    }
+  }
+
+  /** 后台执行 NegRisk 两腿入场；完成前本标的不再入场、不挂做市报价，结束后刷新余额并提前跑一轮 */
+  function startNegRiskEntry(entry: EntryIntent, sig: NegRiskArbSignal, ctx: MarketContext, slug: string): void {
+    const done = executeNegRiskEntry(entry, sig, ctx, slug)
+      .catch((e) => console.error(`[${entry.strategy.toUpperCase()}] err:`, e))
+      .then(() => refreshBalance().catch(() => {}))
+      .finally(() => {
+        pairTasks.delete(slug);
+        triggerRun();
+      });
+    pairTasks.set(slug, { cost: entry.cost, done });
+  }
+
+  // === NegRisk 两腿入场：单腿成交时限时补齐，否则卖出多出部分；按实际成交逐笔记账 ===
+  async function executeNegRiskEntry(entry: EntryIntent, sig: NegRiskArbSignal, ctx: MarketContext, slug: string): Promise<void> {
+    const tag = `[${entry.strategy.toUpperCase()}]`;
+    const r = await executeNegRiskPair(client!, sig, ctx, { deadlineMs: config.negRiskLegTimeoutMs, maxSlippage: config.maxSlippage });
+    if (r.status === "failed") {
+      console.error(`${tag} 买入失败:`, r.error);
+      return;
+    }
+    for (const f of r.fills) {
+      const side = f.tokenId === ctx.yesTokenId ? "up" : "down";
+      const meta: OrderMeta = { tokenId: f.tokenId, side, orderSide: f.side, marketSlug: slug, strategy: entry.strategy };
+      trackOrder(f.orderId, meta, { price: f.limitPrice, size: f.size }, f.side === "BUY"
+        ? () => tracker.recordBuy(f.tokenId, side, f.price, f.size, slug, entry.strategy)
+        : () => tracker.recordSell(f.tokenId, f.size, f.price), f.price);
+    }
+
+    const edge = `${r.lockedEdge >= 0 ? "+" : "-"}$${Math.abs(r.lockedEdge).toFixed(2)}`;
+    if (r.status === "locked" || r.status === "hedged") {
+      console.log(`${tag} ${r.status === "locked" ? "两腿成交" : "单腿后补齐"} x${r.pairedSize} 锁定 ${edge} → 持有到结算`);
+    } else {
+      const unwind = `${r.unwindPnl >= 0 ? "+" : "-"}$${Math.abs(r.unwindPnl).toFixed(2)}`;
+      const exposed = r.exposed ? ` | ⚠️ 单腿残留 ${r.exposed.tokenId === ctx.yesTokenId ? "Up" : "Down"} x${r.exposed.size.toFixed(2)} 持有到结算` : "";
+      console.warn(`${tag} 单腿风险: 配对 x${r.pairedSize} 锁定 ${edge} | 解除盈亏 ${unwind}${exposed}${r.error ? ` (${r.error})` : ""}`);
+    }
+    for (const tokenId of new Set(r.fills.filter((f) => f.side === "BUY").map((f) => f.tokenId))) {
+      void syncAfterBuy(tokenId);
+    }
+  }
+
+  // === 止盈挂单：代币到账后挂 GTD SELL（市场结束时失效），之后轮询成交进度 ===
+  const TAKE_PROFIT_CHECK_MS = 5000;
+  let lastTakeProfitCheck = 0;
+
+  async function manageTakeProfits(nowMs: number): Promise<void> {
+    if (nowMs - lastTakeProfitCheck < TAKE_PROFIT_CHECK_MS) return;
+    lastTakeProfitCheck = nowMs;
+
+    for (const pos of tracker.getTakeProfitPositions()) {
+      const tp = pos.takeProfit!;
+      const tag = `[${pos.strategy.toUpperCase()}]`;
+      try {
+        if (!tp.orderId) {
+          if (nowMs - pos.entryTime < SCALP_PARAMS.minHoldBeforeSellMs) continue;
+          // 实际成交可能少于下单数量：止盈数量不超过持仓
+          const size = Math.min(tp.size - tp.filled, Math.floor(pos.size));
+          // 挂出时按最新参数（tick 可能已在两端变化）
+          const params = marketParams.get(pos.tokenId) ?? tp;
+          if (size < params.minOrderSize) {
+            tracker.clearTakeProfit(pos.tokenId);
+            continue;
+          }
+          const r = await executeSignal(client, {
+            type: "stop_loss",
+            tokenId: pos.tokenId,
+            side: "SELL",
+            price: tp.price,
+            size,
+            reason: "止盈挂单",
+            orderType: "GTD",
+          }, params, tp.expiresAtMs);
+          if (!r.ok || !r.orderIds[0]) {
+            console.log(`${tag} 止盈单挂出失败（稍后重试）: ${r.error}`);
+            continue;
+          }
+          tp.size = tp.filled + size;
+          tracker.markTakeProfitPosted(pos.tokenId, r.orderIds[0]);
+          const tpMeta = { tokenId: pos.tokenId, side: pos.side, orderSide: "SELL" as const, marketSlug: pos.marketSlug, strategy: pos.strategy, takeProfit: true };
+          journal?.recordOrder({ orderId: r.orderIds[0], ...tpMeta, price: tp.price, size });
+          if (userFeed.isLive()) fills.expect(r.orderIds[0], tpMeta);
+          console.log(`${tag} 止盈单已挂出 @${tp.price} x${size}:`, r.orderIds[0]);
+        }
+
+        const order = await client!.getOrder(tp.orderId!);
+        if (!order) continue;
+        const filled = tracker.recordTakeProfitFill(pos.tokenId, order.sizeMatched);
+        if (filled > 0) {
+          console.log(`${tag} ✅止盈成交 ${pos.side.toUpperCase()} 买@${pos.avgPrice.toFixed(2)} 卖@${tp.price} x${filled.toFixed(2)} +$${((tp.price - pos.avgPrice) * filled).toFixed(2)}`);
+        }
+        if (order.status === "CANCELED" && tracker.getPosition(pos.tokenId)?.takeProfit) {
+          console.log(`${tag} 止盈单已被撤销，剩余持有到结算`);
+          tracker.clearTakeProfit(pos.tokenId);
+        }
+      } catch (e) {
+        console.error(`${tag} 止盈单 err:`, e);
+      }
+    }
+  }
+
   // === 主循环 ===
   const runOnce = async (): Promise<void> => {
     if (isStopRequested()) {
-      if (okxWs) closeOkxWs(okxWs);
+      // 等执行中的两腿入场补齐 / 解除完成（有截止时间），避免退出时留下单腿
+      await Promise.allSettled([...pairTasks.values()].map((t) => t.done));
+      await quoter.pullAll("停止运行");
+      health.stop();
+      priceFeed?.close();
+      oracleFeed?.close();
+      bookFeed?.close();
+      userFeed.close();
+      await recorder?.close();
       console.log("Stop. Exiting.");
       process.exit(0);
     }
@@ -306,51 +765,125 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
     if (Date.now() - lastMarketRefresh > marketRefreshMs) {
       await refreshMarkets();
       lastMarketRefresh = Date.now();
+      // 模拟盘：到期市场按结算结果兑付（随市场刷新节奏查询，避免频繁请求 Gamma）
+      if (paper) {
+        // 模拟盘：先由 Redeemer 兑付跟踪中的市场（记结算盈亏），其余到期持仓再由 settleExpired 结算
+        await redeemSettled();
+        await paper.settleExpired();
+      } else {
+        // 实盘：后台兑付已结算市场（链上确认较慢，不阻塞主循环）
+        void redeemSettled();
+      }
+    }
+
+    // 手动 kill switch / 解除
+    if (fs.existsSync(RESUME_FILE)) {
+      try { fs.unlinkSync(RESUME_FILE); } catch {}
+      risk.resume();
+    } else if (fs.existsSync(KILL_FILE) && !risk.isKilled()) {
+      risk.kill("手动 kill switch");
     }
 
     const nowMs = Date.now();
     const activeMarkets = marketResult.inWindow;
 
-    // HTTP 备用 BTC 价格
-    if (lastBtcPrice <= 0) {
-      const p = await fetchBtcPriceHttp();
+    // HTTP 备用价格（WebSocket 尚无数据，或所有交易所都已过期 / 被剔除的标的）
+    for (const asset of feedAssets) {
+      if (prices.price(asset) > 0 && (priceFeed?.liveVenues(asset, nowMs) ?? 0) > 0) continue;
+      const p = await fetchSpotPriceHttp(okxInstId(asset));
       if (p) {
-        lastBtcPrice = p;
-        recordBtcPrice(p);
-        console.log(`[BTC] HTTP: $${p.toFixed(2)}`);
+        recordPrice(asset, p);
+        console.log(`[${asset.toUpperCase()}] HTTP: $${p}`);
       }
     }
 
     // 状态日志
     if (nowMs - lastStatusLog >= STATUS_LOG_MS) {
       lastStatusLog = nowMs;
-      const btcStr = lastBtcPrice > 0 ? `$${lastBtcPrice.toFixed(0)}` : "—";
+      const priceStr = feedAssets.map((asset) => {
+        const p = prices.price(asset);
+        return `${asset.toUpperCase()} ${p > 0 ? `$${formatAssetPrice(p, prices.scale(asset))}` : "—"}${prices.isChoppy(asset) ? " ⚠CHOPPY" : ""}`;
+      }).join(" ");
       const posStr = tracker.getSummary();
-      const choppyStr = isBtcChoppy() ? " ⚠CHOPPY" : "";
       if (activeMarkets.length > 0) {
         const info = activeMarkets.map((m) => {
           const endMs = m.endDate ? new Date(m.endDate).getTime() : 0;
           return `${m.slug?.slice(0, 28)}(${Math.round((endMs - nowMs) / 1000)}s)`;
         }).join(", ");
-        console.log(`[Tick] BTC ${btcStr}${choppyStr} | ${info}${posStr ? " | " + posStr : ""}`);
+        console.log(`[Tick] ${priceStr} | ${info}${posStr ? " | " + posStr : ""}`);
       } else {
-        console.log(`[Tick] BTC ${btcStr}${choppyStr} | idle${posStr ? " | " + posStr : ""}`);
+        console.log(`[Tick] ${priceStr} | idle${posStr ? " | " + posStr : ""}`);
+      }
+      if (priceFeed) console.log(`[Feed] ${priceFeed.summary(nowMs)}`);
+      console.log(`[Health] ${health.getSummary(nowMs)}`);
+      if (oracleFeed) {
+        const oracleStr = feedAssets.map((asset) => {
+          const p = prices.oraclePrice("chainlink", asset, nowMs);
+          const scale = prices.scale(asset);
+          return `${asset.toUpperCase()} ${p > 0 ? `$${formatAssetPrice(p, scale)} 基差 $${formatAssetPrice(prices.basis("chainlink", asset, nowMs), scale)}` : "—"}`;
+        }).join(" | ");
+        console.log(`[Oracle] ${oracleFeed.name}: ${oracleStr}`);
+      }
+      if (paper) console.log(`[Paper] ${paper.getSummary()}`);
+      if (strategies.some((st) => st.name === "mm")) console.log(`[MM] 报价挂单: ${quoter.getSummary()}`);
+      await updateEquity();
+      console.log(`[Risk] ${risk.getSummary()}`);
+      if (redeemer && redeemer.pendingCount() > 0) {
+        console.log(`[Redeem] 待兑付 ${redeemer.pendingCount()} 个市场：${redeemer.getSummary()} | 已实现结算盈亏 $${redeemer.realizedPnl.toFixed(2)}`);
       }
     }
 
+    // 挂单维护：状态轮询、超时/窗口结束撤买单（无活跃市场时也要跑）
+    await orderManager.sweep(nowMs);
+
     if (activeMarkets.length === 0) return;
 
-    // 获取订单簿
+    // 获取订单簿：优先 WebSocket 本地簿，未同步/断线的 token 走 REST
     const tokenIds = activeMarkets.flatMap((m) => m.tokens?.map((t) => t.token_id) ?? []).filter(Boolean);
-    let books: Map<string, any>;
-    try {
-      books = await getOrderBooks(tokenIds);
-    } catch (e) {
-      return;
+    bookFeed?.setAssets(tokenIds);
+    const books = new Map<string, OrderBookSummary>();
+    for (const id of tokenIds) {
+      const b = bookFeed?.getBook(id);
+      if (b) {
+        books.set(id, b);
+        bookSeenAt.set(id, nowMs);
+      }
     }
+    const missing = tokenIds.filter((id) => !books.has(id));
+    if (missing.length > 0) {
+      try {
+        for (const [id, b] of await getOrderBooks(missing)) {
+          books.set(id, b);
+          bookSeenAt.set(id, nowMs);
+        }
+      } catch (e) {
+        console.error("[Book] REST 订单簿 err:", e instanceof Error ? e.message : e);
+      }
+    }
+    recorder?.recordBooks(books);
+    // 模拟盘：按最新订单簿撮合做市挂单
+    paper?.matchResting(books, nowMs);
+    // 取不到的沿用缓存：出场照常，入场由下面的订单簿年龄检查拦截
+    for (const id of tokenIds) {
+      const cached = lastBooks.get(id);
+      if (!books.has(id) && cached) books.set(id, cached);
+    }
+    lastBooks.clear();
+    for (const [id, b] of books) lastBooks.set(id, b);
+    for (const id of bookSeenAt.keys()) {
+      if (!books.has(id)) bookSeenAt.delete(id);
+    }
+    // 交易参数：缓存未命中/过期时从 CLOB 拉取，订单簿推送里的 tick/min size 变化即时生效
+    await marketParams.resolve(tokenIds);
+    for (const b of books.values()) marketParams.observeBook(b);
+    await startPriceService.resolve(activeMarkets);
+    await orderManager.chase(books, nowMs);
 
     const activeSlugs = new Set(activeMarkets.map((m) => m.slug || "").filter(Boolean));
-    tracker.cleanupExpiredMarkets(activeSlugs);
+    for (const pos of tracker.cleanupExpiredMarkets(activeSlugs)) redeemer?.watchPosition(pos);
+    await quoter.prune(activeSlugs);
+    fills.prune(nowMs);
+    await manageTakeProfits(nowMs);
 
     for (const market of activeMarkets) {
       const yesToken = findYesToken(market);
@@ -360,85 +893,101 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
       const ctx = buildMarketContext(
         market,
         books.get(yesToken.token_id) ?? null,
-        books.get(noToken.token_id) ?? null
+        books.get(noToken.token_id) ?? null,
+        marketParams.get(yesToken.token_id)
       );
       const slug = market.slug || "";
       const mKey = market.conditionId || slug || market.id;
-
-      // 记录起点价
-      if (!marketStartPrices.has(mKey) && lastBtcPrice > 0) {
-        marketStartPrices.set(mKey, lastBtcPrice);
-        console.log(`[Start] ${slug?.slice(0, 30)}: BTC $${lastBtcPrice.toFixed(0)}`);
+      const asset = assetOfMarket(market);
+      const assetLabel = asset.toUpperCase();
+      tracker.setFeeRates(ctx.yesTokenId, ctx.fees);
+      tracker.setFeeRates(ctx.noTokenId, ctx.fees);
+      tracker.setMinOrderSize(ctx.yesTokenId, ctx.minOrderSize);
+      tracker.setMinOrderSize(ctx.noTokenId, ctx.minOrderSize);
+
+      // 记录起点价：官方起点价（窗口开始时刻 K 线）覆盖首见价；未取到时暂用本市场标的的当前价
+      const assetPrice = prices.price(asset);
+      const official = startPriceService.get(mKey);
+      const observedStart = marketStartPrices.get(mKey);
+      if (official && observedStart !== official.price) {
+        marketStartPrices.set(mKey, official.price);
+        journal?.recordStartPrice(mKey, slug, official.price);
+        recorder?.recordStartPrice(mKey, slug, official.price, true);
+        const scale = prices.scale(asset);
+        const drift = observedStart !== undefined ? `（首见价 $${formatAssetPrice(observedStart, scale)}，差 $${formatAssetPrice(observedStart - official.price, scale)}）` : "";
+        console.log(`[Start] ${slug?.slice(0, 30)}: ${assetLabel} $${formatAssetPrice(official.price, scale)} 官方起点价（${official.source.toUpperCase()} K 线）${drift}`);
+      } else if (!official && observedStart === undefined && assetPrice > 0) {
+        marketStartPrices.set(mKey, assetPrice);
+        journal?.recordStartPrice(mKey, slug, assetPrice);
+        recorder?.recordStartPrice(mKey, slug, assetPrice, false);
+        console.log(`[Start] ${slug?.slice(0, 30)}: ${assetLabel} $${formatAssetPrice(assetPrice, prices.scale(asset))}（首见价，官方起点价待查询）`);
       }
 
-      // 构建 bids map
-      const currentBids = new Map<string, { price: number; size: number }>();
-      if (ctx.yesBook?.bids?.[0]) {
-        currentBids.set(ctx.yesTokenId, {
-          price: parseFloat(ctx.yesBook.bids[0].price),
-          size: parseFloat(ctx.yesBook.bids[0].size),
-        });
-      }
-      if (ctx.noBook?.bids?.[0]) {
-        currentBids.set(ctx.noTokenId, {
-          price: parseFloat(ctx.noBook.bids[0].price),
-          size: parseFloat(ctx.noBook.bids[0].size),
-        });
-      }
-
-      // ========== 第一优先：检查出场 ==========
-      const exitSignals = tracker.checkScalpExit(currentBids);
-      for (const sig of exitSignals) {
-        const pos = tracker.getPosition(sig.tokenId);
-        const endMsForCheck = market.endDate ? new Date(market.endDate).getTime() : 0;
-        const entrySecsBeforeEnd = (endMsForCheck - (pos?.entryTime || 0)) / 1000;
-        const isEndgamePos = pos && entrySecsBeforeEnd <= 130;
-
-        if (isEndgamePos) {
-          const holdSec = Math.round((nowMs - pos!.entryTime) / 1000);
-          if (nowMs - lastStatusLog < 200) {
-            console.log(`  [HOLD] ENDGAME 持仓 ${pos!.side.toUpperCase()} @${pos!.avgPrice} (${holdSec}s) → 等结算`);
-          }
-          continue;
-        }
+      // 构建 bids map（买一 + 滑点范围内深度）
+      const currentBids = new Map<string, BidQuote>();
+      const yesBid = bidQuote(ctx.yesBook, config.maxSlippage);
+      if (yesBid) currentBids.set(ctx.yesTokenId, yesBid);
+      const noBid = bidQuote(ctx.noBook, config.maxSlippage);
+      if (noBid) currentBids.set(ctx.noTokenId, noBid);
 
-        // === 最小持仓时间检查（30秒）===
-        const holdMs = nowMs - (pos?.entryTime || 0);
-        if (holdMs < MIN_HOLD_BEFORE_SELL_MS) {
-          const waitSec = Math.round((MIN_HOLD_BEFORE_SELL_MS - holdMs) / 1000);
-          // 只在首次打印，避免刷屏
-          if (holdMs > MIN_HOLD_BEFORE_SELL_MS - 3000) {
-            console.log(`[EXIT] 持仓 ${Math.round(holdMs / 1000)}s，还需等 ${waitSec}s 让代币结算`);
-          }
-          continue;
-        }
+      const endMs = market.endDate ? new Date(market.endDate).getTime() : 0;
+      const secsLeft = (endMs - nowMs) / 1000;
+      const oracleRef = config.oracleFeed !== "off" ? { source: oracleSourceOf(market), slotStartMs: slotStartMsOf(market) } : undefined;
+      const btc = prices.btcState(asset, marketStartPrices.get(mKey), nowMs, oracleRef);
+      const env: StrategyEnv = { nowMs, secsLeft, marketSlug: slug, tracker, currentBids, sizer };
+      const results = strategies.map((st) => st.evaluate(ctx, btc, env));
+      // 行情过期：参考价或任一侧订单簿太久没更新时不开新仓、撤做市报价
+      const priceAgeMs = nowMs - prices.updatedAt(asset);
+      const bookAgeMs = nowMs - Math.min(bookSeenAt.get(yesToken.token_id) ?? 0, bookSeenAt.get(noToken.token_id) ?? 0);
+      const stale = priceAgeMs > config.maxPriceAgeMs || bookAgeMs > config.maxBookAgeMs;
 
+      // ========== 第一优先：检查出场 ==========
+      // 对账接管的遗留持仓不属于任何策略：统一按 scalp 规则出场
+      const exits = [...results.flatMap((r) => r.exits), ...scalpExits(env, RECOVERED_STRATEGY)];
+      for (const sig of exits) {
+        // 上一笔卖单的成交推送未到：持仓尚未更新，避免重复卖出
+        if (fills.isAwaitingFill(sig.tokenId, nowMs)) continue;
         console.log(`[EXIT] ${sig.reason}`);
 
-        // 使用增强版卖出函数（检查余额 + sync + 重试）
+        // 使用增强版卖出函数（检查余额 + sync + 重试），成交由 trackOrder 记账
         const sold = await attemptSell(sig.tokenId, sig, ctx);
         if (sold) {
-          tracker.recordSell(sig.tokenId, sig.size);
           // 如果是止损，设置冷却期
           if (sig.reason.includes("止损")) {
-            lossCooldownUntil.set(slug, nowMs + LOSS_COOLDOWN_MS);
+            setLossCooldown(slug, nowMs + LOSS_COOLDOWN_MS);
             console.log(`[COOL] ${slug.slice(0, 20)} 止损冷却 ${LOSS_COOLDOWN_MS / 1000}s，不再入场`);
           }
         } else {
           console.error("[EXIT] 3次卖出均失败，强制清仓标记");
           tracker.recordSell(sig.tokenId, sig.size);
           // 卖出失败也设置冷却
-          lossCooldownUntil.set(slug, nowMs + LOSS_COOLDOWN_MS);
+          setLossCooldown(slug, nowMs + LOSS_COOLDOWN_MS);
         }
       }
 
-      // ========== 第二优先：如果有持仓，不开新单 ==========
-      if (tracker.hasOpenPosition()) continue;
+      // 持有到结算的仓位：状态日志里提示一次
+      if (nowMs - lastStatusLog < 200) {
+        for (const side of ["up", "down"] as const) {
+          const pos = tracker.getPositionByMarketAndSide(slug, side);
+          if (!pos || pos.strategy === "trend" || pos.strategy === "latency" || pos.strategy === RECOVERED_STRATEGY) continue;
+          const holdSec = Math.round((nowMs - pos.entryTime) / 1000);
+          console.log(`  [HOLD] ${pos.strategy.toUpperCase()} 持仓 ${pos.side.toUpperCase()} @${pos.avgPrice.toFixed(2)} (${holdSec}s) → 等结算`);
+        }
+      }
 
-      // ========== 第三优先：检查入场 ==========
-      const endMs = market.endDate ? new Date(market.endDate).getTime() : 0;
-      const secsLeft = (endMs - nowMs) / 1000;
+      // 做市报价：撤旧挂新（不受下面的持仓 / 入场条件限制，mm 库存由策略按 MM_MAX_INVENTORY 控制）
+      for (const r of results) {
+        if (r.quotes) await maintainQuotes(r.quotes, ctx, slug, asset, endMs, stale, nowMs);
+      }
+
+      // ========== 第二优先：本标的有持仓（或买单挂着/成交推送未到/两腿入场执行中），不开新单；不同标的互不阻塞 ==========
+      const ofAsset = (s: string) => assetOfMarket({ slug: s }) === asset;
+      if (tracker.hasOpenPosition((pos) => ofAsset(pos.marketSlug))
+        || orderManager.hasOpenBuy(ofAsset)
+        || fills.isAwaitingFill((o) => ofAsset(o.marketSlug), nowMs)
+        || pairInFlight(ofAsset)) continue;
 
+      // ========== 第三优先：检查入场 ==========
       // 不在最后 15 秒入场
       if (secsLeft <= 15) continue;
 
@@ -451,168 +1000,52 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
         continue;
       }
 
-      // 消费延迟信号
-      if (latencySignalDirection) latencySignalDirection = null;
-
-      // 用市场概率验证方向
-      const upAsk = ctx.yesBook?.asks?.[0] ? parseFloat(ctx.yesBook.asks[0].price) : 0.5;
-      const downAsk = ctx.noBook?.asks?.[0] ? parseFloat(ctx.noBook.asks[0].price) : 0.5;
-      const upBid = ctx.yesBook?.bids?.[0] ? parseFloat(ctx.yesBook.bids[0].price) : 0.5;
-      const downBid = ctx.noBook?.bids?.[0] ? parseFloat(ctx.noBook.bids[0].price) : 0.5;
-
-      const marketDir = upBid > downBid ? "up" : "down";
-
-      const startPrice = marketStartPrices.get(mKey);
-      if (lastBtcPrice > 0) {
-        const diff = startPrice ? lastBtcPrice - startPrice : 0;
-        const absDiff = startPrice ? Math.abs(diff) : 0;
-        const btcDir = diff > 0 ? "up" : "down";
-
-        const dir = marketDir;
-
-        // 安全检查1：BTC 方向与市场方向需一致
-        const btcAgrees = !startPrice || btcDir === dir || absDiff < 20;
-
-        // 安全检查2：BTC 震荡时不入场
-        if (isBtcChoppy()) {
-          if (nowMs - lastStatusLog < 200) {
-            console.log(`  [⚠CHOPPY] BTC 震荡，跳过入场`);
-          }
-          continue;
+      if (stale) {
+        if (nowMs - lastStatusLog < 200) {
+          const age = (ms: number) => (ms > 3_600_000 ? "—" : `${(ms / 1000).toFixed(1)}s`);
+          console.log(`  [Stale] 参考价 ${age(priceAgeMs)} / 订单簿 ${age(bookAgeMs)} 未更新，跳过入场`);
         }
+        continue;
+      }
 
-        const book = dir === "up" ? ctx.yesBook : ctx.noBook;
-        const tokenId = dir === "up" ? ctx.yesTokenId : ctx.noTokenId;
-        const bestAsk = book?.asks?.[0];
-
-        const ensureMinCost = (price: number, minSize: number): number => {
-          if (price * minSize < 1.0) return Math.ceil(1.0 / price);
-          return minSize;
-        };
-
-        const winnerBid = dir === "up" ? upBid : downBid;
-
-        // === 策略1: TREND（要求 BTC 偏离 > $40 + bid >= 0.70 + BTC 方向一致）===
-        if (secsLeft > 120 && winnerBid >= config.trendMinBid && btcAgrees && bestAsk && absDiff >= MIN_BTC_DEVIATION) {
-          const askPrice = parseFloat(bestAsk.price);
-          const askSize = parseFloat(bestAsk.size);
-          const minSize = ensureMinCost(askPrice, 5);
-          const size = Math.max(minSize, Math.min(askSize, config.orderSizeMax));
-
-          if (askPrice >= 0.50 && askPrice <= 0.75 && size >= 5) {
-            const cost = askPrice * size;
-            if (tracker.canBuy(slug, cost) && cost >= 1.0) {
-              console.log(`[TREND] ${dir === "up" ? "Up" : "Down"} bid=${winnerBid} ask=${askPrice} BTC${diff >= 0 ? "+" : ""}$${diff.toFixed(0)} | @${askPrice} x${size}=$${cost.toFixed(2)} | ${Math.round(secsLeft)}s`);
-              try {
-                const signal = {
-                  type: "ev_arb" as const,
-                  tokenId,
-                  side: "BUY" as const,
-                  price: askPrice,
-                  size,
-                  theoreticalProb: 0,
-                  marketPrice: askPrice,
-                  secondsLeft: secsLeft,
-                };
-                const r = await executeSignal(client, signal, ctx.tickSize, ctx.negRisk);
-                if (r.ok) {
-                  console.log(`[TREND] 买入成功:`, r.orderIds);
-                  tracker.recordBuy(tokenId, dir as "up" | "down", askPrice, size, slug);
-                  // 买入后 sync token 授权（重试 3 次）
-                  for (let si = 0; si < 3; si++) {
-                    const ok = await client.syncTokenBalance(tokenId);
-                    if (ok) break;
-                    await new Promise((r) => setTimeout(r, 2000));
-                  }
-                } else {
-                  console.error(`[TREND] 买入失败:`, r.error);
-                }
-              } catch (e) {
-                console.error("[TREND] err:", e);
-              }
-              continue;
-            }
-          }
-        }
+      if (btc.choppy && nowMs - lastStatusLog < 200) {
+        console.log(`  [⚠CHOPPY] ${assetLabel} 震荡，跳过方向性入场`);
+      }
 
-        // === 策略2: ENDGAME（末日轮，持有到结算）===
-        if (secsLeft <= 120 && secsLeft >= 15 && winnerBid >= 0.80 && bestAsk) {
-          const askPrice = parseFloat(bestAsk.price);
-          const askSize = parseFloat(bestAsk.size);
-          const minSize = ensureMinCost(askPrice, 5);
-          const size = Math.max(minSize, Math.min(askSize, config.orderSizeMax));
-
-          if (askPrice <= config.endgameMaxAsk && size >= 5) {
-            const cost = askPrice * size;
-            const expectedProfit = (1.0 - askPrice) * size;
-            if (tracker.canBuy(slug, cost) && cost >= 1.0) {
-              console.log(`[ENDGAME] ${dir === "up" ? "Up" : "Down"} bid=${winnerBid} @${askPrice} x${size} | cost=$${cost.toFixed(2)} 利润=$${expectedProfit.toFixed(2)} | ${Math.round(secsLeft)}s left`);
-              try {
-                const signal = {
-                  type: "ev_arb" as const,
-                  tokenId,
-                  side: "BUY" as const,
-                  price: askPrice,
-                  size,
-                  theoreticalProb: 0,
-                  marketPrice: askPrice,
-                  secondsLeft: secsLeft,
-                };
-                const r = await executeSignal(client, signal, ctx.tickSize, ctx.negRisk);
-                if (r.ok) {
-                  console.log(`[ENDGAME] 买入成功:`, r.orderIds, `→ 等结算 (~${Math.round(secsLeft)}s)`);
-                  tracker.recordBuy(tokenId, dir as "up" | "down", askPrice, size, slug);
-                  for (let si = 0; si < 3; si++) {
-                    const ok = await client.syncTokenBalance(tokenId);
-                    if (ok) break;
-                    await new Promise((r) => setTimeout(r, 2000));
-                  }
-                } else {
-                  console.error(`[ENDGAME] 买入失败:`, r.error);
-                }
-              } catch (e) {
-                console.error("[ENDGAME] err:", e);
-              }
-              continue;
-            }
-          }
+      // 按优先级执行第一个通过仓位风控的入场意图
+      const entry = results.flatMap((r) => r.entries).find((e) => tracker.canBuy(slug, e.cost));
+      if (entry) {
+        // 全局风控：日内亏损 / 连亏暂停 / 总敞口 / kill switch
+        const decision = risk.checkEntry(entry.cost, totalExposure(), nowMs);
+        if (!decision.ok) {
+          if (nowMs - lastStatusLog < 200) console.log(`  [Risk] 跳过 ${entry.strategy.toUpperCase()} 入场：${decision.reason}`);
+          continue;
         }
+        await executeEntry(entry, ctx, slug);
+        await refreshBalance().catch(() => {});
+        continue;
+      }
 
-        // 状态日志
-        if (nowMs - lastStatusLog < 200 && bestAsk) {
+      // 状态日志
+      if (nowMs - lastStatusLog < 200 && btc.price > 0) {
+        const { dir, diff, bestAsk } = readMarketDirection(ctx, btc.price, btc.startPrice, btc.scale);
+        const usd = (v: number) => formatAssetPrice(v, btc.scale);
+        if (bestAsk) {
           const askP = parseFloat(bestAsk.price);
           const zone = secsLeft <= 120 ? "🔴末日轮" : secsLeft <= 300 ? "🟡末5min" : "⚪监控中";
           const dirStr = dir === "up" ? "Up" : "Down";
-          const deviationStr = absDiff >= MIN_BTC_DEVIATION ? "" : ` (BTC偏离$${absDiff.toFixed(0)}<$${MIN_BTC_DEVIATION})`;
-          console.log(`  [${zone}] BTC${diff > 0 ? "+" : ""}$${diff.toFixed(0)} | ${dirStr} ask=${askP} | ${Math.round(secsLeft)}s${deviationStr}`);
+          const fair = fairValue(btc, secsLeft);
+          const fairP = fair ? (dir === "up" ? fair.up : fair.down) : 0;
+          const fairStr = fair
+            ? ` | fair=${fairP.toFixed(2)} edge=${fairEdge(fairP, askP, ctx.fees.takerBps).toFixed(2)} σ=${(fair.volDaily * 100).toFixed(1)}%/d`
+            : "";
+          console.log(`  [${zone}] ${assetLabel}${diff > 0 ? "+" : ""}$${usd(diff)} | ${dirStr} ask=${askP}${fairStr} | ${Math.round(secsLeft)}s`);
         }
-      } else if (latencySignalDirection) {
-        latencySignalDirection = null;
       }
-
-      // --- NegRisk（保留） ---
-      if (config.strategyNegRiskArb && ctx.yesBook?.asks?.[0] && ctx.noBook?.asks?.[0]) {
+      if (nowMs - lastStatusLog < 200 && ctx.yesBook?.asks?.[0] && ctx.noBook?.asks?.[0] && strategies.some((st) => st.name === "neg_risk")) {
         const askYes = parseFloat(ctx.yesBook.asks[0].price);
         const askNo = parseFloat(ctx.noBook.asks[0].price);
-        const sum = askYes + askNo;
-
-        if (nowMs - lastStatusLog < 200) {
-          console.log(`  [NegRisk] Up=${askYes} Down=${askNo} sum=${sum.toFixed(3)} (need <${config.negRiskMaxSum})`);
-        }
-
-        const negSignal = checkNegRiskArb(ctx, { maxSum: config.negRiskMaxSum, orderSizeMin: config.orderSizeMin, orderSizeMax: config.orderSizeMax });
-        if (negSignal) {
-          const cost = negSignal.askYes * negSignal.size + negSignal.askNo * negSignal.size;
-          if (tracker.canBuy(slug, cost)) {
-            console.log(`[ENTER] NegRisk: sum=${negSignal.sum.toFixed(3)} 保底利润!`);
-            const r = await executeSignal(client, negSignal, ctx.tickSize, ctx.negRisk);
-            if (r.ok) {
-              console.log("[ENTER] NegRisk 成功:", r.orderIds);
-              tracker.recordBuy(negSignal.yesTokenId, "up", negSignal.askYes, negSignal.size, slug);
-              tracker.recordBuy(negSignal.noTokenId, "down", negSignal.askNo, negSignal.size, slug);
-            }
-          }
-        }
+        console.log(`  [NegRisk] Up=${askYes} Down=${askNo} sum=${(askYes + askNo).toFixed(3)} (need <${config.negRiskMaxSum})`);
       }
     }
   };
@@ -626,20 +1059,64 @@ export async function run(options: RunnerOptions = {}): Promise<void> {
   });
 
   // 智能轮询
-  const smartPoll = async () => {
+  // 调度：定时轮询兜底（出场计时、市场刷新、REST 回退），订单簿推送时提前触发
+  // 同一时刻只跑一轮；运行中收到推送则本轮结束后隔 EVENT_MIN_GAP_MS 再跑
+  const EVENT_MIN_GAP_MS = 250;
+  let running = false;
+  let rerun = false;
+  let lastRunEnd = 0;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function schedule(delayMs: number): void {
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = setTimeout(smartPoll, delayMs);
+  }
+
+  function triggerRun(): void {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    schedule(Math.max(0, lastRunEnd + EVENT_MIN_GAP_MS - Date.now()));
+  }
+
+  async function smartPoll(): Promise<void> {
+    pollTimer = null;
+    running = true;
     try {
       await runOnce();
     } catch (e) {
       console.error("[WARN] runOnce err:", e instanceof Error ? e.message : e);
+    } finally {
+      running = false;
+      lastRunEnd = Date.now();
+    }
+    if (rerun) {
+      rerun = false;
+      schedule(EVENT_MIN_GAP_MS);
+      return;
     }
     const pollMs = tracker.hasOpenPosition() ? 1000
       : marketResult.inWindow.length > 0 ? FAST_POLL_MS
       : IDLE_POLL_MS;
-    setTimeout(smartPoll, pollMs);
-  };
+    schedule(pollMs);
+  }
 
   smartPoll();
 
-  process.on("SIGINT", () => { if (okxWs) closeOkxWs(okxWs); requestStop(); process.exit(0); });
-  process.on("SIGTERM", () => { if (okxWs) closeOkxWs(okxWs); requestStop(); process.exit(0); });
+  const shutdown = () => {
+    health.stop();
+    priceFeed?.close();
+    oracleFeed?.close();
+    bookFeed?.close();
+    userFeed.close();
+    requestStop();
+    // 等两腿入场收尾、撤掉做市报价；录制文件需写完 gzip 尾部再退出
+    Promise.allSettled([...pairTasks.values()].map((t) => t.done))
+      .then(() => quoter.pullAll("停止运行").catch(() => {}))
+      .then(() => recorder?.close())
+      .finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
 }
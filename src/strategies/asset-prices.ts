@@ -0,0 +1,170 @@
+/**
+ * 多标的行情：每个标的（btc / eth / sol / xrp）独立的最新价与价格历史，按市场所属标的构建 BtcState
+ *
+ * 策略里的美元阈值（偏离起点 $40、震荡 $80、EV 安全垫、延迟套利跳动、波动率仓位基准）都按 BTC 标定，
+ * 其他标的按 标的价 / BTC 价 缩放（BtcState.scale），即要求相同的相对波动；BTC 的 scale 恒为 1。
+ * 非 BTC 标的在 BTC 价到达前无法换算，price 视为 0（不入场）
+ *
+ * 结算源价格（见 api/oracle-feed.ts）按 来源 × 标的 维护：最新价、基差（参考价 − 结算源价，EWMA 平滑）
+ * 与按秒抽样的近 2 小时历史（查窗口开始时刻的结算源起点价）；超过 ORACLE_STALE_MS 没更新视为暂无
+ *
+ * 每个标的另有实现波动率估计（VolatilityEstimator，见 pricing.ts），公允价按 BtcState.volDaily 计算
+ */
+
+import { BtcPriceHistory } from "./scalp.js";
+import { LATENCY_WINDOW_MS } from "./latency-arb.js";
+import { VolatilityEstimator } from "./pricing.js";
+import type { VolatilityOptions } from "./pricing.js";
+import type { BtcState } from "./types.js";
+
+const REFERENCE_ASSET = "btc";
+const ORACLE_STALE_MS = 15_000;
+const ORACLE_HISTORY_MS = 2 * 3_600_000;
+const ORACLE_SAMPLE_MS = 1_000;
+const ORACLE_START_TOLERANCE_MS = 10_000; // 窗口开始后多久内的第一笔可作为结算源起点价
+const BASIS_EWMA_ALPHA = 0.1;
+
+interface AssetState {
+  price: number;
+  updatedAt: number;
+  history: BtcPriceHistory;
+  vol: VolatilityEstimator;
+}
+
+interface OracleState {
+  price: number;
+  ts: number;
+  basis: number;
+  hasBasis: boolean;
+  history: Array<{ ts: number; price: number }>; // 按秒抽样，升序
+}
+
+/** 本市场的结算源：来源与窗口开始时间 */
+export interface OracleRef {
+  source: string;
+  slotStartMs: number;
+}
+
+export class AssetPrices {
+  private readonly states = new Map<string, AssetState>();
+  private readonly oracles = new Map<string, OracleState>(); // `${source}:${asset}`
+
+  constructor(private readonly volOptions: VolatilityOptions = {}) {}
+
+  private stateOf(asset: string): AssetState {
+    let s = this.states.get(asset);
+    if (!s) {
+      s = { price: 0, updatedAt: 0, history: new BtcPriceHistory(), vol: new VolatilityEstimator(this.volOptions) };
+      this.states.set(asset, s);
+    }
+    return s;
+  }
+
+  record(asset: string, price: number, ts: number = Date.now()): void {
+    if (!(price > 0)) return;
+    const s = this.stateOf(asset);
+    s.price = price;
+    s.updatedAt = ts;
+    s.history.record(price, ts);
+    s.vol.record(price, ts);
+  }
+
+  /** 结算源价格：更新最新价、基差（有参考价时）与抽样历史 */
+  recordOracle(source: string, asset: string, price: number, ts: number = Date.now()): void {
+    if (!(price > 0)) return;
+    const key = `${source}:${asset}`;
+    let o = this.oracles.get(key);
+    if (!o) {
+      o = { price, ts, basis: 0, hasBasis: false, history: [] };
+      this.oracles.set(key, o);
+    }
+    o.price = price;
+    o.ts = ts;
+    const spot = this.price(asset);
+    if (spot > 0) {
+      const basis = spot - price;
+      o.basis = o.hasBasis ? o.basis + BASIS_EWMA_ALPHA * (basis - o.basis) : basis;
+      o.hasBasis = true;
+    }
+    const last = o.history[o.history.length - 1];
+    if (!last || ts - last.ts >= ORACLE_SAMPLE_MS) {
+      o.history.push({ ts, price });
+      while (o.history.length > 0 && ts - o.history[0].ts > ORACLE_HISTORY_MS) o.history.shift();
+    }
+  }
+
+  /** 结算源最新价（超过 ORACLE_STALE_MS 未更新为 0） */
+  oraclePrice(source: string, asset: string, nowMs: number = Date.now()): number {
+    const o = this.oracles.get(`${source}:${asset}`);
+    return o && nowMs - o.ts <= ORACLE_STALE_MS ? o.price : 0;
+  }
+
+  /** 基差：参考价 − 结算源价（平滑）；结算源过期或无参考价为 0 */
+  basis(source: string, asset: string, nowMs: number = Date.now()): number {
+    const o = this.oracles.get(`${source}:${asset}`);
+    return o?.hasBasis && nowMs - o.ts <= ORACLE_STALE_MS ? o.basis : 0;
+  }
+
+  /** 结算源在 tsMs 时刻的价格：该时刻起 ORACLE_START_TOLERANCE_MS 内的第一笔（未观察到为 undefined） */
+  oracleAt(source: string, asset: string, tsMs: number): number | undefined {
+    const hit = this.oracles.get(`${source}:${asset}`)?.history.find((h) => h.ts >= tsMs);
+    return hit && hit.ts - tsMs <= ORACLE_START_TOLERANCE_MS ? hit.price : undefined;
+  }
+
+  /** 最新价，0 = 暂无 */
+  price(asset: string): number {
+    return this.states.get(asset)?.price ?? 0;
+  }
+
+  /** 最近一次更新时间（毫秒），0 = 暂无 */
+  updatedAt(asset: string): number {
+    return this.states.get(asset)?.updatedAt ?? 0;
+  }
+
+  /** 日化实现波动率（样本不足时为默认值） */
+  volatility(asset: string): number {
+    return this.stateOf(asset).vol.daily();
+  }
+
+  history(asset: string): BtcPriceHistory {
+    return this.stateOf(asset).history;
+  }
+
+  /** 美元阈值换算系数：BTC = 1，其他标的 = 标的价 / BTC 价（缺价为 0） */
+  scale(asset: string): number {
+    if (asset === REFERENCE_ASSET) return 1;
+    const price = this.price(asset);
+    const ref = this.price(REFERENCE_ASSET);
+    return price > 0 && ref > 0 ? price / ref : 0;
+  }
+
+  isChoppy(asset: string, nowMs: number = Date.now()): boolean {
+    const scale = this.scale(asset);
+    return this.price(asset) > 0 && scale > 0 && this.history(asset).isChoppy(nowMs, scale);
+  }
+
+  /** 策略用的行情视图；startPrice 为该市场的起点价，oracle 为该市场的结算源（缺省 = 不考虑基差） */
+  btcState(asset: string, startPrice: number | undefined, nowMs: number, oracle?: OracleRef): BtcState {
+    const scale = this.scale(asset);
+    const history = this.history(asset);
+    const oraclePrice = oracle ? this.oraclePrice(oracle.source, asset, nowMs) : 0;
+    return {
+      asset,
+      scale,
+      price: scale > 0 ? this.price(asset) : 0,
+      startPrice,
+      windowStartPrice: history.firstSince(nowMs - LATENCY_WINDOW_MS),
+      choppy: this.isChoppy(asset, nowMs),
+      rangeUsd: history.range(nowMs),
+      volDaily: this.volatility(asset),
+      oraclePrice,
+      oracleStartPrice: oracle ? this.oracleAt(oracle.source, asset, oracle.slotStartMs) : undefined,
+      basisUsd: oracle && oraclePrice > 0 ? this.basis(oracle.source, asset, nowMs) : 0,
+    };
+  }
+}
+
+/** 日志用：按价格量级保留小数（BTC 取整，ETH / SOL 两位，XRP 四位） */
+export function formatAssetPrice(value: number, scale: number): string {
+  return value.toFixed(scale >= 1 || scale <= 0 ? 0 : scale < 0.001 ? 4 : 2);
+}
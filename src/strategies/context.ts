@@ -0,0 +1,47 @@
+/**
+ * 市场上下文构建：从 Gamma 市场 + 订单簿组装 MarketContext（runner 与回测共用）
+ */
+
+import type { OrderBookSummary } from "../api/clob.js";
+import type { GammaMarket } from "../api/gamma.js";
+import { DEFAULT_MARKET_PARAMS, paramsFromBook } from "../api/market-params.js";
+import type { MarketParams } from "../api/market-params.js";
+import { feeRatesFor } from "../risk/fees.js";
+import type { MarketContext } from "./types.js";
+
+export function findYesToken(market: GammaMarket) {
+  return market.tokens?.find((t) => /^(yes|up)$/i.test(t.outcome)) ?? market.tokens?.[0];
+}
+export function findNoToken(market: GammaMarket) {
+  return market.tokens?.find((t) => /^(no|down)$/i.test(t.outcome)) ?? market.tokens?.[1];
+}
+
+/**
+ * params 为 CLOB 解析出的交易参数；未提供时取订单簿附带字段，再缺省为 0.01 tick / Gamma negRisk
+ * 费率：CLOB fee-rate，其次 Gamma takerBaseFee / makerBaseFee
+ */
+export function buildMarketContext(
+  market: GammaMarket,
+  yesBook: OrderBookSummary | null | undefined,
+  noBook: OrderBookSummary | null | undefined,
+  params?: MarketParams | null
+): MarketContext {
+  const yesToken = findYesToken(market);
+  const noToken = findNoToken(market);
+  const p: MarketParams = params ?? {
+    ...DEFAULT_MARKET_PARAMS,
+    negRisk: !!market.negRisk,
+    ...paramsFromBook(yesBook ?? noBook),
+  };
+  return {
+    market,
+    yesTokenId: yesToken?.token_id ?? "",
+    noTokenId: noToken?.token_id ?? "",
+    yesBook: yesBook ?? null,
+    noBook: noBook ?? null,
+    tickSize: p.tickSize,
+    negRisk: p.negRisk,
+    minOrderSize: p.minOrderSize,
+    fees: feeRatesFor(market, p),
+  };
+}
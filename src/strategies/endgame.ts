@@ -0,0 +1,68 @@
+/**
+ * 策略：ENDGAME（末日轮，持有到结算）
+ *
+ * 最后 15~120s，赢方 bid >= 0.80 且 ask <= endgameMaxAsk → 买入赢方（滑点范围内可吃多档，最差一档不超过 endgameMaxAsk），
+ * 不做 scalp 出场，等结算按 $1 兑付
+ *
+ * 结算按市场的结算源（Chainlink / Binance）而不是参考价：有结算源价时按扣除基差后的偏离（settlementDiff）
+ * 计算公允价（见 pricing.ts），结算源口径的方向与盘口赢方不一致（起点附近基差可翻转结果）、
+ * 或按预期均价吃单的公允价边际为负时不入场
+ */
+
+import type { EnvConfig } from "../config/index.js";
+import type { BtcState, MarketContext, Strategy, StrategyEnv, StrategyResult } from "./types.js";
+import { formatPlan } from "../execution/planner.js";
+import { formatAssetPrice } from "./asset-prices.js";
+import { fairEdge, fairValue, settlementDiff } from "./pricing.js";
+import { readMarketDirection, sizeAtAsk } from "./scalp.js";
+
+export type EndgameConfig = Pick<EnvConfig, "endgameMaxAsk" | "maxSlippage">;
+
+export function createEndgameStrategy(config: EndgameConfig): Strategy {
+  return {
+    name: "endgame",
+    evaluate(ctx: MarketContext, btc: BtcState, env: StrategyEnv): StrategyResult {
+      const none: StrategyResult = { entries: [], exits: [] };
+      if (btc.price <= 0 || btc.choppy || env.secsLeft > 120 || env.secsLeft < 15) return none;
+
+      const { dir, tokenId, winnerBid, bestAsk, asks } = readMarketDirection(ctx, btc.price, btc.startPrice, btc.scale);
+      if (!bestAsk || winnerBid < 0.80) return none;
+
+      // 结算源口径：扣除基差后方向须与赢方一致，公允价也按结算源口径的偏离计算（无起点价为 0 = 未知）
+      const settleDiff = btc.oraclePrice > 0 ? settlementDiff(btc) : null;
+      if (settleDiff !== null && (settleDiff > 0) !== (dir === "up")) return none;
+      const fair = fairValue(btc, env.secsLeft);
+      const prob = fair ? (dir === "up" ? fair.up : fair.down) : 0;
+      const sized = sizeAtAsk(asks, ctx, btc, env, prob, { maxSlippage: config.maxSlippage, worstPrice: config.endgameMaxAsk });
+      if (!sized || sized.size < ctx.minOrderSize || sized.cost - sized.fee < 1.0) return none;
+      const { plan, size, cost, fee } = sized;
+      const price = plan.limitPrice;
+      if (fair && fairEdge(prob, plan.avgPrice, ctx.fees.takerBps) < 0) return none;
+
+      // 结算按 $1 兑付（兑付不收手续费）：净利润 = 张数 − 含手续费成本
+      const expectedProfit = size - cost;
+      if (expectedProfit <= 0) return none;
+      return {
+        exits: [],
+        entries: [{
+          strategy: "endgame",
+          hold: "settle",
+          cost,
+          signal: {
+            type: "ev_arb",
+            tokenId,
+            side: "BUY",
+            price,
+            size,
+            theoreticalProb: prob,
+            marketPrice: plan.bestPrice,
+            secondsLeft: env.secsLeft,
+            orderType: "GTD", // 挂单最迟随市场结束失效
+          },
+          expectedPrices: { [tokenId]: plan.avgPrice },
+          log: `${dir === "up" ? "Up" : "Down"} bid=${winnerBid}${fair ? ` fair=${prob.toFixed(2)}` : ""} ${formatPlan(plan)} x${size} | cost=$${cost.toFixed(2)}${fee > 0 ? `（含手续费 $${fee.toFixed(3)}）` : ""} 净利润=$${expectedProfit.toFixed(2)} | ${Math.round(env.secsLeft)}s left${btc.oraclePrice > 0 ? ` | 基差 $${formatAssetPrice(btc.basisUsd, btc.scale)}` : ""}`,
+        }],
+      };
+    },
+  };
+}
@@ -8,8 +8,10 @@
  * 3. 止盈模式：买入后立即挂 +0.05 的卖单，做快速 scalp
  */
 
-import type { MarketContext } from "./types.js";
+import type { MarketContext, Strategy } from "./types.js";
 import type { EvArbSignal } from "./types.js";
+import { feePerShare, tradeFee } from "../risk/fees.js";
+import { DEFAULT_DAILY_VOL, winProbability } from "./pricing.js";
 
 export interface EvArbConfig {
   lastSeconds: number;
@@ -40,7 +42,8 @@ export function checkEvArb(
   config: EvArbConfig,
   nowMs: number,
   btcPriceNow: number,
-  btcStartPrice: number
+  btcStartPrice: number,
+  dailyVol: number = DEFAULT_DAILY_VOL
 ): EvArbResult | null {
   const endDate = ctx.market.endDate;
   const endMs = typeof endDate === "string" ? new Date(endDate).getTime() : endDate;
@@ -51,11 +54,7 @@ export function checkEvArb(
   const absDiff = Math.abs(diff);
   if (absDiff < config.minDiffUsd) return null;
 
-  // 波动率模型
-  const dailyVol = 0.02;
-  const sigmaRemaining = dailyVol * btcPriceNow * Math.sqrt(secondsLeft / 86400);
-  const zScore = absDiff / sigmaRemaining;
-  const theoreticalProb = normCDF(zScore);
+  const theoreticalProb = winProbability(absDiff, btcPriceNow, secondsLeft, dailyVol);
   const probClamped = Math.min(0.95, Math.max(0.05, theoreticalProb));
 
   const isUpFavored = diff > 0;
@@ -73,7 +72,8 @@ export function checkEvArb(
   // 不买太贵的票（>0.90 利润空间太少）
   if (marketPrice > 0.90) return null;
 
-  const edge = probClamped - marketPrice;
+  // 净边际：扣除 taker 手续费
+  const edge = probClamped - marketPrice - feePerShare(marketPrice, ctx.fees.takerBps);
   if (edge < config.minEdge) return null;
 
   const tickSize = parseFloat(ctx.tickSize || "0.01");
@@ -88,6 +88,7 @@ export function checkEvArb(
     theoreticalProb: probClamped,
     marketPrice,
     secondsLeft,
+    orderType: "GTD",
   };
 
   // === 对冲计算 ===
@@ -102,7 +103,8 @@ export function checkEvArb(
     const oppSize = parseFloat(oppBestAsk.size);
     if (Number.isFinite(oppPrice) && oppSize > 0) {
       const pairSize = Math.min(size, oppSize);
-      const totalCost = price * pairSize + oppPrice * pairSize;
+      const totalCost = price * pairSize + oppPrice * pairSize
+        + tradeFee(price, pairSize, ctx.fees.takerBps) + tradeFee(oppPrice, pairSize, ctx.fees.takerBps);
       const guaranteedPayout = pairSize * 1.0; // 一边必赢，赢家 $1/share
       const netProfit = guaranteedPayout - totalCost;
 
@@ -124,20 +126,41 @@ export function checkEvArb(
   return { signal, hedge, profitTargetPrice };
 }
 
-function normCDF(x: number): number {
-  if (x < -8) return 0;
-  if (x > 8) return 1;
-  const a1 = 0.254829592;
-  const a2 = -0.284496736;
-  const a3 = 1.421413741;
-  const a4 = -1.453152027;
-  const a5 = 1.061405429;
-  const p = 0.3275911;
-  const sign = x < 0 ? -1 : 1;
-  const absX = Math.abs(x);
-  const t = 1.0 / (1.0 + p * absX);
-  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-absX * absX / 2);
-  return 0.5 * (1.0 + sign * y);
+/**
+ * EV 末日轮：理论胜率 - 市场价 >= minEdge 时买入，持有到结算
+ * 对面 ask 可锁定利润时附带对冲腿；未对冲部分挂 profitTargetPrice 止盈单
+ */
+export function createEvArbStrategy(config: EvArbConfig): Strategy {
+  return {
+    name: "ev_arb",
+    evaluate(ctx, btc, env) {
+      if (btc.price <= 0 || !btc.startPrice) return { entries: [], exits: [] };
+      // 安全垫按 BTC 标定，其他标的按价格比例缩放；胜率按标的实现波动率（见 pricing.ts）
+      const r = checkEvArb(ctx, { ...config, minDiffUsd: config.minDiffUsd * btc.scale }, env.nowMs, btc.price, btc.startPrice, btc.volDaily);
+      if (!r) return { entries: [], exits: [] };
+      const { signal, hedge, profitTargetPrice } = r;
+      const fee = (price: number, size: number) => tradeFee(price, size, ctx.fees.takerBps);
+      const netEdge = signal.theoreticalProb - signal.marketPrice - feePerShare(signal.marketPrice, ctx.fees.takerBps);
+      const dir = signal.tokenId === ctx.yesTokenId ? "Up" : "Down";
+      const hedgeLeg = hedge?.available
+        ? { tokenId: hedge.oppositeTokenId, price: hedge.oppositePrice, size: hedge.oppositeSize, netProfit: hedge.netProfit }
+        : undefined;
+      const hedgeStr = hedgeLeg ? ` | 对冲 @${hedgeLeg.price} x${hedgeLeg.size} 锁定+$${hedgeLeg.netProfit.toFixed(2)}` : "";
+      return {
+        exits: [],
+        entries: [{
+          strategy: "ev_arb",
+          hold: "settle",
+          cost: signal.price * signal.size + fee(signal.price, signal.size)
+            + (hedgeLeg ? hedgeLeg.price * hedgeLeg.size + fee(hedgeLeg.price, hedgeLeg.size) : 0),
+          signal,
+          hedge: hedgeLeg,
+          takeProfitPrice: profitTargetPrice,
+          log: `${dir} p=${signal.theoreticalProb.toFixed(2)} ask=${signal.marketPrice} edge=${netEdge.toFixed(2)} | @${signal.price} x${signal.size} 止盈@${profitTargetPrice}${hedgeStr} | ${Math.round(signal.secondsLeft)}s left`,
+        }],
+      };
+    },
+  };
 }
 
 function roundToTick(price: number, tickSize: number): number {
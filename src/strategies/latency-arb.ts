@@ -3,8 +3,9 @@
  * 监控 OKX BTC 价格跳动，当超过阈值时在 Polymarket 吃单（买 Up 或买 Down）
  */
 
-import type { MarketContext } from "./types.js";
+import type { MarketContext, Strategy } from "./types.js";
 import type { LatencyArbSignal } from "./types.js";
+import { scalpExits } from "./scalp.js";
 
 export interface LatencyArbConfig {
   priceJumpThresholdUsd: number;
@@ -66,6 +67,41 @@ export function checkLatencyArb(
   }
 }
 
+/** 观察窗口：BtcState.windowStartPrice 取此窗口起点价 */
+export const LATENCY_WINDOW_MS = 10_000;
+const LATENCY_COOLDOWN_MS = 15_000;
+
+/**
+ * 延迟套利：10 秒窗口内 BTC 跳动 >= 阈值时吃旧价挂单，之后按 scalp 规则出场
+ * 同一市场触发后冷却 15 秒
+ */
+export function createLatencyStrategy(config: LatencyArbConfig): Strategy {
+  const lastSignalMs = new Map<string, number>(); // market slug → 上次触发时间
+  return {
+    name: "latency",
+    evaluate(ctx, btc, env) {
+      const exits = scalpExits(env, "latency");
+      if (btc.price <= 0 || btc.windowStartPrice <= 0) return { entries: [], exits };
+      if (env.nowMs - (lastSignalMs.get(env.marketSlug) ?? 0) < LATENCY_COOLDOWN_MS) return { entries: [], exits };
+
+      const signal = checkLatencyArb(btc.windowStartPrice, btc.price, ctx, { ...config, priceJumpThresholdUsd: config.priceJumpThresholdUsd * btc.scale });
+      if (!signal) return { entries: [], exits };
+      lastSignalMs.set(env.marketSlug, env.nowMs);
+      return {
+        exits,
+        entries: [{
+          strategy: "latency",
+          hold: "scalp",
+          cost: signal.price * signal.size,
+          // 旧价挂单转瞬即逝：能吃多少吃多少，剩余不留挂单
+          signal: { ...signal, orderType: "FAK" },
+          log: `${LATENCY_WINDOW_MS / 1000}s ${signal.reason}`,
+        }],
+      };
+    },
+  };
+}
+
 function roundToTick(price: number, tickSize: number): number {
   const n = Math.round(price / tickSize) * tickSize;
   return Math.round(n * 1e6) / 1e6;
@@ -0,0 +1,114 @@
+/**
+ * 策略：MM（被动做市，挂单赚价差）
+ *
+ * 围绕公允价（见 pricing.ts）在 Up / Down 两个 token 上挂 postOnly GTD 单，不吃单：
+ * - 保留价：Up 公允价 − 库存偏移（净库存 = MM 持有的 Up 张数 − Down 张数，每张偏移 mmSkewPerShare），Down = 1 − Up
+ * - 买单：保留价 − mmHalfSpread（向下取 tick），净库存超过 mmMaxInventory 的方向不再买；买 Down 即另一侧的卖 Up
+ * - 卖单：持有的库存在 保留价 + mmHalfSpread 挂卖（向上取 tick）
+ * - 报价不穿价：买单低于卖一、卖单高于买一；扣 maker 手续费后无边际的不挂
+ * - 撤单（pulled）：剩余 <= mmPullSeconds、10 秒内标的跳动超过 mmPullMoveUsd（按 BTC 标定）、无起点价；库存持有到结算
+ *
+ * 本模块只计算目标报价，撤换挂单由 execution/quoter.ts 完成；风控、行情过期与其他策略持仓的撤单由 runner 判断
+ */
+
+import type { EnvConfig } from "../config/index.js";
+import type { BtcState, MarketContext, Quote, Strategy, StrategyEnv, StrategyResult } from "./types.js";
+import { feePerShare } from "../risk/fees.js";
+import { formatAssetPrice } from "./asset-prices.js";
+import { fairValue } from "./pricing.js";
+import { ensureMinCost } from "./scalp.js";
+
+export type MarketMakerConfig = Pick<
+  EnvConfig,
+  "mmHalfSpread" | "mmQuoteSize" | "mmMaxInventory" | "mmSkewPerShare" | "mmPullSeconds" | "mmPullMoveUsd"
+>;
+
+const STRATEGY = "mm";
+
+function floorToTick(price: number, tick: number): number {
+  return Math.round(Math.floor(price / tick + 1e-9) * tick * 1e6) / 1e6;
+}
+
+function ceilToTick(price: number, tick: number): number {
+  return Math.round(Math.ceil(price / tick - 1e-9) * tick * 1e6) / 1e6;
+}
+
+/** MM 在本市场持有的某一方向张数 */
+function inventoryOf(env: StrategyEnv, outcome: "up" | "down"): number {
+  const pos = env.tracker.getPositionByMarketAndSide(env.marketSlug, outcome);
+  return pos?.strategy === STRATEGY ? pos.size : 0;
+}
+
+/**
+ * 目标报价；返回 pulled 时撤掉全部报价
+ */
+export function computeQuotes(
+  ctx: MarketContext,
+  btc: BtcState,
+  env: StrategyEnv,
+  config: MarketMakerConfig
+): { quotes: Quote[]; pulled?: string; log: string } {
+  const pull = (reason: string) => ({ quotes: [], pulled: reason, log: reason });
+  if (env.secsLeft <= config.mmPullSeconds) return pull(`剩余 ${Math.round(env.secsLeft)}s`);
+  if (btc.price <= 0) return pull("无行情");
+  const jump = btc.windowStartPrice > 0 ? btc.price - btc.windowStartPrice : 0;
+  if (Math.abs(jump) >= config.mmPullMoveUsd * btc.scale) {
+    return pull(`${btc.asset.toUpperCase()} 10s 跳动 $${formatAssetPrice(jump, btc.scale)}`);
+  }
+  const fair = fairValue(btc, env.secsLeft);
+  if (!fair) return pull("无起点价");
+
+  const tick = parseFloat(ctx.tickSize || "0.01");
+  const upHeld = inventoryOf(env, "up");
+  const downHeld = inventoryOf(env, "down");
+  const net = upHeld - downHeld;
+  const reserveUp = Math.min(1 - tick, Math.max(tick, fair.up - config.mmSkewPerShare * net));
+
+  const quotes: Quote[] = [];
+  const sides = [
+    { outcome: "up" as const, tokenId: ctx.yesTokenId, book: ctx.yesBook, reserve: reserveUp, held: upHeld, room: config.mmMaxInventory - net },
+    { outcome: "down" as const, tokenId: ctx.noTokenId, book: ctx.noBook, reserve: 1 - reserveUp, held: downHeld, room: config.mmMaxInventory + net },
+  ];
+  for (const s of sides) {
+    const bestBid = parseFloat(s.book?.bids?.[0]?.price ?? "");
+    const bestAsk = parseFloat(s.book?.asks?.[0]?.price ?? "");
+
+    // 买单：低于卖一，扣 maker 手续费后仍低于保留价
+    let bid = floorToTick(s.reserve - config.mmHalfSpread, tick);
+    if (Number.isFinite(bestAsk)) bid = Math.min(bid, floorToTick(bestAsk - tick, tick));
+    const bidSize = Math.floor(Math.min(config.mmQuoteSize, s.room));
+    if (bid >= tick && s.reserve - bid - feePerShare(bid, ctx.fees.makerBps) > 0
+      && bidSize >= ensureMinCost(bid, ctx.minOrderSize)) {
+      quotes.push({ tokenId: s.tokenId, outcome: s.outcome, side: "BUY", price: bid, size: bidSize });
+    }
+
+    // 卖单：只卖持有的库存，高于买一
+    let ask = ceilToTick(s.reserve + config.mmHalfSpread, tick);
+    if (Number.isFinite(bestBid)) ask = Math.max(ask, ceilToTick(bestBid + tick, tick));
+    const askSize = Math.floor(Math.min(config.mmQuoteSize, s.held));
+    if (ask <= 1 - tick && ask - feePerShare(ask, ctx.fees.makerBps) > s.reserve && askSize >= ctx.minOrderSize) {
+      quotes.push({ tokenId: s.tokenId, outcome: s.outcome, side: "SELL", price: ask, size: askSize });
+    }
+  }
+
+  const fmt = (outcome: "up" | "down", side: "BUY" | "SELL") => {
+    const q = quotes.find((x) => x.outcome === outcome && x.side === side);
+    return q ? `${q.price}x${q.size}` : "—";
+  };
+  const log = `fair Up=${fair.up.toFixed(3)} 保留价=${reserveUp.toFixed(3)} σ=${(fair.volDaily * 100).toFixed(1)}%/d`
+    + ` | Up ${fmt("up", "BUY")} / ${fmt("up", "SELL")} | Down ${fmt("down", "BUY")} / ${fmt("down", "SELL")}`
+    + ` | 库存 Up ${upHeld.toFixed(0)} Down ${downHeld.toFixed(0)} | ${Math.round(env.secsLeft)}s`;
+  return { quotes, log };
+}
+
+/**
+ * 被动做市：不产生入场意图，只返回目标报价（StrategyResult.quotes）；库存不做 scalp 出场，卖单未成交的持有到结算
+ */
+export function createMarketMakerStrategy(config: MarketMakerConfig): Strategy {
+  return {
+    name: STRATEGY,
+    evaluate(ctx: MarketContext, btc: BtcState, env: StrategyEnv): StrategyResult {
+      return { entries: [], exits: [], quotes: { strategy: STRATEGY, ...computeQuotes(ctx, btc, env, config) } };
+    },
+  };
+}
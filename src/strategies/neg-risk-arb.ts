@@ -1,48 +1,126 @@
 /**
  * 策略2：负风险组合套利 (Negative Risk Arb)
- * YES 卖一 + NO 卖一 < 1 - 手续费 时同时买入两边
+ * YES 卖一 + NO 卖一（含 taker 手续费）< maxSum 时同时买入两边；张数由 sizer 按两腿合计价格计算（锁定利润，kelly 按 fraction）
+ * 两腿在滑点范围内逐档配对，只取每张两腿价格之和仍低于阈值的深度；各腿限价为用到的最差一档
  */
 
-import type { MarketContext } from "./types.js";
+import type { OrderBookLevel } from "../api/clob.js";
+import { planFill } from "../execution/planner.js";
+import { feePerShare } from "../risk/fees.js";
+import type { MarketContext, Strategy } from "./types.js";
 import type { NegRiskArbSignal } from "./types.js";
+import type { Sizer } from "./sizing.js";
 
 export interface NegRiskArbConfig {
-  maxSum: number; // 例如 0.98，即 YES_ask + NO_ask <= 0.98 才做
-  feeBps?: number;
+  maxSum: number; // 例如 0.98，即 YES_ask + NO_ask（含手续费）<= 0.98 才做
   orderSizeMin: number;
   orderSizeMax: number;
+  maxSlippage: number; // 每腿最差一档相对卖一的最大偏离
 }
 
-const DEFAULT_FEE_BPS = 0;
+interface Level {
+  price: number;
+  cost: number; // 每张成本（含 taker 手续费）
+  size: number;
+}
+
+/** 滑点范围内的有效档位（最优在前） */
+function levelsWithin(levels: OrderBookLevel[], maxSlippage: number, feeBps: number): Level[] {
+  const out: Level[] = [];
+  for (const level of levels) {
+    const price = parseFloat(level.price);
+    const size = parseFloat(level.size);
+    if (!Number.isFinite(price) || !Number.isFinite(size) || size <= 0) continue;
+    if (out.length > 0 && price - out[0].price > maxSlippage + 1e-9) break;
+    out.push({ price, cost: price + feePerShare(price, feeBps), size });
+  }
+  return out;
+}
+
+/** 两腿逐档配对：只计入两腿边际成本之和 < maxSum 的张数（每一张都锁定利润） */
+function pairDepth(yes: Level[], no: Level[], maxSum: number): number {
+  let i = 0;
+  let j = 0;
+  let restYes = yes[0]?.size ?? 0;
+  let restNo = no[0]?.size ?? 0;
+  let depth = 0;
+  while (i < yes.length && j < no.length && yes[i].cost + no[j].cost < maxSum) {
+    const take = Math.min(restYes, restNo);
+    depth += take;
+    restYes -= take;
+    restNo -= take;
+    if (restYes <= 1e-9) restYes = yes[++i]?.size ?? 0;
+    if (restNo <= 1e-9) restNo = no[++j]?.size ?? 0;
+  }
+  return depth;
+}
 
 export function checkNegRiskArb(
   ctx: MarketContext,
-  config: NegRiskArbConfig
+  config: NegRiskArbConfig,
+  sizer: Sizer
 ): NegRiskArbSignal | null {
   if (!ctx.yesBook?.asks?.[0] || !ctx.noBook?.asks?.[0]) return null;
 
-  const askYes = parseFloat(ctx.yesBook.asks[0].price);
-  const askNo = parseFloat(ctx.noBook.asks[0].price);
-  const sizeYes = parseFloat(ctx.yesBook.asks[0].size);
-  const sizeNo = parseFloat(ctx.noBook.asks[0].size);
-
-  if (!Number.isFinite(askYes) || !Number.isFinite(askNo)) return null;
+  const feeBps = ctx.fees.takerBps;
+  const yes = levelsWithin(ctx.yesBook.asks, config.maxSlippage, feeBps);
+  const no = levelsWithin(ctx.noBook.asks, config.maxSlippage, feeBps);
+  if (yes.length === 0 || no.length === 0) return null;
 
-  const sum = askYes + askNo;
-  const feeBps = config.feeBps ?? DEFAULT_FEE_BPS;
-  const feeFactor = 1 - feeBps / 10000;
-  if (sum >= config.maxSum * feeFactor) return null;
+  const depth = pairDepth(yes, no, config.maxSum);
+  if (Math.min(depth, config.orderSizeMax) < config.orderSizeMin) return null;
 
-  let size = Math.min(sizeYes, sizeNo, config.orderSizeMax);
-  if (size < config.orderSizeMin) return null;
+  // 先按两腿卖一之和定张数，再按该张数的预期均价之和重算（均含手续费）
+  const withFee = (price: number) => price + feePerShare(price, feeBps);
+  const limits = { maxSlippage: config.maxSlippage };
+  const planLegs = (size: number) => {
+    const planYes = planFill(ctx.yesBook!.asks, "BUY", size, limits);
+    const planNo = planFill(ctx.noBook!.asks, "BUY", size, limits);
+    return planYes && planNo ? { planYes, planNo } : null;
+  };
+  const req = { depth, minOrderSize: Math.max(config.orderSizeMin, ctx.minOrderSize), riskless: true };
+  const first = sizer.size({ ...req, price: yes[0].cost + no[0].cost });
+  if (first.size < config.orderSizeMin || first.size > depth) return null;
+  const firstPlans = planLegs(first.size);
+  if (!firstPlans) return null;
+  const { size } = sizer.size({ ...req, price: withFee(firstPlans.planYes.avgPrice) + withFee(firstPlans.planNo.avgPrice) });
+  if (size < config.orderSizeMin || size > depth) return null;
+  const plans = planLegs(size);
+  if (!plans) return null;
+  const { planYes, planNo } = plans;
 
   return {
     type: "neg_risk",
     yesTokenId: ctx.yesTokenId,
     noTokenId: ctx.noTokenId,
-    askYes,
-    askNo,
-    sum,
+    askYes: planYes.limitPrice,
+    askNo: planNo.limitPrice,
+    avgYes: planYes.avgPrice,
+    avgNo: planNo.avgPrice,
+    sum: withFee(planYes.avgPrice) + withFee(planNo.avgPrice),
     size,
+    orderType: "FOK", // 两腿各自全部成交或取消；单腿成交由 pair-executor 补齐或解除
+  };
+}
+
+/** NegRisk 两腿锁定利润，持有到结算 */
+export function createNegRiskStrategy(config: NegRiskArbConfig): Strategy {
+  return {
+    name: "neg_risk",
+    evaluate(ctx, _btc, env) {
+      const signal = checkNegRiskArb(ctx, config, env.sizer);
+      if (!signal) return { entries: [], exits: [] };
+      return {
+        exits: [],
+        entries: [{
+          strategy: "neg_risk",
+          hold: "settle",
+          cost: signal.sum * signal.size,
+          signal,
+          expectedPrices: { [signal.yesTokenId]: signal.avgYes, [signal.noTokenId]: signal.avgNo },
+          log: `sum=${signal.sum.toFixed(3)} 保底净利润 $${((1 - signal.sum) * signal.size).toFixed(2)}! Up@${signal.avgYes.toFixed(3)}(限${signal.askYes}) + Down@${signal.avgNo.toFixed(3)}(限${signal.askNo}) x${signal.size}`,
+        }],
+      };
+    },
   };
 }
@@ -0,0 +1,139 @@
+/**
+ * 定价模型：按实现波动率估计 Up/Down 的公允概率，策略统一比较 公允价 − ask（扣手续费）而不是固定美元阈值
+ *
+ * - 波动率：每个标的按 VOL_SAMPLE_MS 抽样的对数收益做 EWMA（半衰期 VOL_HALF_LIFE_SEC），
+ *   样本不足 VOL_MIN_SAMPLES 时用 VOL_DEFAULT_DAILY（日化 2%），结果限制在 VOL_FLOOR_DAILY ~ VOL_CAP_DAILY
+ * - 公允概率：无漂移正态近似，剩余时间内 σ = 日化波动率 × 价格 × √(剩余秒 / 86400)，P(Up) = Φ(偏离 / σ)
+ * - 偏离按结算源口径（settlementDiff：扣除基差），无结算源价时即参考价偏离
+ */
+
+import type { BtcState, MarketContext } from "./types.js";
+import { feePerShare } from "../risk/fees.js";
+
+const SECONDS_PER_DAY = 86_400;
+export const DEFAULT_DAILY_VOL = 0.02;
+export const DEFAULT_VOL_HALF_LIFE_MS = 300_000;
+const VOL_SAMPLE_MS = 5_000;
+const VOL_MAX_GAP_MS = 120_000;  // 行情中断超过此时长的收益不计入（重新起算）
+const VOL_MIN_SAMPLES = 24;      // 约 2 分钟
+const VOL_FLOOR_DAILY = 0.005;
+const VOL_CAP_DAILY = 0.15;
+
+export interface VolatilityOptions {
+  defaultDailyVol?: number;
+  halfLifeMs?: number;
+}
+
+/**
+ * 实现波动率（EWMA）：按固定间隔抽样价格，每个样本的 对数收益² / 间隔秒 即每秒方差的一次观测
+ */
+export class VolatilityEstimator {
+  private readonly defaultDailyVol: number;
+  private readonly halfLifeMs: number;
+  private lastPrice = 0;
+  private lastTs = 0;
+  private variancePerSec = 0;
+  private samples = 0;
+
+  constructor(options: VolatilityOptions = {}) {
+    this.defaultDailyVol = options.defaultDailyVol ?? DEFAULT_DAILY_VOL;
+    this.halfLifeMs = options.halfLifeMs ?? DEFAULT_VOL_HALF_LIFE_MS;
+  }
+
+  record(price: number, ts: number = Date.now()): void {
+    if (!(price > 0)) return;
+    if (!this.lastTs) {
+      this.lastPrice = price;
+      this.lastTs = ts;
+      return;
+    }
+    const dtMs = ts - this.lastTs;
+    if (dtMs < VOL_SAMPLE_MS) return;
+    if (dtMs <= VOL_MAX_GAP_MS) {
+      const r = Math.log(price / this.lastPrice);
+      const observed = (r * r) / (dtMs / 1000);
+      const alpha = 1 - Math.pow(2, -dtMs / this.halfLifeMs);
+      this.variancePerSec = this.samples === 0 ? observed : this.variancePerSec + alpha * (observed - this.variancePerSec);
+      this.samples++;
+    }
+    this.lastPrice = price;
+    this.lastTs = ts;
+  }
+
+  /** 是否已有足够样本（否则 daily() 为默认值） */
+  isCalibrated(): boolean {
+    return this.samples >= VOL_MIN_SAMPLES;
+  }
+
+  /** 日化波动率（相对价格，如 0.02 = 2%） */
+  daily(): number {
+    if (!this.isCalibrated()) return this.defaultDailyVol;
+    const vol = Math.sqrt(this.variancePerSec * SECONDS_PER_DAY);
+    return Math.min(VOL_CAP_DAILY, Math.max(VOL_FLOOR_DAILY, vol));
+  }
+}
+
+/** 本市场的公允价（每张的到期兑付概率） */
+export interface FairValue {
+  up: number;
+  down: number;
+  diffUsd: number;  // 结算源口径的距起点偏离
+  sigmaUsd: number; // 剩余时间内的价格标准差（美元）
+  volDaily: number;
+}
+
+/**
+ * 领先方向到期仍领先的概率：BTC 当前偏离起点 absDiff 美元、剩余 secondsLeft 秒
+ * 剩余时间内 σ = 日化波动率 × 价格 × √(剩余秒 / 86400)
+ */
+export function winProbability(absDiff: number, btcPrice: number, secondsLeft: number, dailyVol: number = DEFAULT_DAILY_VOL): number {
+  const sigmaRemaining = dailyVol * btcPrice * Math.sqrt(Math.max(secondsLeft, 1) / SECONDS_PER_DAY);
+  return normCDF(absDiff / sigmaRemaining);
+}
+
+/**
+ * 结算源口径的距起点偏离（美元）：参考价扣除基差即结算源的估计价，对比结算源起点价；
+ * 未观察到结算源起点价时按 起点价 − 基差（基差视为不变，与参考价口径一致）。无结算源价时即参考价偏离，无起点价为 null
+ */
+export function settlementDiff(btc: BtcState): number | null {
+  if (!btc.startPrice || btc.price <= 0) return null;
+  if (!(btc.oraclePrice > 0)) return btc.price - btc.startPrice;
+  const oracleStart = btc.oracleStartPrice ?? btc.startPrice - btc.basisUsd;
+  return btc.price - btc.basisUsd - oracleStart;
+}
+
+/** Up / Down 的公允价；无起点价或无行情返回 null */
+export function fairValue(btc: BtcState, secsLeft: number): FairValue | null {
+  const diffUsd = settlementDiff(btc);
+  if (diffUsd === null) return null;
+  const sigmaUsd = btc.volDaily * btc.price * Math.sqrt(Math.max(secsLeft, 1) / SECONDS_PER_DAY);
+  const up = normCDF(diffUsd / sigmaUsd);
+  return { up, down: 1 - up, diffUsd, sigmaUsd, volDaily: btc.volDaily };
+}
+
+/** token 对应的公允价（Up token → up，Down token → down） */
+export function tokenFairValue(ctx: MarketContext, fair: FairValue, tokenId: string): number {
+  return tokenId === ctx.yesTokenId ? fair.up : fair.down;
+}
+
+/** 按 price 吃单每张的净边际：公允价 − 价格 − taker 手续费 */
+export function fairEdge(fair: number, price: number, feeBps: number): number {
+  return fair - price - feePerShare(price, feeBps);
+}
+
+/** 标准正态分布函数 Φ(x)：Abramowitz–Stegun 7.1.26 的 erf 近似，Φ(x) = (1 + erf(x/√2)) / 2（误差 < 1e-7） */
+export function normCDF(x: number): number {
+  if (x < -8) return 0;
+  if (x > 8) return 1;
+  const a1 = 0.254829592;
+  const a2 = -0.284496736;
+  const a3 = 1.421413741;
+  const a4 = -1.453152027;
+  const a5 = 1.061405429;
+  const p = 0.3275911;
+  const sign = x < 0 ? -1 : 1;
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1.0 / (1.0 + p * z);
+  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-z * z);
+  return 0.5 * (1.0 + sign * y);
+}
@@ -0,0 +1,55 @@
+/**
+ * 策略注册表：按配置（STRATEGIES）创建启用的策略，顺序即优先级
+ *
+ * 同一市场同一轮只执行第一个通过风控的入场意图；新增策略在此注册即可，无需改 runner 主循环
+ */
+
+import type { EnvConfig } from "../config/index.js";
+import type { Strategy, StrategyName } from "./types.js";
+import { createTrendStrategy } from "./trend.js";
+import { createEndgameStrategy } from "./endgame.js";
+import { createNegRiskStrategy } from "./neg-risk-arb.js";
+import { createEvArbStrategy } from "./ev-arb.js";
+import { createLatencyStrategy } from "./latency-arb.js";
+import { createMarketMakerStrategy } from "./market-maker.js";
+
+const FACTORIES: Record<StrategyName, (config: EnvConfig) => Strategy> = {
+  trend: (c) => createTrendStrategy(c),
+  endgame: (c) => createEndgameStrategy(c),
+  neg_risk: (c) => createNegRiskStrategy({
+    maxSum: c.negRiskMaxSum,
+    orderSizeMin: c.orderSizeMin,
+    orderSizeMax: c.orderSizeMax,
+    maxSlippage: c.maxSlippage,
+  }),
+  ev_arb: (c) => createEvArbStrategy({
+    lastSeconds: c.evArbLastSeconds,
+    minEdge: c.evMinEdge,
+    minDiffUsd: c.evMinDiffUsd,
+    orderSizeMin: c.orderSizeMin,
+    orderSizeMax: c.orderSizeMax,
+  }),
+  latency: (c) => createLatencyStrategy({
+    priceJumpThresholdUsd: c.latencyMinJumpUsd,
+    orderSizeMin: c.orderSizeMin,
+    orderSizeMax: c.orderSizeMax,
+  }),
+  mm: (c) => createMarketMakerStrategy(c),
+};
+
+export function isStrategyName(name: string): name is StrategyName {
+  return Object.prototype.hasOwnProperty.call(FACTORIES, name);
+}
+
+export function createStrategies(config: EnvConfig): Strategy[] {
+  const out: Strategy[] = [];
+  for (const name of config.strategies) {
+    if (!isStrategyName(name)) {
+      console.warn(`[Strategy] 未知策略 "${name}"，已忽略（可选: ${Object.keys(FACTORIES).join(", ")}）`);
+      continue;
+    }
+    if (out.some((s) => s.name === name)) continue;
+    out.push(FACTORIES[name](config));
+  }
+  return out;
+}
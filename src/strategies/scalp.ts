@@ -0,0 +1,152 @@
+/**
+ * Scalp 模式公共部分：核心参数、BTC 震荡检测、市场方向判读、scalp 出场
+ *
+ * TREND（strategies/trend.ts）与 ENDGAME（strategies/endgame.ts）共用；
+ * BTC 震荡检测：60 秒内波幅 > $80 且最新价在区间中部 → 不入场
+ * 美元阈值均按 BTC 标定，其他标的乘以 BtcState.scale
+ */
+
+import type { OrderBookLevel } from "../api/clob.js";
+import type { BtcState, MarketContext, StopLossSignal, StrategyEnv } from "./types.js";
+import { planFill } from "../execution/planner.js";
+import { feePerShare, tradeFee } from "../risk/fees.js";
+import type { FillPlan, PlanLimits } from "../execution/planner.js";
+
+/** Scalp 核心参数 */
+export const SCALP_PARAMS = {
+  profitTarget: 0.07,              // 止盈 +$0.07/share
+  stopLoss: 0.08,                  // 止损 -$0.08/share（收紧，减少损失）
+  maxHoldMs: 120_000,              // 最长持有 120 秒
+  minHoldBeforeSellMs: 30_000,     // 卖出前至少持有 30 秒（代币结算时间）
+  lossCooldownMs: 90_000,          // 止损后 90 秒冷却期
+  choppyThreshold: 80,             // BTC 60秒内波幅 > $80 视为震荡
+  choppyWindowMs: 60_000,          // 震荡检测窗口
+} as const;
+
+/**
+ * BTC 价格历史（用于震荡检测），保留最近 120 秒
+ */
+export class BtcPriceHistory {
+  private points: Array<{ price: number; ts: number }> = [];
+
+  record(price: number, ts: number = Date.now()): void {
+    this.points.push({ price, ts });
+    while (this.points.length > 0 && this.points[0].ts < ts - 120_000) {
+      this.points.shift();
+    }
+  }
+
+  /** 某时刻之后的第一笔价格（短窗口起点价），无样本返回 0 */
+  firstSince(ts: number): number {
+    return this.points.find((p) => p.ts >= ts)?.price ?? 0;
+  }
+
+  /** 震荡检测窗口内的波幅（最高 − 最低，美元），样本不足返回 0 */
+  range(nowMs: number = Date.now()): number {
+    const prices = this.points.filter((p) => p.ts > nowMs - SCALP_PARAMS.choppyWindowMs).map((p) => p.price);
+    if (prices.length < 5) return 0;
+    return Math.max(...prices) - Math.min(...prices);
+  }
+
+  /** scale：阈值换算系数（其他标的按价格比例缩放 $80） */
+  isChoppy(nowMs: number = Date.now(), scale: number = 1): boolean {
+    const recent = this.points.filter((p) => p.ts > nowMs - SCALP_PARAMS.choppyWindowMs);
+    if (recent.length < 5) return false;
+    const prices = recent.map((p) => p.price);
+    const min = Math.min(...prices);
+    const max = Math.max(...prices);
+    if (max - min < SCALP_PARAMS.choppyThreshold * scale) return false;
+
+    // 判断是否有明确方向：如果最新价接近区间一端（>75%位置），认为有方向性
+    const latest = prices[prices.length - 1];
+    const position = (latest - min) / (max - min); // 0=最低 1=最高
+    const hasDirection = position > 0.75 || position < 0.25;
+    return !hasDirection; // 震荡：大波幅但无方向
+  }
+}
+
+/** 市场方向判读：以赢方 bid 为准，BTC 偏离作为校验 */
+export interface MarketDirection {
+  dir: "up" | "down";
+  tokenId: string;
+  winnerBid: number;
+  bestAsk: OrderBookLevel | undefined;
+  asks: OrderBookLevel[];        // 赢方全部卖单（最优在前）
+  diff: number;       // BTC 当前价 - 起点价（无起点时为 0）
+  absDiff: number;
+  btcAgrees: boolean; // BTC 方向与市场方向一致（或偏离 < $20 / 无起点）
+}
+
+export function readMarketDirection(ctx: MarketContext, btcPrice: number, startPrice: number | undefined, scale: number = 1): MarketDirection {
+  const upBid = ctx.yesBook?.bids?.[0] ? parseFloat(ctx.yesBook.bids[0].price) : 0.5;
+  const downBid = ctx.noBook?.bids?.[0] ? parseFloat(ctx.noBook.bids[0].price) : 0.5;
+  const dir = upBid > downBid ? "up" : "down";
+
+  const diff = startPrice ? btcPrice - startPrice : 0;
+  const absDiff = startPrice ? Math.abs(diff) : 0;
+  const btcDir = diff > 0 ? "up" : "down";
+  const book = dir === "up" ? ctx.yesBook : ctx.noBook;
+
+  return {
+    dir,
+    tokenId: dir === "up" ? ctx.yesTokenId : ctx.noTokenId,
+    winnerBid: dir === "up" ? upBid : downBid,
+    bestAsk: book?.asks?.[0],
+    asks: book?.asks ?? [],
+    diff,
+    absDiff,
+    btcAgrees: !startPrice || btcDir === dir || absDiff < 20 * scale,
+  };
+}
+
+/** Polymarket 单笔最低 $1：价格低时补足张数 */
+export function ensureMinCost(price: number, minSize: number): number {
+  if (price * minSize < 1.0) return Math.ceil(1.0 / price);
+  return minSize;
+}
+
+/**
+ * 按 ask 多档下单：滑点范围内的深度交给 env.sizer 按余额与仓位策略计算张数，
+ * 先按卖一定张数，再按该张数的预期均价重算（均价不低于卖一 → 张数不增，花费不超预算）
+ * 每张成本含 taker 手续费；prob 为买入方向的理论胜率（kelly 用）；无可用档位、张数为 0 或深度不足该张数时返回 null
+ */
+export function sizeAtAsk(
+  asks: OrderBookLevel[],
+  ctx: MarketContext,
+  btc: BtcState,
+  env: StrategyEnv,
+  prob: number,
+  limits: PlanLimits
+): { plan: FillPlan; size: number; cost: number; fee: number } | null {
+  const available = planFill(asks, "BUY", Infinity, limits);
+  if (!available) return null;
+  const withFee = (price: number) => price + feePerShare(price, ctx.fees.takerBps);
+  // 波幅换算成 BTC 口径，与 SIZING_VOL_TARGET_USD 比较
+  const req = { depth: available.size, minOrderSize: ctx.minOrderSize, prob, btcRangeUsd: btc.scale > 0 ? btc.rangeUsd / btc.scale : 0 };
+  const first = env.sizer.size({ ...req, price: withFee(available.bestPrice) });
+  if (first.size <= 0) return null;
+  const firstPlan = planFill(asks, "BUY", first.size, limits);
+  if (!firstPlan || firstPlan.size < first.size - 1e-9) return null;
+  const { size } = env.sizer.size({ ...req, price: withFee(firstPlan.avgPrice) });
+  if (size <= 0) return null;
+  const plan = planFill(asks, "BUY", size, limits);
+  if (!plan || plan.size < size - 1e-9) return null;
+  const fee = tradeFee(plan.avgPrice, size, ctx.fees.takerBps);
+  return { plan, size, cost: plan.avgPrice * size + fee, fee };
+}
+
+/**
+ * scalp 持仓出场：对本策略开的、本市场的仓位做止盈/止损/时间止损检查
+ * 持仓不足 minHoldBeforeSellMs 的先不卖（等代币结算到账）
+ */
+export function scalpExits(env: StrategyEnv, strategy: string): StopLossSignal[] {
+  const signals = env.tracker.checkScalpExit(
+    env.currentBids,
+    env.nowMs,
+    (pos) => pos.strategy === strategy && pos.marketSlug === env.marketSlug
+  );
+  return signals.filter((sig) => {
+    const pos = env.tracker.getPosition(sig.tokenId);
+    return env.nowMs - (pos?.entryTime || 0) >= SCALP_PARAMS.minHoldBeforeSellMs;
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * 仓位计算：按账户 USDC 余额与配置的策略决定每笔下单张数（TREND / ENDGAME / NegRisk 使用）
+ *
+ * - fixed：旧规则，吃满滑点范围内深度（见 execution/planner.ts），不超过 ORDER_SIZE_MAX 张（不看余额）
+ * - fraction：每笔花费 = 余额 × SIZING_FRACTION
+ * - kelly：每笔花费 = 余额 × SIZING_KELLY_MULTIPLIER × f*，二元合约 f* = (p − price) / (1 − price)，
+ *   p 为理论胜率；p 未知或锁定利润（NegRisk）时按 fraction；p <= price 不下单
+ * - volatility：fraction × (SIZING_VOL_TARGET_USD / BTC 60 秒波幅)，限制在 [0.25, 2] 倍
+ *
+ * 共同约束：不超过滑点范围内深度与 ORDER_SIZE_MAX，不低于交易所最小下单量与 $1 最低金额，总花费不超过余额；
+ * 深度或预算不足最小下单量时不下单（不补足到最小量）
+ */
+
+import type { EnvConfig } from "../config/index.js";
+import { ensureMinCost } from "./scalp.js";
+
+export type SizingPolicy = EnvConfig["sizingPolicy"];
+
+export type SizingConfig = Pick<EnvConfig, "sizingPolicy" | "sizingFraction" | "sizingKellyMultiplier" | "sizingVolTargetUsd" | "orderSizeMax">;
+
+export interface SizeRequest {
+  price: number;        // 每张花费（NegRisk 为两腿 ask 之和）
+  depth: number;        // 滑点范围内可成交张数
+  minOrderSize: number; // 交易所最小下单张数
+  prob?: number;        // 理论胜率（0 / 缺省 = 未知）
+  riskless?: boolean;   // 锁定利润的组合（kelly 不适用）
+  btcRangeUsd?: number; // BTC 60 秒波幅（volatility 用）
+}
+
+export interface SizeResult {
+  size: number; // 0 = 不下单
+  cost: number;
+}
+
+export interface Sizer {
+  readonly policy: SizingPolicy;
+  /** 当前余额（USDC），由 runner / 回测引擎更新 */
+  setBalance(usd: number): void;
+  getBalance(): number;
+  size(req: SizeRequest): SizeResult;
+}
+
+const VOL_SCALE_MIN = 0.25;
+const VOL_SCALE_MAX = 2;
+
+export function kellyFraction(prob: number, price: number): number {
+  if (price <= 0 || price >= 1) return 0;
+  return Math.max(0, (prob - price) / (1 - price));
+}
+
+/** 单市场仓位上限：MAX_POSITION_PCT > 0 时随余额放大（不低于 MAX_POSITION_PER_MARKET） */
+export function maxPositionFor(config: Pick<EnvConfig, "maxPositionPerMarket" | "maxPositionPct">, balanceUsd: number): number {
+  if (config.maxPositionPct <= 0) return config.maxPositionPerMarket;
+  return Math.max(config.maxPositionPerMarket, balanceUsd * config.maxPositionPct);
+}
+
+export function createSizer(config: SizingConfig, balanceUsd: number = 0): Sizer {
+  let balance = balanceUsd;
+
+  /** 本笔预算（USDC）；null = 按 fixed 规则 */
+  function budget(req: SizeRequest): number | null {
+    switch (config.sizingPolicy) {
+      case "fixed":
+        return null;
+      case "kelly":
+        if (req.riskless || !req.prob) return balance * config.sizingFraction;
+        return balance * config.sizingKellyMultiplier * kellyFraction(req.prob, req.price);
+      case "volatility": {
+        const range = Math.max(1, req.btcRangeUsd ?? 0);
+        const scale = Math.min(VOL_SCALE_MAX, Math.max(VOL_SCALE_MIN, config.sizingVolTargetUsd / range));
+        return balance * config.sizingFraction * scale;
+      }
+      case "fraction":
+      default:
+        return balance * config.sizingFraction;
+    }
+  }
+
+  return {
+    policy: config.sizingPolicy,
+
+    setBalance(usd: number): void {
+      if (Number.isFinite(usd) && usd >= 0) balance = usd;
+    },
+
+    getBalance(): number {
+      return balance;
+    },
+
+    size(req: SizeRequest): SizeResult {
+      const { price, depth } = req;
+      if (!(price > 0) || !Number.isFinite(depth)) return { size: 0, cost: 0 };
+      const minSize = ensureMinCost(price, req.minOrderSize);
+      if (minSize > depth) return { size: 0, cost: 0 };
+      const b = budget(req);
+      if (b === null) {
+        const size = Math.max(minSize, Math.min(depth, config.orderSizeMax));
+        return { size, cost: price * size };
+      }
+      // 预算不足最小下单量时不下单（近零边际的 kelly 不按最小量补足），也不超过余额
+      if (b < minSize * price) return { size: 0, cost: 0 };
+      const size = Math.max(minSize, Math.min(Math.floor(b / price), depth, config.orderSizeMax));
+      if (price * size > balance + 1e-9) return { size: 0, cost: 0 };
+      return { size, cost: price * size };
+    },
+  };
+}
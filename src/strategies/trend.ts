@@ -0,0 +1,72 @@
+/**
+ * 策略：TREND（趋势 scalp）
+ *
+ * 窗口剩余 > 120s 时，赢方 bid >= trendMinBid、BTC 方向一致、ask 在 0.50~0.75、
+ * 公允价（见 pricing.ts）− ask − 手续费 >= trendMinEdge → 吃 ask 入场（滑点范围内可吃多档，最差一档不超过 0.75，
+ * 按预期均价重算的边际仍须 >= trendMinEdge，与 ENDGAME 一致）；
+ * 之后按 scalp 规则止盈/止损/时间止损
+ */
+
+import type { EnvConfig } from "../config/index.js";
+import type { BtcState, MarketContext, Strategy, StrategyEnv, StrategyResult } from "./types.js";
+import { formatPlan } from "../execution/planner.js";
+import { formatAssetPrice } from "./asset-prices.js";
+import { fairEdge, fairValue } from "./pricing.js";
+import { readMarketDirection, scalpExits, sizeAtAsk } from "./scalp.js";
+
+export type TrendConfig = Pick<EnvConfig, "trendMinBid" | "trendMinEdge" | "maxSlippage">;
+
+const MIN_ASK = 0.50;
+const MAX_ASK = 0.75;
+
+export function createTrendStrategy(config: TrendConfig): Strategy {
+  return {
+    name: "trend",
+    evaluate(ctx: MarketContext, btc: BtcState, env: StrategyEnv): StrategyResult {
+      const exits = scalpExits(env, "trend");
+      if (btc.price <= 0 || btc.choppy || env.secsLeft <= 120) return { entries: [], exits };
+
+      const { dir, tokenId, winnerBid, bestAsk, asks, diff, btcAgrees } = readMarketDirection(ctx, btc.price, btc.startPrice, btc.scale);
+      if (!bestAsk || winnerBid < config.trendMinBid || !btcAgrees) return { entries: [], exits };
+      const ask = parseFloat(bestAsk.price);
+      if (ask < MIN_ASK) return { entries: [], exits };
+
+      // 公允价边际（代替固定的美元偏离门槛）：无起点价时不入场
+      const fair = fairValue(btc, env.secsLeft);
+      if (!fair) return { entries: [], exits };
+      const prob = dir === "up" ? fair.up : fair.down;
+      if (fairEdge(prob, ask, ctx.fees.takerBps) < config.trendMinEdge) return { entries: [], exits };
+
+      // 多档吃单：最差一档不超过 MAX_ASK 与滑点上限
+      const sized = sizeAtAsk(asks, ctx, btc, env, prob, { maxSlippage: config.maxSlippage, worstPrice: MAX_ASK });
+      if (!sized || sized.size < ctx.minOrderSize || sized.cost - sized.fee < 1.0) return { entries: [], exits };
+      const { plan, size, cost, fee } = sized;
+      const price = plan.limitPrice;
+      // 多档成交：按预期均价重算边际
+      if (fairEdge(prob, plan.avgPrice, ctx.fees.takerBps) < config.trendMinEdge) return { entries: [], exits };
+
+      return {
+        exits,
+        entries: [{
+          strategy: "trend",
+          hold: "scalp",
+          cost,
+          signal: {
+            type: "ev_arb",
+            tokenId,
+            side: "BUY",
+            price,
+            size,
+            theoreticalProb: prob,
+            marketPrice: plan.bestPrice,
+            secondsLeft: env.secsLeft,
+            orderType: "FOK", // 限价扫到最差一档，不能全部成交则取消、不留挂单
+            avgPrice: plan.avgPrice, // 市价买单按均价计算金额，多档成交时不多买
+          },
+          expectedPrices: { [tokenId]: plan.avgPrice },
+          log: `${dir === "up" ? "Up" : "Down"} bid=${winnerBid} ask=${plan.bestPrice} fair=${prob.toFixed(2)} σ=${(fair.volDaily * 100).toFixed(1)}%/d ${btc.asset.toUpperCase()}${diff >= 0 ? "+" : ""}$${formatAssetPrice(diff, btc.scale)} | ${formatPlan(plan)} x${size}=$${cost.toFixed(2)}${fee > 0 ? `（含手续费 $${fee.toFixed(3)}）` : ""} | ${Math.round(env.secsLeft)}s`,
+        }],
+      };
+    },
+  };
+}
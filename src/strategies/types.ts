@@ -3,7 +3,11 @@
  */
 
 import type { GammaMarket } from "../api/gamma.js";
-import type { OrderBookSummary } from "../api/clob.js";
+import type { OrderBookSummary, OrderType } from "../api/clob.js";
+import type { FeeRates } from "../risk/fees.js";
+import type { PositionTracker } from "../risk/position-tracker.js";
+import type { BidQuote } from "../execution/planner.js";
+import type { Sizer } from "./sizing.js";
 
 export interface MarketContext {
   market: GammaMarket;
@@ -13,6 +17,8 @@ export interface MarketContext {
   noBook: OrderBookSummary | null;
   tickSize: string;
   negRisk: boolean;
+  minOrderSize: number;
+  fees: FeeRates;
 }
 
 export interface LatencyArbSignal {
@@ -22,16 +28,23 @@ export interface LatencyArbSignal {
   price: number;
   size: number;
   reason: string;
+  /** 下单类型（GTC/GTD/FOK/FAK），缺省由 executeSignal 按信号类型决定 */
+  orderType?: OrderType;
+  /** 预期成交均价（多档）：FOK/FAK 买单按 均价 × 张数 提交金额 */
+  avgPrice?: number;
 }
 
 export interface NegRiskArbSignal {
   type: "neg_risk";
   yesTokenId: string;
   noTokenId: string;
-  askYes: number;
+  askYes: number;  // 下单限价（用到的最差一档）
   askNo: number;
-  sum: number;
+  avgYes: number;  // 预期成交均价
+  avgNo: number;
+  sum: number;     // 每张两腿成本合计（均价 + 手续费）
   size: number;
+  orderType?: OrderType;
 }
 
 export interface EvArbSignal {
@@ -43,6 +56,8 @@ export interface EvArbSignal {
   theoreticalProb: number;
   marketPrice: number;
   secondsLeft: number;
+  orderType?: OrderType;
+  avgPrice?: number; // 预期成交均价（多档），见 LatencyArbSignal
 }
 
 export interface StopLossSignal {
@@ -52,6 +67,86 @@ export interface StopLossSignal {
   price: number;
   size: number;
   reason: string;
+  orderType?: OrderType;
 }
 
 export type ArbSignal = LatencyArbSignal | NegRiskArbSignal | EvArbSignal | StopLossSignal;
+
+/** 已注册的策略名（STRATEGIES 配置里使用） */
+export type StrategyName = "trend" | "endgame" | "neg_risk" | "ev_arb" | "latency" | "mm";
+
+/** 策略共享的标的行情视图（名称沿用 BTC；由 runner / 回测引擎按市场所属标的每轮构建，见 asset-prices.ts） */
+export interface BtcState {
+  asset: string;            // 标的：btc / eth / sol / xrp
+  scale: number;            // 美元阈值换算系数（按 BTC 标定）：标的价 / BTC 价，BTC = 1
+  price: number;            // 最新价，0 = 暂无
+  startPrice?: number;      // 本市场起点价
+  windowStartPrice: number; // 短窗口（10s）起点价，延迟套利用；0 = 样本不足
+  choppy: boolean;          // 60 秒内大波幅且无方向
+  rangeUsd: number;         // 60 秒内波幅（最高 − 最低），样本不足为 0
+  volDaily: number;         // 日化实现波动率（EWMA，样本不足时为默认值，见 pricing.ts）
+  oraclePrice: number;      // 本市场结算源（Chainlink / Binance）最新价，0 = 暂无或已过期
+  oracleStartPrice?: number; // 结算源在窗口开始时刻的价格（未观察到为 undefined）
+  basisUsd: number;         // 基差：参考价 − 结算源价（平滑），无结算源价为 0
+}
+
+/** 策略评估时的运行环境 */
+export interface StrategyEnv {
+  nowMs: number;
+  secsLeft: number;
+  marketSlug: string;
+  /** 持仓（只读使用：出场判断、按策略归属过滤） */
+  tracker: PositionTracker;
+  /** 当前各 token 买一及滑点范围内的买单深度（出场判断用） */
+  currentBids: Map<string, BidQuote>;
+  /** 仓位计算（按余额与 SIZING_POLICY） */
+  sizer: Sizer;
+}
+
+/** 入场意图：runner 做仓位风控后交给执行层 */
+export interface EntryIntent {
+  strategy: StrategyName;
+  signal: ArbSignal;
+  /** 本次入场总成本（USDC），用于 canBuy 风控 */
+  cost: number;
+  /** 持仓管理方式：scalp = 止盈/止损/时间止损；settle = 持有到结算 */
+  hold: "scalp" | "settle";
+  /** 入场日志（不含策略标签） */
+  log: string;
+  /** 对冲腿：主单成交后买入对面，两边合计 < $1 锁定利润（对冲部分持有到结算） */
+  hedge?: { tokenId: string; price: number; size: number; netProfit: number };
+  /** 预期成交均价（tokenId → 价格）：多档成交时优于限价，用于日志与无成交推送时的持仓记账 */
+  expectedPrices?: Record<string, number>;
+  /** 止盈挂单价：主单未对冲部分在代币到账后挂 GTD SELL（市场结束时失效） */
+  takeProfitPrice?: number;
+}
+
+/** 做市报价：一个 token 一侧的挂单（postOnly GTD，市场结束时失效） */
+export interface Quote {
+  tokenId: string;
+  outcome: "up" | "down";
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+}
+
+/** 做市策略对一个市场的报价：runner 交给 Quoter 撤旧挂新；pulled 非空时撤掉该市场全部报价 */
+export interface MarketQuotes {
+  strategy: StrategyName;
+  quotes: Quote[];
+  pulled?: string;
+  /** 报价日志（不含策略标签） */
+  log: string;
+}
+
+export interface StrategyResult {
+  entries: EntryIntent[];
+  exits: StopLossSignal[];
+  /** 做市策略的目标挂单（其他策略不填） */
+  quotes?: MarketQuotes;
+}
+
+export interface Strategy {
+  readonly name: StrategyName;
+  evaluate(ctx: MarketContext, btc: BtcState, env: StrategyEnv): StrategyResult;
+}
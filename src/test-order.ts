@@ -2,6 +2,7 @@ import "dotenv/config";
 import { ClobClient, AssetType, OrderType, Side } from "@polymarket/clob-client";
 import { Wallet } from "@ethersproject/wallet";
 import { getBtc15MinMarkets } from "./api/gamma.js";
+import { fetchMarketParams } from "./api/market-params.js";
 import { loadConfig } from "./config/index.js";
 
 async function main() {
@@ -28,11 +29,10 @@ async function main() {
   console.log("negRisk:", m.negRisk, "| typeof:", typeof m.negRisk);
   console.log("Token:", token.outcome, token.token_id.slice(0, 30) + "...");
 
-  // 2. 查 tick size 和 negRisk from CLOB
+  // 2. 查 tick size / negRisk / 最小下单量 from CLOB（与 runner 同一来源）
   try {
-    const tickSize = await client.getTickSize(token.token_id);
-    const negRisk = await client.getNegRisk(token.token_id);
-    console.log("CLOB tickSize:", tickSize, "| negRisk:", negRisk);
+    const params = await fetchMarketParams(token.token_id);
+    console.log("CLOB params:", params ? JSON.stringify(params) : "查询失败");
   } catch (e: any) {
     console.log("CLOB 查询失败:", e.message);
   }
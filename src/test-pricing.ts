@@ -0,0 +1,41 @@
+/**
+ * 定价模型的离线自检（不连网）：npm run test:pricing
+ *
+ * normCDF 与标准正态分布表的已知值对比（容差 1e-4），并检查对称性 Φ(−x) = 1 − Φ(x)。
+ * fairValue / fairEdge 驱动 TREND 边际门槛、ENDGAME 否决与 MM 报价中心，Φ 偏了几个百分点不会报错，只会多付钱
+ */
+
+import { normCDF } from "./strategies/pricing.js";
+
+// [x, Φ(x)]：标准正态分布表
+const KNOWN: Array<[number, number]> = [
+  [0, 0.5],
+  [0.5, 0.691462],
+  [1, 0.841345],
+  [1.5, 0.933193],
+  [1.96, 0.975002],
+  [2.5, 0.99379],
+  [3, 0.99865],
+];
+const TOLERANCE = 1e-4;
+
+let failures = 0;
+function check(name: string, actual: number, expected: number): void {
+  const ok = Math.abs(actual - expected) <= TOLERANCE;
+  if (!ok) failures++;
+  console.log(`${ok ? "✅" : "❌"} ${name} = ${actual.toFixed(6)}${ok ? "" : `（期望 ${expected.toFixed(6)}）`}`);
+}
+
+function main() {
+  for (const [x, phi] of KNOWN) {
+    check(`Φ(${x})`, normCDF(x), phi);
+    if (x > 0) check(`Φ(${-x})`, normCDF(-x), 1 - phi);
+  }
+  check("Φ(−9)", normCDF(-9), 0);
+  check("Φ(9)", normCDF(9), 1);
+
+  console.log(failures === 0 ? "\n全部通过" : `\n${failures} 项不一致`);
+  if (failures > 0) process.exit(1);
+}
+
+main();
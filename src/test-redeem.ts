@@ -0,0 +1,116 @@
+/**
+ * 兑付调用的离线自检（不连链、不需要私钥）：npm run test:redeem
+ *
+ * 用固定的 conditionId / 数量 / 地址编码 encodeRedeemCall 与 wrapForWallet（EOA / 代理钱包 / Safe），
+ * 与按 ABI 规则逐字（32 字节）手工拼出的期望 calldata 对比，并单独检查 Safe 预批准签名（r = owner，s = 0，v = 1）。
+ * 改动 ctf.ts 的编码后先跑一遍：calldata 错误在链上不会报错，只会兑付失败或转错地址
+ */
+
+import { encodeRedeemCall, wrapForWallet, CTF_ADDRESS, NEG_RISK_ADAPTER_ADDRESS, PROXY_WALLET_FACTORY_ADDRESS, USDC_E_ADDRESS } from "./api/ctf.js";
+import type { RedeemRequest } from "./api/ctf.js";
+
+// 函数选择器：keccak256(规范签名) 前 4 字节
+const SEL_CTF_REDEEM = "01b7037c";      // redeemPositions(address,bytes32,bytes32,uint256[])
+const SEL_ADAPTER_REDEEM = "dbeccb23";  // redeemPositions(bytes32,uint256[])
+const SEL_PROXY = "34ee9791";           // proxy((uint8,address,uint256,bytes)[])
+const SEL_SAFE_EXEC = "6a761202";       // execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)
+
+// 固定夹具
+const CONDITION_ID = "0x" + "ab".repeat(32);
+const AMOUNTS: [bigint, bigint] = [12_340_000n, 0n]; // 12.34 张 Yes、0 张 No（6 位小数）
+const OWNER = "0x1111111111111111111111111111111111111111";
+const FUNDER = "0x2222222222222222222222222222222222222222";
+
+/** 32 字节一个字：地址 / 整数左补零 */
+function word(v: string | bigint | number): string {
+  const hex = typeof v === "string" ? v.toLowerCase().replace(/^0x/, "") : BigInt(v).toString(16);
+  if (hex.length > 64) throw new Error(`超过 32 字节: ${v}`);
+  return hex.padStart(64, "0");
+}
+
+/** 动态 bytes：长度字 + 内容右补零到 32 字节整数倍 */
+function bytesTail(data: string): string {
+  const hex = data.replace(/^0x/, "");
+  const padded = hex.padEnd(Math.ceil(hex.length / 64) * 64, "0");
+  return word(hex.length / 2) + padded;
+}
+
+/** 动态部分在头部之后的字节偏移 */
+function offsetAfter(headWords: number, ...tails: string[]): string {
+  return word(headWords * 32 + tails.reduce((n, t) => n + t.length / 2, 0));
+}
+
+let failures = 0;
+function check(name: string, actual: string, expected: string): void {
+  const ok = actual.toLowerCase() === expected.toLowerCase();
+  if (!ok) failures++;
+  console.log(`${ok ? "✅" : "❌"} ${name}`);
+  if (!ok) {
+    console.log(`   期望: ${expected.toLowerCase()}`);
+    console.log(`   实际: ${actual.toLowerCase()}`);
+  }
+}
+
+function main() {
+  // 1. 普通市场：CTF.redeemPositions(USDC.e, 0x0, conditionId, [1, 2])
+  const plainReq: RedeemRequest = { conditionId: CONDITION_ID, negRisk: false, amounts: AMOUNTS };
+  const plain = encodeRedeemCall(plainReq);
+  const plainData = "0x" + SEL_CTF_REDEEM
+    + word(USDC_E_ADDRESS) + word(0) + word(CONDITION_ID) + word(4 * 32)
+    + word(2) + word(1) + word(2);
+  check("CTF redeemPositions 目标", plain.to, CTF_ADDRESS);
+  check("CTF redeemPositions calldata", plain.data, plainData);
+
+  // 2. neg-risk 市场：NegRiskAdapter.redeemPositions(conditionId, [yes, no])
+  const negReq: RedeemRequest = { conditionId: CONDITION_ID, negRisk: true, amounts: AMOUNTS };
+  const neg = encodeRedeemCall(negReq);
+  const negData = "0x" + SEL_ADAPTER_REDEEM
+    + word(CONDITION_ID) + word(2 * 32)
+    + word(2) + word(AMOUNTS[0]) + word(AMOUNTS[1]);
+  check("NegRiskAdapter redeemPositions 目标", neg.to, NEG_RISK_ADAPTER_ADDRESS);
+  check("NegRiskAdapter redeemPositions calldata", neg.data, negData);
+
+  for (const [label, call] of [["CTF", plain], ["NegRisk", neg]] as const) {
+    // 3. EOA：原样发送
+    const eoa = wrapForWallet(call, 0, OWNER, OWNER);
+    check(`${label} EOA 目标`, eoa.to, call.to);
+    check(`${label} EOA calldata`, eoa.data, call.data);
+
+    // 4. 代理钱包：ProxyWalletFactory.proxy([{ typeCode: 1 (CALL), to, value: 0, data }])
+    const proxy = wrapForWallet(call, 1, OWNER, FUNDER);
+    const innerBytes = bytesTail(call.data);
+    const tuple = word(1) + word(call.to) + word(0) + word(4 * 32) + innerBytes;
+    const proxyData = "0x" + SEL_PROXY
+      + word(32)                 // calls 数组偏移
+      + word(1) + word(32)       // 数组长度 1；第 0 个元素（动态 tuple）的偏移
+      + tuple;
+    check(`${label} 代理钱包 目标`, proxy.to, PROXY_WALLET_FACTORY_ADDRESS);
+    check(`${label} 代理钱包 calldata`, proxy.data, proxyData);
+
+    // 5. Safe：owner 直接调用 funder 的 execTransaction(to, 0, data, CALL, 0, 0, 0, 0x0, 0x0, signature)
+    const safe = wrapForWallet(call, 2, OWNER, FUNDER);
+    const signature = word(OWNER) + word(0) + "01";
+    const sigBytes = bytesTail(signature);
+    const safeData = "0x" + SEL_SAFE_EXEC
+      + word(call.to) + word(0) + offsetAfter(10) + word(0)
+      + word(0) + word(0) + word(0) + word(0) + word(0)
+      + offsetAfter(10, innerBytes)
+      + innerBytes + sigBytes;
+    check(`${label} Safe 目标（funder）`, safe.to, FUNDER);
+    check(`${label} Safe calldata`, safe.data, safeData);
+
+    // 签名单独核对：65 字节，r = owner 地址，s = 0，v = 1（预批准哈希，msg.sender 即 owner）
+    const sigStart = 2 + 8 + (10 * 32 + innerBytes.length / 2) * 2;
+    const sigLen = parseInt(safe.data.slice(sigStart, sigStart + 64), 16);
+    const sig = safe.data.slice(sigStart + 64, sigStart + 64 + sigLen * 2);
+    check(`${label} Safe 签名长度`, String(sigLen), "65");
+    check(`${label} Safe 签名 r = owner`, sig.slice(0, 64), word(OWNER));
+    check(`${label} Safe 签名 s = 0`, sig.slice(64, 128), word(0));
+    check(`${label} Safe 签名 v = 1`, sig.slice(128, 130), "01");
+  }
+
+  console.log(failures === 0 ? "\n全部通过" : `\n${failures} 项不一致`);
+  if (failures > 0) process.exit(1);
+}
+
+main();